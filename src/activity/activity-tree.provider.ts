@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { formatDuration, formatEntryLabel, stripUrlCredentials } from './activity.helper'
+import { ActivityService, type ActivityEntry } from './activity.service'
+
+export const ACTIVITY_SCHEME = 'ruyi-activity'
+
+/**
+ * Read-only document URI showing the transcript of an entry.
+ */
+export function activityUri(entry: ActivityEntry): vscode.Uri {
+  return vscode.Uri.from({ scheme: ACTIVITY_SCHEME, path: `/${formatEntryLabel(entry).slice(0, 60)}.log`, query: entry.id })
+}
+
+export class ActivityTreeProvider implements vscode.TreeDataProvider<ActivityItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  constructor(private readonly service: ActivityService) {
+    this.service.onDidChange(() => this.refresh())
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire()
+  }
+
+  getTreeItem(element: ActivityItem): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: ActivityItem): ActivityItem[] {
+    if (element) {
+      return []
+    }
+    return this.service.getEntries().map(entry => new ActivityItem(entry))
+  }
+}
+
+export class ActivityItem extends vscode.TreeItem {
+  constructor(public readonly entry: ActivityEntry) {
+    super(formatEntryLabel(entry), vscode.TreeItemCollapsibleState.None)
+
+    const started = new Date(entry.startedAt)
+    this.description = `${started.toLocaleTimeString()} · ${formatDuration(entry.durationMs)}`
+    this.tooltip = this.buildTooltip()
+    this.contextValue = `ruyiActivity.${entry.source}`
+    this.command = {
+      command: 'ruyi.activity.showOutput',
+      title: vscode.l10n.t('Show Output'),
+      arguments: [this],
+    }
+
+    if (entry.cancelled) {
+      this.iconPath = new vscode.ThemeIcon('circle-slash')
+    }
+    else if (entry.timedOut) {
+      this.iconPath = new vscode.ThemeIcon('watch', new vscode.ThemeColor('problemsWarningIcon.foreground'))
+    }
+    else if (entry.exitCode === 0) {
+      this.iconPath = new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed'))
+    }
+    else {
+      this.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))
+    }
+  }
+
+  private buildTooltip(): vscode.MarkdownString {
+    const { entry } = this
+    const tooltip = new vscode.MarkdownString()
+    tooltip.appendCodeblock([entry.command, ...entry.args].join(' '), 'shell')
+    tooltip.appendMarkdown(`${vscode.l10n.t('Started: {0}', new Date(entry.startedAt).toLocaleString())}  \n`)
+    tooltip.appendMarkdown(`${vscode.l10n.t('Duration: {0}', formatDuration(entry.durationMs))}  \n`)
+    tooltip.appendMarkdown(`${vscode.l10n.t('Exit code: {0}', entry.exitCode)}  \n`)
+    if (entry.cwd) {
+      tooltip.appendMarkdown(`${vscode.l10n.t('Working directory: {0}', entry.cwd)}  \n`)
+    }
+    const env = Object.entries(entry.env)
+    if (env.length > 0) {
+      tooltip.appendCodeblock(env.map(([key, value]) => `${key}=${stripUrlCredentials(value)}`).join('\n'), 'properties')
+    }
+    return tooltip
+  }
+}
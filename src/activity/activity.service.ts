@@ -0,0 +1,250 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Activity Module - Service Layer
+ *
+ * Keeps a transcript of every command the extension ran (Ruyi CLI
+ * invocations and build steps) and persists it in globalStorage:
+ * - Records args, cwd, relevant environment, timing and exit status.
+ * - Keeps the complete output, truncated per entry to bound the history size.
+ * - Caps the number of entries; the oldest ones are dropped first.
+ */
+
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { logger } from '../common/logger'
+import { onDidRunRuyi, type RuyiInvocation } from '../ruyi'
+
+import { stripUrlCredentials } from './activity.helper'
+
+export type ActivitySource = 'ruyi' | 'build'
+
+export interface ActivityEntry {
+  id: string
+  source: ActivitySource
+  command: string
+  args: string[]
+  cwd?: string
+  /** Environment variables that differ from the extension host or affect ruyi */
+  env: Record<string, string>
+  startedAt: number
+  durationMs: number
+  exitCode: number
+  cancelled?: boolean
+  timedOut?: boolean
+  stdout: string
+  stderr: string
+}
+
+export type ActivityHistory = {
+  data: ActivityEntry[]
+  version: string
+}
+
+/** Characters kept of the stdout and of the stderr of an entry */
+const MAX_OUTPUT_LENGTH = 64 * 1024
+
+/** Room left for the omission marker of a tail */
+const MARKER_LENGTH = 64
+
+/**
+ * Collects the end of a streamed output, no more than an entry keeps, so
+ * that long-running commands do not hold all their output in memory.
+ */
+export class OutputTail {
+  private text = ''
+  private omitted = 0
+
+  append(chunk: string): void {
+    this.text += chunk
+    // Trim in batches rather than on every chunk
+    if (this.text.length > 2 * MAX_OUTPUT_LENGTH) {
+      this.omitted += this.text.length - MAX_OUTPUT_LENGTH
+      this.text = this.text.slice(-MAX_OUTPUT_LENGTH)
+    }
+  }
+
+  /**
+   * The collected output, starting with an omission marker if it was cut.
+   * Short enough for ActivityService to keep as is.
+   */
+  toString(): string {
+    const total = this.omitted + this.text.length
+    if (total <= MAX_OUTPUT_LENGTH) {
+      return this.text
+    }
+    const keep = MAX_OUTPUT_LENGTH - MARKER_LENGTH
+    return `[... ${total - keep} characters omitted ...]\n${this.text.slice(-keep)}`
+  }
+}
+
+/** Environment variables that influence ruyi even when inherited */
+const RELEVANT_ENV = /^(RUYI_|XDG_|(HTTPS?|ALL|NO)_PROXY$)/i
+
+/**
+ * Pick the environment variables worth recording: anything that differs from
+ * the extension host environment, plus inherited variables ruyi reads.
+ * Credentials in URL values, e.g. of proxies, are left out.
+ */
+export function relevantEnv(env: NodeJS.ProcessEnv): Record<string, string> {
+  const picked: Record<string, string> = {}
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined && (value !== process.env[key] || RELEVANT_ENV.test(key))) {
+      picked[key] = stripUrlCredentials(value)
+    }
+  }
+  return picked
+}
+
+export class ActivityService implements vscode.Disposable {
+  private static _instance: ActivityService
+  private entries: ActivityEntry[] = []
+  private historyPath: string | undefined
+  private saveTimer: NodeJS.Timeout | undefined
+  private nextId = 0
+  private readonly HISTORY_VERSION = '1.0.0'
+  private readonly MAX_ENTRIES = 200
+  private readonly SAVE_DELAY_MS = 1000
+  private readonly _onDidChange = new vscode.EventEmitter<void>()
+  private readonly disposables: vscode.Disposable[] = [this._onDidChange]
+
+  /**
+   * Fired when entries were added or removed.
+   */
+  readonly onDidChange = this._onDidChange.event
+
+  private constructor() {
+    this.disposables.push(onDidRunRuyi(invocation => this.recordInvocation(invocation)))
+  }
+
+  public static get instance(): ActivityService {
+    if (!ActivityService._instance) {
+      ActivityService._instance = new ActivityService()
+    }
+    return ActivityService._instance
+  }
+
+  /**
+   * Load the persisted history. Entries recorded before this call are kept.
+   */
+  public async initialize(storageUri: vscode.Uri): Promise<void> {
+    this.historyPath = path.join(storageUri.fsPath, 'activity-history.json')
+
+    try {
+      const historyUri = vscode.Uri.file(this.historyPath)
+      const history: ActivityHistory = JSON.parse((await vscode.workspace.fs.readFile(historyUri)).toString())
+      if (history.version === this.HISTORY_VERSION) {
+        // Histories saved by earlier versions may still hold credentials
+        const saved = history.data.map(entry => ({
+          ...entry,
+          env: Object.fromEntries(Object.entries(entry.env).map(([key, value]) => [key, stripUrlCredentials(value)])),
+        }))
+        this.entries = [...this.entries, ...saved].slice(0, this.MAX_ENTRIES)
+        this._onDidChange.fire()
+      }
+    }
+    catch {
+      // No history yet
+    }
+  }
+
+  /**
+   * All entries, newest first.
+   */
+  public getEntries(): readonly ActivityEntry[] {
+    return this.entries
+  }
+
+  public getEntry(id: string): ActivityEntry | undefined {
+    return this.entries.find(entry => entry.id === id)
+  }
+
+  /**
+   * Add an entry to the history.
+   */
+  public record(entry: Omit<ActivityEntry, 'id'>): ActivityEntry {
+    const recorded: ActivityEntry = {
+      ...entry,
+      id: `${entry.startedAt.toString(36)}-${(this.nextId++).toString(36)}`,
+      stdout: this.truncate(entry.stdout),
+      stderr: this.truncate(entry.stderr),
+    }
+
+    this.entries.unshift(recorded)
+    this.entries.length = Math.min(this.entries.length, this.MAX_ENTRIES)
+    this._onDidChange.fire()
+    this.scheduleSave()
+    return recorded
+  }
+
+  public clear(): void {
+    this.entries = []
+    this._onDidChange.fire()
+    this.scheduleSave()
+  }
+
+  private recordInvocation(invocation: RuyiInvocation): void {
+    const { result } = invocation
+    this.record({
+      source: 'ruyi',
+      command: invocation.command,
+      args: invocation.args,
+      cwd: invocation.cwd,
+      env: relevantEnv(invocation.env),
+      startedAt: invocation.startedAt,
+      durationMs: invocation.durationMs,
+      exitCode: result.code,
+      cancelled: result.cancelled,
+      timedOut: result.timedOut,
+      stdout: result.stdout,
+      stderr: result.stderr,
+    })
+  }
+
+  private truncate(output: string): string {
+    if (output.length <= MAX_OUTPUT_LENGTH) {
+      return output
+    }
+    const omitted = output.length - MAX_OUTPUT_LENGTH
+    return `[... ${omitted} characters omitted ...]\n${output.slice(-MAX_OUTPUT_LENGTH)}`
+  }
+
+  private scheduleSave(): void {
+    if (!this.historyPath || this.saveTimer) {
+      return
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined
+      void this.save()
+    }, this.SAVE_DELAY_MS)
+  }
+
+  private async save(): Promise<void> {
+    if (!this.historyPath) {
+      return
+    }
+
+    try {
+      const historyUri = vscode.Uri.file(this.historyPath)
+      await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(historyUri, '..'))
+
+      const history: ActivityHistory = {
+        data: this.entries,
+        version: this.HISTORY_VERSION,
+      }
+      await vscode.workspace.fs.writeFile(historyUri, Buffer.from(JSON.stringify(history), 'utf8'))
+    }
+    catch (error) {
+      logger.warn('Failed to save activity history:', error)
+    }
+  }
+
+  dispose(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = undefined
+      void this.save()
+    }
+    this.disposables.forEach(d => d.dispose())
+  }
+}
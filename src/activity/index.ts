@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Activity Module
+ *
+ * Registers the Activity view listing every command the extension ran, and
+ * its commands:
+ *  - ruyi.activity.showOutput   open the transcript in a read-only document
+ *  - ruyi.activity.copyCommand  copy the invocation as a shell command
+ *  - ruyi.activity.rerun        run the invocation again
+ *  - ruyi.activity.clear        clear the history
+ */
+
+import * as vscode from 'vscode'
+
+import { getExecutor } from '../common/executor'
+import { shellQuote } from '../common/helpers'
+import ruyi, { RuyiError, showRuyiError } from '../ruyi'
+
+import { ActivityItem, ActivityTreeProvider, ACTIVITY_SCHEME, activityUri } from './activity-tree.provider'
+import { formatEntryLabel, formatShellCommand, formatTranscript, ruyiArgs, stripUrlCredentials } from './activity.helper'
+import { ActivityService, type ActivityEntry } from './activity.service'
+
+/**
+ * Recorded variables to set when running an entry again. Those recorded
+ * without their credentials keep the current value if that only differs by
+ * them.
+ */
+function rerunEnv(entry: ActivityEntry): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const [key, value] of Object.entries(entry.env)) {
+    const current = process.env[key]
+    if (current === undefined || stripUrlCredentials(current) !== value) {
+      env[key] = value
+    }
+  }
+  return env
+}
+
+async function rerun(entry: ActivityEntry): Promise<void> {
+  const label = formatEntryLabel(entry)
+  const confirmation = await vscode.window.showWarningMessage(
+    vscode.l10n.t('Run "{0}" again?', label),
+    { modal: true, detail: formatShellCommand(entry) },
+    vscode.l10n.t('Re-run'),
+  )
+  if (confirmation !== vscode.l10n.t('Re-run')) {
+    return
+  }
+
+  const args = ruyiArgs(entry)
+  if (!args) {
+    // Build steps run in a terminal on the executor's target so that their
+    // output stays interactive
+    const executor = getExecutor()
+    const env = rerunEnv(entry)
+    const local = executor.kind === 'local'
+    const terminal = vscode.window.createTerminal({
+      ...executor.terminalOptions(label, entry.cwd),
+      env: local ? env : undefined,
+    })
+    // A remote shell does not see the environment of the local client
+    const assignments = local
+      ? []
+      : Object.entries(env).map(([key, value]) => `${key}=${shellQuote(executor.toTargetPath(value))}`)
+    const commandLine = [entry.command, ...entry.args].map(arg => shellQuote(executor.toTargetPath(arg)))
+    terminal.show()
+    terminal.sendText([...(assignments.length > 0 ? ['env', ...assignments] : []), ...commandLine].join(' '))
+    return
+  }
+
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: vscode.l10n.t('Running {0}...', label),
+    cancellable: true,
+  }, async (_, token) => {
+    let invoker = ruyi.token(token).env({ ...process.env, ...rerunEnv(entry) })
+    if (entry.cwd) {
+      invoker = invoker.cwd(entry.cwd)
+    }
+
+    const result = await invoker.exec(args)
+    if (result.cancelled) {
+      return
+    }
+    if (result.code !== 0) {
+      void showRuyiError(vscode.l10n.t('"{0}" failed.', label), new RuyiError(result), () => rerun(entry))
+      return
+    }
+    vscode.window.showInformationMessage(vscode.l10n.t('"{0}" finished successfully.', label))
+  })
+}
+
+export default function registerActivityModule(ctx: vscode.ExtensionContext) {
+  const activityService = ActivityService.instance
+  void activityService.initialize(ctx.globalStorageUri)
+
+  const treeProvider = new ActivityTreeProvider(activityService)
+  const treeView = vscode.window.createTreeView('ruyiActivityView', {
+    treeDataProvider: treeProvider,
+  })
+
+  const contentProvider = vscode.workspace.registerTextDocumentContentProvider(ACTIVITY_SCHEME, {
+    provideTextDocumentContent(uri) {
+      const entry = activityService.getEntry(uri.query)
+      return entry ? formatTranscript(entry) : vscode.l10n.t('This entry is no longer in the activity history.')
+    },
+  })
+
+  ctx.subscriptions.push(
+    activityService,
+    treeView,
+    contentProvider,
+    vscode.commands.registerCommand('ruyi.activity.showOutput', async (item: ActivityItem) => {
+      if (!(item instanceof ActivityItem)) {
+        return
+      }
+      const document = await vscode.workspace.openTextDocument(activityUri(item.entry))
+      await vscode.window.showTextDocument(document, { preview: true })
+    }),
+    vscode.commands.registerCommand('ruyi.activity.copyCommand', async (item: ActivityItem) => {
+      if (!(item instanceof ActivityItem)) {
+        return
+      }
+      await vscode.env.clipboard.writeText(formatShellCommand(item.entry))
+      vscode.window.showInformationMessage(vscode.l10n.t('Command copied to clipboard.'))
+    }),
+    vscode.commands.registerCommand('ruyi.activity.rerun', async (item: ActivityItem) => {
+      if (item instanceof ActivityItem) {
+        await rerun(item.entry)
+      }
+    }),
+    vscode.commands.registerCommand('ruyi.activity.clear', () => activityService.clear()),
+  )
+}
@@ -6,7 +6,8 @@
  * - Load build system detection rules from a JSON rule file.
  *   Rule precedence: workspace `.ruyi-build-rules.json` > bundled `media/build-rules.json`.
  * - Detect the active build system by scanning workspace root for indicator files.
- * - Execute build steps, optionally inside an active Ruyi virtual environment.
+ * - Execute build steps, optionally inside an active Ruyi virtual environment,
+ *   on the target selected by `ruyi.executor.*` (see common/executor).
  *
  * When a Ruyi venv is active the step is run as:
  *   bash -c 'source "$RUYI_ACTIVATE_SCRIPT" && exec "$@"' -- <command> [args…]
@@ -16,12 +17,13 @@
  * PATH, …) is present in the child process environment.
  */
 
-import { spawn } from 'child_process'
 import * as fs from 'fs'
 import * as path from 'path'
 import * as vscode from 'vscode'
 
-import { getWorkspaceFolderPath } from '../common/helpers'
+import { ActivityService, OutputTail, relevantEnv } from '../activity/activity.service'
+import { getExecutor } from '../common/executor'
+import { getWorkspaceFolderPath, killProcessTree } from '../common/helpers'
 import { logger } from '../common/logger'
 import { VenvService } from '../venv/venv.service'
 
@@ -274,9 +276,9 @@ export class BuildService implements vscode.Disposable {
       {
         location: vscode.ProgressLocation.Notification,
         title: vscode.l10n.t('Building with {0}...', rule.name),
-        cancellable: false,
+        cancellable: true,
       },
-      async (progress) => {
+      async (progress, token) => {
         const total = rule.steps.length
 
         for (let i = 0; i < total; i++) {
@@ -298,7 +300,7 @@ export class BuildService implements vscode.Disposable {
 
           let exitCode: number
           try {
-            exitCode = await this.runStep(step, stepWorkdir, venvPath)
+            exitCode = await this.runStep(step, stepWorkdir, venvPath, token)
           }
           catch (err) {
             this.outputChannel.appendLine(`\n✗ Step '${step.name}' could not start: ${err}`)
@@ -308,6 +310,12 @@ export class BuildService implements vscode.Disposable {
             return
           }
 
+          if (token.isCancellationRequested) {
+            this.outputChannel.appendLine(`\n✗ Build cancelled during step '${step.name}'`)
+            vscode.window.showInformationMessage(vscode.l10n.t('Build cancelled.'))
+            return
+          }
+
           if (exitCode !== 0) {
             this.outputChannel.appendLine(
               `\n✗ Step '${step.name}' failed (exit code ${exitCode})`,
@@ -332,17 +340,21 @@ export class BuildService implements vscode.Disposable {
   // ─── Internal helpers ──────────────────────────────────────────────────────
 
   /**
-   * Spawns a single build step and streams its output to the output channel.
+   * Spawns a single build step through the workspace executor and streams
+   * its output to the output channel.
+   * The finished step is recorded in the activity history.
    *
    * @param step      The build step to execute.
    * @param workdir   Absolute working directory for the process.
    * @param venvPath  Absolute path to the active Ruyi venv, or null.
+   * @param token     Cancels the step by killing its whole process tree.
    * @returns         The process exit code (0 = success).
    */
   private runStep(
     step: BuildStep,
     workdir: string,
     venvPath: string | null,
+    token?: vscode.CancellationToken,
   ): Promise<number> {
     return new Promise((resolve, reject) => {
       let spawnCmd: string
@@ -392,25 +404,52 @@ export class BuildService implements vscode.Disposable {
         spawnArgs = step.args
       }
 
-      const proc = spawn(spawnCmd, spawnArgs, {
+      const proc = getExecutor().spawn(spawnCmd, spawnArgs, {
         cwd: workdir,
         env: spawnEnv,
         stdio: ['ignore', 'pipe', 'pipe'],
+        // Own process group so cancellation also stops make/cc children
+        detached: process.platform !== 'win32',
       })
 
-      proc.stdout.on('data', (chunk: Buffer) => {
+      const startedAt = Date.now()
+      const stdout = new OutputTail()
+      const stderr = new OutputTail()
+
+      const cancelListener = token?.onCancellationRequested(() => killProcessTree(proc))
+
+      proc.stdout?.on('data', (chunk: Buffer) => {
+        stdout.append(chunk.toString())
         this.outputChannel.append(chunk.toString())
       })
 
-      proc.stderr.on('data', (chunk: Buffer) => {
+      proc.stderr?.on('data', (chunk: Buffer) => {
+        stderr.append(chunk.toString())
         this.outputChannel.append(chunk.toString())
       })
 
       proc.on('close', (code) => {
+        cancelListener?.dispose()
+        ActivityService.instance.record({
+          source: 'build',
+          command: spawnCmd,
+          args: spawnArgs,
+          cwd: workdir,
+          env: relevantEnv(spawnEnv),
+          startedAt,
+          durationMs: Date.now() - startedAt,
+          exitCode: code ?? -1,
+          cancelled: token?.isCancellationRequested,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+        })
         resolve(code ?? -1)
       })
 
-      proc.on('error', reject)
+      proc.on('error', (err) => {
+        cancelListener?.dispose()
+        reject(err)
+      })
     })
   }
 
@@ -44,6 +44,26 @@ class ConfigurationService implements vscode.Disposable {
     return this.get(CONFIG_KEYS.CHECK_FOR_UPDATES, true)
   }
 
+  public get executorKind(): string {
+    return this.get(CONFIG_KEYS.EXECUTOR_KIND, 'local')
+  }
+
+  public get executorSshHost(): string | undefined {
+    return this.get(CONFIG_KEYS.EXECUTOR_SSH_HOST, '').trim() || undefined
+  }
+
+  public get executorContainer(): string | undefined {
+    return this.get(CONFIG_KEYS.EXECUTOR_CONTAINER, '').trim() || undefined
+  }
+
+  public get executorPathMappings(): Record<string, string> {
+    return this.get(CONFIG_KEYS.EXECUTOR_PATH_MAPPINGS, {})
+  }
+
+  public get packagesPrereleaseUpdates(): boolean {
+    return this.get(CONFIG_KEYS.PACKAGES_PRERELEASE_UPDATES, false)
+  }
+
   public get quietRuyiPath(): boolean {
     return this.get(CONFIG_KEYS.QUIET_RUYI_PATH, false)
   }
@@ -11,7 +11,16 @@ export type ConfigKey = typeof CONFIG_KEYS[keyof typeof CONFIG_KEYS]
 /** Configuration keys */
 export const CONFIG_KEYS = {
   CHECK_FOR_UPDATES: 'checkForUpdates',
+  EXECUTOR_KIND: 'executor.kind',
+  EXECUTOR_SSH_HOST: 'executor.sshHost',
+  EXECUTOR_CONTAINER: 'executor.container',
+  EXECUTOR_PATH_MAPPINGS: 'executor.pathMappings',
+  PACKAGES_PRERELEASE_UPDATES: 'packages.prereleaseUpdates',
   QUIET_RUYI_PATH: 'quietRuyiPath',
   RUYI_PATH: 'ruyiPath',
+  STATE_ROOT: 'state.root',
+  STATE_CACHE_DIR: 'state.cacheDir',
+  STATE_DATA_DIR: 'state.dataDir',
+  STATE_CONFIG_DIR: 'state.configDir',
   TELEMETRY: 'telemetry',
 } as const
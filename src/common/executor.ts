@@ -0,0 +1,289 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Command Executors
+ *
+ * Abstracts where commands run, so that ruyi, build steps and the venv
+ * terminal can target a shared build server or a container while VS Code
+ * itself runs locally. The executor is selected per workspace through
+ * `ruyi.executor.*`:
+ *  - local     spawn directly on this machine
+ *  - ssh       run through `ssh <host>`
+ *  - docker    run through `docker exec <container>`
+ *  - podman    run through `podman exec <container>`
+ *
+ * Remote targets see paths through `ruyi.executor.pathMappings` (local
+ * prefix -> target prefix). Working directories, arguments and environment
+ * values under a mapped prefix are translated before the command is sent.
+ */
+
+import { spawn } from 'child_process'
+import type { ChildProcess, SpawnOptions } from 'child_process'
+import { randomUUID } from 'crypto'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { configuration } from './configuration'
+import { shellQuote } from './helpers'
+import { logger } from './logger'
+
+export type ExecutorKind
+  = | 'local'
+    | 'ssh'
+    | 'docker'
+    | 'podman'
+
+export interface Executor {
+  readonly kind: ExecutorKind
+  /** Human-readable target, e.g. "ssh build-server" */
+  readonly label: string
+  /**
+   * Spawn a command on the target. `options.cwd` and `options.env` are given
+   * as seen locally; remote executors translate them and forward only the
+   * variables that differ from the extension host environment.
+   */
+  spawn(command: string, args: string[], options: SpawnOptions): ChildProcess
+  /** Translate a local path to the path the target sees */
+  toTargetPath(localPath: string): string
+  /** Translate a path reported by the target back to a local path */
+  toLocalPath(targetPath: string): string
+  /** Options for an interactive bash terminal on the target */
+  terminalOptions(name: string, cwd?: string): vscode.TerminalOptions
+}
+
+type PathMapping = [local: string, target: string]
+
+/**
+ * Replace the longest matching prefix of `value`.
+ */
+function mapPrefix(value: string, mappings: PathMapping[]): string {
+  for (const [from, to] of mappings) {
+    if (value === from || value.startsWith(from.endsWith('/') ? from : `${from}/`)) {
+      return to + value.slice(from.length)
+    }
+  }
+  return value
+}
+
+/**
+ * Environment variables that differ from the extension host, i.e. the ones
+ * a remote target would not otherwise see.
+ */
+function envDelta(env: NodeJS.ProcessEnv | undefined): Array<[string, string]> {
+  return Object.entries(env ?? {})
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== process.env[entry[0]])
+}
+
+class LocalExecutor implements Executor {
+  readonly kind = 'local'
+  readonly label = vscode.l10n.t('local')
+
+  spawn(command: string, args: string[], options: SpawnOptions): ChildProcess {
+    return spawn(command, args, options)
+  }
+
+  toTargetPath(localPath: string): string {
+    return localPath
+  }
+
+  toLocalPath(targetPath: string): string {
+    return targetPath
+  }
+
+  terminalOptions(name: string, cwd?: string): vscode.TerminalOptions {
+    return { name, shellPath: '/bin/bash', cwd }
+  }
+}
+
+/**
+ * Shell script running a command on a remote target. The command gets its
+ * own session, and its pid is written to `pidFile`, so that it can be
+ * killed through a second client invocation: killing the local client does
+ * not end the command, as there is no pty to deliver a hangup.
+ */
+function remoteJobScript(
+  command: string,
+  args: string[],
+  cwd: string | undefined,
+  env: Array<[string, string]>,
+  pidFile: string,
+): string {
+  const commandLine = [
+    ...(env.length > 0 ? ['env', ...env.map(([key, value]) => `${key}=${shellQuote(value)}`)] : []),
+    shellQuote(command),
+    ...args.map(shellQuote),
+  ].join(' ')
+  return [
+    ...(cwd ? [`cd ${shellQuote(cwd)} || exit 1`] : []),
+    // Background jobs read /dev/null unless stdin is passed on explicitly
+    'exec 3<&0',
+    `if command -v setsid >/dev/null 2>&1; then setsid ${commandLine} <&3 3<&- & else ${commandLine} <&3 3<&- & fi`,
+    'pid=$!',
+    'exec 3<&-',
+    `echo "$pid" > ${pidFile}`,
+    'wait "$pid"',
+    'status=$?',
+    `rm -f ${pidFile}`,
+    'exit "$status"',
+  ].join('\n')
+}
+
+/**
+ * Common base of executors that reach the target through a local client
+ * program (ssh, docker, podman).
+ */
+abstract class RemoteExecutor implements Executor {
+  abstract readonly kind: ExecutorKind
+  abstract readonly label: string
+  private readonly toTarget: PathMapping[]
+  private readonly toLocal: PathMapping[]
+
+  constructor(pathMappings: Record<string, string>) {
+    const mappings = Object.entries(pathMappings)
+      .map(([local, target]): PathMapping => [path.resolve(local), target])
+    const byLength = (index: 0 | 1) => (a: PathMapping, b: PathMapping) => b[index].length - a[index].length
+    this.toTarget = [...mappings].sort(byLength(0))
+    this.toLocal = mappings.map(([local, target]): PathMapping => [target, local]).sort(byLength(0))
+  }
+
+  /** Client command line running a POSIX shell script on the target */
+  protected abstract shellArgs(script: string): [client: string, clientArgs: string[]]
+
+  abstract terminalOptions(name: string, cwd?: string): vscode.TerminalOptions
+
+  spawn(command: string, args: string[], options: SpawnOptions): ChildProcess {
+    const cwd = options.cwd ? this.toTargetPath(options.cwd.toString()) : undefined
+    const env = envDelta(options.env).map(([key, value]): [string, string] => [key, this.toTargetPath(value)])
+    const pidFile = `"\${TMPDIR:-/tmp}/ruyi-vscode-${randomUUID()}.pid"`
+    const script = remoteJobScript(command, args.map(arg => this.toTargetPath(arg)), cwd, env, pidFile)
+    const [client, clientArgs] = this.shellArgs(script)
+
+    logger.debug(`Executing on ${this.label}: ${command} ${args.join(' ')}`)
+    // The client runs locally, so it gets the local environment and cwd
+    const child = spawn(client, clientArgs, { ...options, cwd: undefined, env: process.env })
+    // A client killed on cancel or timeout leaves the command running
+    child.once('exit', (_code, signal) => {
+      if (signal) {
+        this.killRemote(pidFile)
+      }
+    })
+    return child
+  }
+
+  private killRemote(pidFile: string): void {
+    const [client, clientArgs] = this.shellArgs([
+      `pid=$(cat ${pidFile} 2>/dev/null) && { kill -TERM -"$pid" 2>/dev/null || kill -TERM "$pid"; }`,
+      `rm -f ${pidFile}`,
+    ].join('\n'))
+    spawn(client, clientArgs, { stdio: 'ignore', env: process.env, windowsHide: true })
+      .on('error', error => logger.warn(`Failed to stop the command on ${this.label}:`, error))
+  }
+
+  toTargetPath(localPath: string): string {
+    return mapPrefix(localPath, this.toTarget)
+  }
+
+  toLocalPath(targetPath: string): string {
+    return mapPrefix(targetPath, this.toLocal)
+  }
+}
+
+class SshExecutor extends RemoteExecutor {
+  readonly kind = 'ssh'
+  readonly label: string
+
+  constructor(private readonly host: string, pathMappings: Record<string, string>) {
+    super(pathMappings)
+    this.label = `ssh ${host}`
+  }
+
+  protected shellArgs(script: string): [string, string[]] {
+    // ssh joins its arguments into a single remote shell command line
+    return ['ssh', ['-T', '-o', 'BatchMode=yes', '--', this.host, `sh -c ${shellQuote(script)}`]]
+  }
+
+  terminalOptions(name: string, cwd?: string): vscode.TerminalOptions {
+    const target = cwd ? this.toTargetPath(cwd) : undefined
+    const remote = target ? `cd ${shellQuote(target)} && exec bash -l` : 'exec bash -l'
+    return { name, shellPath: 'ssh', shellArgs: ['-t', '--', this.host, remote] }
+  }
+}
+
+class ContainerExecutor extends RemoteExecutor {
+  readonly label: string
+
+  constructor(
+    readonly kind: 'docker' | 'podman',
+    private readonly container: string,
+    pathMappings: Record<string, string>,
+  ) {
+    super(pathMappings)
+    this.label = `${kind} ${container}`
+  }
+
+  protected shellArgs(script: string): [string, string[]] {
+    return [this.kind, ['exec', '-i', this.container, 'sh', '-c', script]]
+  }
+
+  terminalOptions(name: string, cwd?: string): vscode.TerminalOptions {
+    const target = cwd ? this.toTargetPath(cwd) : undefined
+    return {
+      name,
+      shellPath: this.kind,
+      shellArgs: ['exec', '-it', ...(target ? ['-w', target] : []), this.container, 'bash', '-l'],
+    }
+  }
+}
+
+const localExecutor = new LocalExecutor()
+
+const EXECUTOR_KINDS: ExecutorKind[] = ['local', 'ssh', 'docker', 'podman']
+
+/**
+ * Whether a configured host or container would be taken for a client option.
+ */
+function isOptionLike(target: string): boolean {
+  return target.startsWith('-')
+}
+
+/**
+ * Executor configured for the current workspace. Falls back to the local
+ * executor when the configured target is incomplete or invalid.
+ */
+export function getExecutor(): Executor {
+  const configured = configuration.executorKind
+  const kind = EXECUTOR_KINDS.find(candidate => candidate === configured)
+  if (!kind) {
+    logger.warn(`Unknown ruyi.executor.kind "${configured}"; running locally`)
+    return localExecutor
+  }
+  const pathMappings = configuration.executorPathMappings
+
+  switch (kind) {
+    case 'ssh': {
+      const host = configuration.executorSshHost
+      if (host && isOptionLike(host)) {
+        logger.warn(`ruyi.executor.sshHost "${host}" must not start with "-"; running locally`)
+        break
+      }
+      if (host) {
+        return new SshExecutor(host, pathMappings)
+      }
+      logger.warn('ruyi.executor.kind is "ssh" but ruyi.executor.sshHost is not set; running locally')
+      break
+    }
+    case 'docker':
+    case 'podman': {
+      const container = configuration.executorContainer
+      if (container && isOptionLike(container)) {
+        logger.warn(`ruyi.executor.container "${container}" must not start with "-"; running locally`)
+        break
+      }
+      if (container) {
+        return new ContainerExecutor(kind, container, pathMappings)
+      }
+      logger.warn(`ruyi.executor.kind is "${kind}" but ruyi.executor.container is not set; running locally`)
+      break
+    }
+  }
+  return localExecutor
+}
@@ -5,9 +5,14 @@
  * Responsibilities:
  *  - Provide common utility functions for the extension.
  */
+import { spawn } from 'child_process'
+import type { ChildProcess } from 'child_process'
 import * as vscode from 'vscode'
 
+import type { RuyiProgressEvent } from '../ruyi/events'
+
 import { ConfigKey } from './constants'
+import { logger } from './logger'
 
 /** Get the path of the first workspace folder,
  *  or return an error message if none is open.
@@ -70,19 +75,21 @@ export function parseNDJSON<T>(output: string): T[] {
 }
 
 /**
- * Create a progress tracker for download operations.
+ * Create a progress tracker for Ruyi commands run with `ruyi.onEvent()`.
  *
- * Returns a callback function that parses download progress and updates the progress bar,
- * along with a getter function to retrieve the last recorded percentage.
+ * Returns a callback that turns progress events into messages and increments
+ * of the progress bar, along with a getter function to retrieve the last
+ * recorded percentage. Downloads take up most of the bar, split evenly
+ * between the expected distfiles.
  *
  * @param progress The VS Code progress object to report to
- * @returns A tuple of [progressCallback, getLastPercent]
+ * @returns A tuple of [eventCallback, getLastPercent]
  *
  * @example
  * ```typescript
- * const [onProgress, getLastPercent] = createProgressTracker(progress)
+ * const [onEvent, getLastPercent] = createProgressTracker(progress)
  *
- * await ruyi.onProgress(onProgress).install(packageId)
+ * await ruyi.onEvent(onEvent).install(packageId)
  *
  * // Complete the progress bar if needed
  * const remaining = 100 - getLastPercent()
@@ -93,23 +100,82 @@ export function parseNDJSON<T>(output: string): T[] {
  */
 export function createProgressTracker(
   progress: vscode.Progress<{ message?: string, increment?: number }>,
-): [progressCallback: (lastLine: string) => void, getLastPercent: () => number] {
+): [eventCallback: (event: RuyiProgressEvent) => void, getLastPercent: () => number] {
   let lastPercent = 0
 
-  const progressCallback = (lastLine: string) => {
-    const percent = parseDownloadProgress(lastLine)
-    if (percent !== null && percent > lastPercent) {
-      // Clamp percent to 100 to prevent overflow
-      const clampedPercent = Math.min(percent, 100)
-      const increment = clampedPercent - lastPercent
-      lastPercent = clampedPercent
-      progress.report({ increment })
+  const report = (message: string, percent?: number) => {
+    // Clamp percent to 100 to prevent overflow, never move backwards
+    const clampedPercent = Math.min(percent ?? lastPercent, 100)
+    const increment = Math.max(0, clampedPercent - lastPercent)
+    lastPercent += increment
+    progress.report({ message, increment })
+  }
+
+  const eventCallback = (event: RuyiProgressEvent) => {
+    switch (event.phase) {
+      case 'resolve':
+        report(event.message, 5)
+        break
+      case 'fetch': {
+        const done = event.index - 1 + (event.percent ?? 0) / 100
+        const message = vscode.l10n.t('Downloading {0} ({1}/{2})', event.file, event.index, event.total)
+        report(
+          event.percent === undefined ? message : `${message} ${event.percent}%`,
+          5 + Math.floor(75 * done / Math.max(event.total, 1)),
+        )
+        break
+      }
+      case 'verify':
+        report(event.file
+          ? vscode.l10n.t('Verifying {0}...', event.file)
+          : vscode.l10n.t('Verifying checksums...'))
+        break
+      case 'extract':
+        report(event.file
+          ? vscode.l10n.t('Extracting {0}...', event.file)
+          : vscode.l10n.t('Extracting...'), 80)
+        break
+      case 'done':
+        break
     }
   }
 
   const getLastPercent = () => lastPercent
 
-  return [progressCallback, getLastPercent]
+  return [eventCallback, getLastPercent]
+}
+
+/**
+ * Create a queue position reporter for mutating Ruyi operations.
+ *
+ * Returns a callback for `ruyi.onQueued()` that shows how many operations are
+ * ahead while the job waits, and restores `runningMessage` once it starts.
+ *
+ * @param progress The VS Code progress object to report to
+ * @param runningMessage Message to show once the job leaves the queue
+ * @returns The queue position callback
+ *
+ * @example
+ * ```typescript
+ * await ruyi
+ *   .onQueued(createQueueReporter(progress, 'Installing...'))
+ *   .install(packageId)
+ * ```
+ */
+export function createQueueReporter(
+  progress: vscode.Progress<{ message?: string, increment?: number }>,
+  runningMessage?: string,
+): (position: number) => void {
+  return (position: number) => {
+    if (position > 0) {
+      progress.report({
+        message: vscode.l10n.t('Waiting for other Ruyi operations to finish (position {0} in queue)...', position),
+      })
+    }
+    else if (runningMessage) {
+      progress.report({ message: runningMessage })
+    }
+  }
 }
 
 /**
@@ -152,3 +218,66 @@ export async function isNetworkAvailable(): Promise<boolean> {
     return false
   }
 }
+
+/**
+ * Convert a VS Code cancellation token into an AbortSignal.
+ *
+ * Useful for passing `withProgress` tokens down to APIs that only understand
+ * the standard AbortSignal (e.g. the Ruyi invoker or `fetch`).
+ *
+ * @param token The cancellation token to observe
+ * @returns An AbortSignal that is aborted once the token is cancelled
+ */
+export function toAbortSignal(token: vscode.CancellationToken): AbortSignal {
+  const controller = new AbortController()
+  if (token.isCancellationRequested) {
+    controller.abort()
+    return controller.signal
+  }
+
+  const listener = token.onCancellationRequested(() => {
+    listener.dispose()
+    controller.abort()
+  })
+  return controller.signal
+}
+
+/**
+ * Kill a spawned process together with all of its descendants.
+ *
+ * On POSIX the child must have been spawned with `detached: true` so it leads
+ * its own process group; signalling the negative pid then reaches every
+ * process it started (curl, tar, compilers, ...). On Windows `taskkill /T`
+ * is used instead.
+ *
+ * @param child The process to terminate
+ */
+export function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) {
+    return
+  }
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true })
+      .on('error', err => logger.warn(`Failed to kill process tree ${child.pid}:`, err))
+    return
+  }
+
+  try {
+    process.kill(-child.pid, 'SIGTERM')
+  }
+  catch {
+    // Process group is already gone, fall back to the direct child
+    child.kill('SIGTERM')
+  }
+}
+
+/**
+ * Quote a word for a POSIX shell, leaving safe words untouched.
+ */
+export function shellQuote(word: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(word)) {
+    return word
+  }
+  return `'${word.replace(/'/g, `'\\''`)}'`
+}
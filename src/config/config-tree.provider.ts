@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { onDidChangeRuyiState } from '../ruyi'
+import { onDidChangeRuyiStateDirs } from '../ruyi/state'
+
+import { configSection } from './config.helper'
+import { ConfigService, type ConfigEntry, type ConfigSource } from './config.service'
+
+type ConfigTreeElement = ConfigSectionItem | ConfigKeyItem
+
+export class ConfigTreeProvider implements vscode.TreeDataProvider<ConfigTreeElement>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+  private entries: Promise<ConfigEntry[]> | null = null
+  private readonly disposables: vscode.Disposable[] = [this._onDidChangeTreeData]
+
+  constructor(private readonly service: ConfigService) {
+    this.disposables.push(
+      onDidChangeRuyiState(({ command }) => {
+        if (command === 'config') {
+          this.refresh()
+        }
+      }),
+      onDidChangeRuyiStateDirs(() => this.refresh()),
+    )
+  }
+
+  refresh(): void {
+    this.entries = null
+    this._onDidChangeTreeData.fire()
+  }
+
+  getTreeItem(element: ConfigTreeElement): vscode.TreeItem {
+    return element
+  }
+
+  async getChildren(element?: ConfigTreeElement): Promise<ConfigTreeElement[]> {
+    if (element instanceof ConfigKeyItem) {
+      return []
+    }
+
+    this.entries ??= this.service.getEntries()
+    const entries = await this.entries
+
+    if (element instanceof ConfigSectionItem) {
+      return entries
+        .filter(entry => configSection(entry.spec.key) === element.section)
+        .map(entry => new ConfigKeyItem(entry))
+    }
+
+    const sections = [...new Set(entries.map(entry => configSection(entry.spec.key)))]
+    return sections.map(section => new ConfigSectionItem(
+      section,
+      entries.some(entry => configSection(entry.spec.key) === section && entry.source === 'user'),
+    ))
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose())
+  }
+}
+
+export class ConfigSectionItem extends vscode.TreeItem {
+  constructor(public readonly section: string, hasUserValues: boolean) {
+    super(section, vscode.TreeItemCollapsibleState.Expanded)
+    this.iconPath = new vscode.ThemeIcon('symbol-namespace')
+    this.contextValue = hasUserValues ? 'ruyiConfigSection.user' : 'ruyiConfigSection'
+  }
+}
+
+function describeSource(source: ConfigSource): string {
+  switch (source) {
+    case 'user':
+      return vscode.l10n.t('user')
+    case 'system':
+      return vscode.l10n.t('system')
+    case 'unknown':
+      return vscode.l10n.t('unknown source')
+    default:
+      return vscode.l10n.t('default')
+  }
+}
+
+export class ConfigKeyItem extends vscode.TreeItem {
+  constructor(public readonly entry: ConfigEntry) {
+    super(entry.spec.key.slice(configSection(entry.spec.key).length + 1), vscode.TreeItemCollapsibleState.None)
+
+    const value = entry.value ?? vscode.l10n.t('(not set)')
+    this.description = `${value} · ${describeSource(entry.source)}`
+    this.tooltip = new vscode.MarkdownString()
+      .appendMarkdown(`**${entry.spec.key}**\n\n`)
+      .appendMarkdown(`${vscode.l10n.t('Value: {0}', value)}  \n`)
+      .appendMarkdown(`${vscode.l10n.t('Source: {0}', describeSource(entry.source))}  \n`)
+      .appendMarkdown(vscode.l10n.t('Type: {0}', entry.spec.choices?.join(' | ') ?? entry.spec.type))
+    this.iconPath = new vscode.ThemeIcon(entry.source === 'user' ? 'settings-edit' : 'settings')
+    // A value of unknown source may be set by the user, so offer to unset it
+    this.contextValue = entry.source === 'user' || entry.source === 'unknown' ? 'ruyiConfigKey.user' : 'ruyiConfigKey'
+    this.command = {
+      command: 'ruyi.config.edit',
+      title: vscode.l10n.t('Edit Value'),
+      arguments: [this],
+    }
+  }
+}
@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { RuyiError, showRuyiError } from '../ruyi'
+import { requireCapability } from '../ruyi/capabilities'
+
+import { ConfigKeyItem, ConfigSectionItem, ConfigTreeProvider } from './config-tree.provider'
+import type { ConfigKeySpec } from './config.helper'
+import { ConfigService } from './config.service'
+
+/**
+ * Ask for a new value with an input suited to the key type.
+ * @returns The new value, or undefined if cancelled
+ */
+async function promptValue(spec: ConfigKeySpec, current: string | null): Promise<string | undefined> {
+  const title = vscode.l10n.t('Set {0}', spec.key)
+
+  if (spec.type === 'boolean' || spec.type === 'enum') {
+    const choices = spec.type === 'boolean' ? ['true', 'false'] : spec.choices ?? []
+    const picked = await vscode.window.showQuickPick(
+      choices.map(choice => ({ label: choice, description: choice === current ? vscode.l10n.t('current') : undefined })),
+      { title, placeHolder: vscode.l10n.t('Select a value') },
+    )
+    return picked?.label
+  }
+
+  return vscode.window.showInputBox({
+    title,
+    value: current ?? '',
+    placeHolder: spec.type === 'datetime' ? '2025-01-01T00:00:00Z' : undefined,
+    ignoreFocusOut: true,
+    validateInput: (value) => {
+      if (spec.type === 'datetime' && Number.isNaN(Date.parse(value))) {
+        return vscode.l10n.t('Enter a date and time in ISO 8601 format')
+      }
+      return undefined
+    },
+  })
+}
+
+async function runConfigChange(description: string, change: () => Promise<void>): Promise<void> {
+  try {
+    await change()
+  }
+  catch (error) {
+    if (error instanceof RuyiError) {
+      void showRuyiError(description, error, () => runConfigChange(description, change))
+      return
+    }
+    vscode.window.showErrorMessage(`${description} ${String(error)}`)
+  }
+}
+
+export default function registerConfigCommands(ctx: vscode.ExtensionContext, treeProvider: ConfigTreeProvider) {
+  const service = ConfigService.instance
+
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.config.refresh', () => treeProvider.refresh()),
+
+    vscode.commands.registerCommand('ruyi.config.edit', async (item: ConfigKeyItem) => {
+      if (!(item instanceof ConfigKeyItem) || !await requireCapability('hasConfigCommand', vscode.l10n.t('Ruyi configuration'))) {
+        return
+      }
+
+      const { spec, value } = item.entry
+      const newValue = await promptValue(spec, value)
+      if (newValue === undefined || newValue === value) {
+        return
+      }
+      await runConfigChange(
+        vscode.l10n.t('Failed to set {0}.', spec.key),
+        () => service.set(spec.key, newValue),
+      )
+    }),
+
+    vscode.commands.registerCommand('ruyi.config.unset', async (item: ConfigKeyItem) => {
+      if (!(item instanceof ConfigKeyItem)) {
+        return
+      }
+
+      const { key } = item.entry.spec
+      await runConfigChange(
+        vscode.l10n.t('Failed to unset {0}.', key),
+        () => service.unset(key),
+      )
+    }),
+
+    vscode.commands.registerCommand('ruyi.config.removeSection', async (item: ConfigSectionItem) => {
+      if (!(item instanceof ConfigSectionItem)) {
+        return
+      }
+
+      const remove = vscode.l10n.t('Remove')
+      const choice = await vscode.window.showWarningMessage(
+        vscode.l10n.t('Remove all user settings in section [{0}]?', item.section),
+        { modal: true },
+        remove,
+      )
+      if (choice !== remove) {
+        return
+      }
+      await runConfigChange(
+        vscode.l10n.t('Failed to remove section [{0}].', item.section),
+        () => service.removeSection(item.section),
+      )
+    }),
+  )
+}
@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Config Module - Helper Utilities
+ *
+ * Describes the ruyi configuration keys the editor knows about and provides
+ * a minimal reader for ruyi's config.toml files, which is enough to tell
+ * where a key is set.
+ */
+
+export type ConfigValueType
+  = | 'boolean'
+    | 'string'
+    | 'enum'
+    | 'datetime'
+
+/** Views whose content depends on a config key */
+export type ConfigConsumer = 'packages' | 'news'
+
+export interface ConfigKeySpec {
+  /** Dotted key, e.g. "packages.prereleases" */
+  key: string
+  type: ConfigValueType
+  /** Allowed values of an enum key */
+  choices?: string[]
+  /** Views to refresh when the key changes */
+  affects: ConfigConsumer[]
+}
+
+/**
+ * Configuration keys documented by ruyi
+ */
+export const KNOWN_CONFIG_KEYS: ConfigKeySpec[] = [
+  { key: 'installation.externally_managed', type: 'boolean', affects: [] },
+  { key: 'packages.prereleases', type: 'boolean', affects: ['packages'] },
+  { key: 'repo.local', type: 'string', affects: ['packages', 'news'] },
+  { key: 'repo.remote', type: 'string', affects: ['packages', 'news'] },
+  { key: 'repo.branch', type: 'string', affects: ['packages', 'news'] },
+  { key: 'telemetry.mode', type: 'enum', choices: ['off', 'local', 'on'], affects: [] },
+  { key: 'telemetry.upload_consent', type: 'datetime', affects: [] },
+  { key: 'telemetry.pm_telemetry_url', type: 'string', affects: [] },
+]
+
+export function configSection(key: string): string {
+  return key.split('.', 1)[0]
+}
+
+/**
+ * Whether a finished `ruyi config ...` invocation changed a key that the
+ * given view depends on.
+ * @param args Arguments of the invocation, e.g. ['config', 'set', 'repo.branch', 'main']
+ */
+export function configChangeAffects(args: string[], consumer: ConfigConsumer): boolean {
+  const index = args.indexOf('config')
+  const [action, target] = index === -1 ? [] : args.slice(index + 1)
+  if (!target) {
+    return false
+  }
+
+  const matches = action === 'remove-section'
+    ? (spec: ConfigKeySpec) => configSection(spec.key) === target
+    : (spec: ConfigKeySpec) => spec.key === target
+  return KNOWN_CONFIG_KEYS.some(spec => matches(spec) && spec.affects.includes(consumer))
+}
+
+/**
+ * Collect the dotted keys set in a TOML document, mapped to their raw
+ * values. Only handles what ruyi writes: `[section]` headers and single-line
+ * `key = value` pairs.
+ */
+export function parseConfigToml(text: string): Map<string, string> {
+  const values = new Map<string, string>()
+  let section = ''
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) {
+      continue
+    }
+
+    const header = line.match(/^\[\s*([^\]]+?)\s*\]$/)
+    if (header) {
+      section = header[1]
+      continue
+    }
+
+    const pair = line.match(/^([\w.-]+)\s*=\s*(.+)$/)
+    if (pair) {
+      const key = section ? `${section}.${pair[1]}` : pair[1]
+      values.set(key, pair[2].replace(/^"(.*)"$/, '$1'))
+    }
+  }
+
+  return values
+}
@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Config Module - Service Layer
+ *
+ * Reads and writes ruyi's own configuration through `ruyi config`:
+ * - Resolves the effective value of every known key.
+ * - Determines whether a value comes from the user config, a system-wide
+ *   config or ruyi's built-in default. The config files of a remote
+ *   executor's target cannot be read, so the source is unknown there.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { getExecutor } from '../common/executor'
+import { logger } from '../common/logger'
+import ruyi, { checkRuyiResult } from '../ruyi'
+import { getRuyiStateDirs } from '../ruyi/state'
+
+import { KNOWN_CONFIG_KEYS, parseConfigToml, type ConfigKeySpec } from './config.helper'
+
+export type ConfigSource = 'default' | 'user' | 'system' | 'unknown'
+
+export interface ConfigEntry {
+  spec: ConfigKeySpec
+  /** Effective value as printed by `ruyi config get`, null if unset */
+  value: string | null
+  source: ConfigSource
+}
+
+async function readConfigKeys(file: string): Promise<Map<string, string>> {
+  try {
+    return parseConfigToml(await fs.promises.readFile(file, 'utf8'))
+  }
+  catch {
+    return new Map()
+  }
+}
+
+export class ConfigService {
+  private static _instance: ConfigService
+
+  private constructor() {}
+
+  public static get instance(): ConfigService {
+    if (!ConfigService._instance) {
+      ConfigService._instance = new ConfigService()
+    }
+    return ConfigService._instance
+  }
+
+  /**
+   * Path of the user config file in the current ruyi state.
+   */
+  public get userConfigPath(): string {
+    return path.join(getRuyiStateDirs().configHome, 'ruyi', 'config.toml')
+  }
+
+  /**
+   * System-wide config files, in XDG_CONFIG_DIRS order.
+   */
+  private get systemConfigPaths(): string[] {
+    const dirs = (process.env.XDG_CONFIG_DIRS || '/etc/xdg').split(path.delimiter).filter(Boolean)
+    return dirs.map(dir => path.join(dir, 'ruyi', 'config.toml'))
+  }
+
+  /**
+   * Effective value and source of every known key.
+   */
+  public async getEntries(): Promise<ConfigEntry[]> {
+    const local = getExecutor().kind === 'local'
+    const [userKeys, ...systemKeys] = local
+      ? await Promise.all([
+          readConfigKeys(this.userConfigPath),
+          ...this.systemConfigPaths.map(readConfigKeys),
+        ])
+      : [new Map<string, string>()]
+
+    // One key at a time, rather than a burst of ruyi processes per refresh
+    const entries: ConfigEntry[] = []
+    for (const spec of KNOWN_CONFIG_KEYS) {
+      const result = await ruyi.timeout(30_000).configGet(spec.key)
+      if (result.code !== 0 && result.stderr) {
+        logger.debug(`ruyi config get ${spec.key} failed: ${result.stderr}`)
+      }
+
+      let source: ConfigSource = local ? 'default' : 'unknown'
+      if (userKeys.has(spec.key)) {
+        source = 'user'
+      }
+      else if (systemKeys.some(keys => keys.has(spec.key))) {
+        source = 'system'
+      }
+
+      entries.push({ spec, value: result.code === 0 && result.stdout ? result.stdout : null, source })
+    }
+    return entries
+  }
+
+  public async set(key: string, value: string): Promise<void> {
+    checkRuyiResult(await ruyi.timeout(30_000).configSet(key, value))
+  }
+
+  public async unset(key: string): Promise<void> {
+    checkRuyiResult(await ruyi.timeout(30_000).configUnset(key))
+  }
+
+  public async removeSection(section: string): Promise<void> {
+    checkRuyiResult(await ruyi.timeout(30_000).configRemoveSection(section))
+  }
+}
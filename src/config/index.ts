@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { ConfigTreeProvider } from './config-tree.provider'
+import registerConfigCommands from './config.command'
+import { ConfigService } from './config.service'
+
+export default function registerConfigModule(ctx: vscode.ExtensionContext) {
+  const treeProvider = new ConfigTreeProvider(ConfigService.instance)
+  const treeView = vscode.window.createTreeView('ruyiConfigView', {
+    treeDataProvider: treeProvider,
+  })
+  ctx.subscriptions.push(treeProvider, treeView)
+
+  registerConfigCommands(ctx, treeProvider)
+}
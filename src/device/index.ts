@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import registerProvisionCommand from './provision.command'
+
+export default function registerDeviceModule(ctx: vscode.ExtensionContext) {
+  registerProvisionCommand(ctx)
+}
@@ -0,0 +1,231 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Device Module - Provisioning Terminal
+ *
+ * Drives the interactive `ruyi device provision` wizard in a VS Code
+ * pseudoterminal:
+ * - Streams the wizard output live, including dd/fastboot progress lines.
+ * - Runs the wizard under a pseudoterminal and forwards the keystrokes, so
+ *   that sudo can ask for a password without echoing it.
+ * - Holds back any answer naming a block device until the user confirmed
+ *   the device by typing its path again, since flashing erases it.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { getExecutor } from '../common/executor'
+import { killProcessTree } from '../common/helpers'
+import ruyi, { type RuyiInteractiveSession } from '../ruyi'
+
+/**
+ * Whether an answer names a block device on the machine ruyi runs on,
+ * following symlinks such as /dev/disk/by-id/* or /dev/mapper/*.
+ * macOS raw disks (/dev/rdiskN) are character devices but erase the disk too.
+ */
+export async function isBlockDevicePath(answer: string): Promise<boolean> {
+  const device = answer.trim()
+  if (!path.isAbsolute(device)) {
+    return false
+  }
+
+  const executor = getExecutor()
+  if (executor.kind !== 'local') {
+    // `test -b` follows symlinks as well
+    return new Promise((resolve) => {
+      executor.spawn('test', ['-b', device], { stdio: 'ignore', env: process.env })
+        .on('error', () => resolve(false))
+        .on('close', code => resolve(code === 0))
+    })
+  }
+
+  try {
+    const real = await fs.promises.realpath(device)
+    const stats = await fs.promises.stat(real)
+    return stats.isBlockDevice() || (stats.isCharacterDevice() && /^\/dev\/rdisk\d/.test(real))
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * Ask the user to confirm writing to a block device by typing its path.
+ * @returns true if the user confirmed
+ */
+async function confirmBlockDevice(device: string): Promise<boolean> {
+  const proceed = vscode.l10n.t('Continue')
+  const choice = await vscode.window.showWarningMessage(
+    vscode.l10n.t('Ruyi is about to write to {0}. ALL DATA ON THIS DEVICE WILL BE LOST.', device),
+    {
+      modal: true,
+      detail: vscode.l10n.t('Make sure this is the SD card, USB drive or eMMC of your board and not a system disk.'),
+    },
+    proceed,
+  )
+  if (choice !== proceed) {
+    return false
+  }
+
+  const typed = await vscode.window.showInputBox({
+    title: vscode.l10n.t('Confirm Target Device'),
+    prompt: vscode.l10n.t('Type {0} to confirm that it may be overwritten', device),
+    placeHolder: device,
+    ignoreFocusOut: true,
+    validateInput: value => value === device || value === ''
+      ? undefined
+      : vscode.l10n.t('The path does not match {0}', device),
+  })
+  return typed === device
+}
+
+export class ProvisionTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>()
+  private readonly closeEmitter = new vscode.EventEmitter<number | void>()
+  private session: RuyiInteractiveSession | null = null
+  /** Aborted once the terminal is closed, also while the wizard is queued */
+  private readonly abort = new AbortController()
+  private line = ''
+  private confirming = false
+
+  readonly onDidWrite = this.writeEmitter.event
+  readonly onDidClose = this.closeEmitter.event
+
+  /**
+   * Settles with the exit code of the wizard, or null if it did not start.
+   */
+  readonly exit: Promise<number | null>
+  private resolveExit!: (code: number | null) => void
+
+  constructor() {
+    this.exit = new Promise((resolve) => {
+      this.resolveExit = resolve
+    })
+  }
+
+  open(initialDimensions?: vscode.TerminalDimensions): void {
+    this.writeLine(vscode.l10n.t('Starting ruyi device provision...'))
+    void this.start(initialDimensions)
+  }
+
+  close(): void {
+    this.abort.abort()
+    this.stop()
+  }
+
+  /**
+   * Forward the input to the wizard's pseudoterminal, which echoes and edits
+   * it. Only the line is tracked, to hold back an answer naming a device.
+   */
+  handleInput(data: string): void {
+    if (!this.session) {
+      // Ctrl+C while the wizard waits for other ruyi commands
+      if (data.includes('\x03') && !this.abort.signal.aborted) {
+        this.writeEmitter.fire('^C\r\n')
+        this.abort.abort()
+      }
+      return
+    }
+    if (this.confirming) {
+      return
+    }
+
+    const stdin = this.session.process.stdin
+    for (const [index, char] of [...data].entries()) {
+      if (char === '\r' || char === '\n') {
+        const rest = [...data].slice(index + 1).join('')
+        void this.submit(this.line).then(() => rest && this.handleInput(rest))
+        this.line = ''
+        return
+      }
+      if (char === '\x7f' || char === '\b') {
+        this.line = this.line.slice(0, -1)
+      }
+      else if (char === '\x03' || char === '\x15') {
+        this.line = ''
+      }
+      else if (char >= ' ') {
+        this.line += char
+      }
+      stdin?.write(char)
+    }
+  }
+
+  private async start(size?: vscode.TerminalDimensions): Promise<void> {
+    try {
+      this.session = await ruyi.signal(this.abort.signal).deviceProvision(size)
+    }
+    catch (error) {
+      this.writeLine(this.abort.signal.aborted
+        ? vscode.l10n.t('Provisioning was cancelled. You can close this terminal.')
+        : vscode.l10n.t('Failed to start ruyi: {0}', String(error)))
+      this.resolveExit(null)
+      return
+    }
+    // The terminal was closed while ruyi was starting
+    if (this.abort.signal.aborted) {
+      killProcessTree(this.session.process)
+    }
+
+    const { process: child, exit } = this.session
+    child.stdout?.on('data', (chunk: Buffer) => this.writeOutput(chunk.toString()))
+    child.stderr?.on('data', (chunk: Buffer) => this.writeOutput(chunk.toString()))
+
+    const code = await exit
+    this.session = null
+    this.writeLine('')
+    this.writeLine(code === 0
+      ? vscode.l10n.t('Provisioning finished. You can close this terminal.')
+      : vscode.l10n.t('ruyi exited with code {0}. You can close this terminal.', code))
+    this.resolveExit(code)
+  }
+
+  /**
+   * Send the Enter that submits an answer, or discard the answer if it names
+   * a block device the user did not confirm.
+   */
+  private async submit(answer: string): Promise<void> {
+    const child = this.session?.process
+    if (!child?.stdin?.writable) {
+      return
+    }
+
+    // Hold back further input until the answer was checked
+    this.confirming = true
+    let confirmed = true
+    try {
+      confirmed = !await isBlockDevicePath(answer) || await confirmBlockDevice(answer.trim())
+    }
+    finally {
+      this.confirming = false
+    }
+
+    if (!child.stdin.writable) {
+      return
+    }
+    if (confirmed) {
+      child.stdin.write('\r')
+      return
+    }
+    // Ctrl+U drops the typed line from the terminal's line buffer
+    child.stdin.write('\x15')
+    this.writeLine('')
+    this.writeLine(vscode.l10n.t('Not confirmed. Enter another device path, or press Ctrl+C to abort.'))
+  }
+
+  private stop(): void {
+    if (this.session) {
+      killProcessTree(this.session.process)
+    }
+  }
+
+  private writeOutput(text: string): void {
+    // Terminals need CRLF; keep bare CRs so progress lines overwrite themselves
+    this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'))
+  }
+
+  private writeLine(text: string): void {
+    this.writeEmitter.fire(`${text}\r\n`)
+  }
+}
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { requireCapability } from '../ruyi/capabilities'
+
+import { ProvisionTerminal } from './provision-terminal'
+
+export default function registerProvisionCommand(ctx: vscode.ExtensionContext) {
+  const disposable = vscode.commands.registerCommand('ruyi.device.provision', async () => {
+    if (!await requireCapability('hasDeviceProvision', vscode.l10n.t('Device provisioning'))) {
+      return
+    }
+
+    const pty = new ProvisionTerminal()
+    const terminal = vscode.window.createTerminal({
+      name: vscode.l10n.t('Ruyi Device Provision'),
+      pty,
+      iconPath: new vscode.ThemeIcon('circuit-board'),
+    })
+    terminal.show()
+
+    // Keep a progress indicator in the status bar while the wizard runs
+    const code = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: vscode.l10n.t('Provisioning device...'),
+    }, () => pty.exit)
+
+    if (code === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('Device provisioning finished.'))
+    }
+    else if (code !== null) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Device provisioning failed (exit code {0}). See the terminal for details.', code))
+    }
+  })
+
+  ctx.subscriptions.push(disposable)
+}
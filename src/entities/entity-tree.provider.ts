@@ -0,0 +1,189 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { onDidChangeRuyiState } from '../ruyi'
+import { onDidChangeRuyiStateDirs } from '../ruyi/state'
+
+import { getEntitiesFromRuyi, isProfileType, parseEntityRef, type RuyiEntity } from './entity.helper'
+
+type EntityTreeElement
+  = | EntityTypeItem
+    | EntityItem
+    | EntityFieldItem
+    | EntityRelationsItem
+
+/** Subcommands after which the entity database may have changed */
+const ENTITY_MUTATING_COMMANDS = new Set(['update', 'repo'])
+
+export class EntityTreeProvider implements vscode.TreeDataProvider<EntityTreeElement>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+  private loading: Promise<Map<string, RuyiEntity>> | null = null
+  private readonly disposables: vscode.Disposable[] = [this._onDidChangeTreeData]
+
+  constructor() {
+    this.disposables.push(
+      onDidChangeRuyiState(({ command }) => {
+        if (ENTITY_MUTATING_COMMANDS.has(command)) {
+          this.refresh()
+        }
+      }),
+      onDidChangeRuyiStateDirs(() => this.refresh()),
+    )
+  }
+
+  refresh(): void {
+    this.loading = null
+    this._onDidChangeTreeData.fire()
+  }
+
+  /**
+   * All entities by reference.
+   */
+  getEntities(): Promise<Map<string, RuyiEntity>> {
+    this.loading ??= getEntitiesFromRuyi()
+      .then(entities => new Map(entities.map(entity => [entity.ref, entity])))
+      .catch((error) => {
+        this.loading = null
+        throw error
+      })
+    return this.loading
+  }
+
+  getTreeItem(element: EntityTreeElement): vscode.TreeItem {
+    return element
+  }
+
+  async getChildren(element?: EntityTreeElement): Promise<EntityTreeElement[]> {
+    if (element instanceof EntityFieldItem) {
+      return element.getChildren()
+    }
+
+    let entities: Map<string, RuyiEntity>
+    try {
+      entities = await this.getEntities()
+    }
+    catch (error) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to load entities: {0}', String(error)))
+      return []
+    }
+
+    if (!element) {
+      const counts = new Map<string, number>()
+      for (const entity of entities.values()) {
+        counts.set(entity.type, (counts.get(entity.type) ?? 0) + 1)
+      }
+      return [...counts].sort(([a], [b]) => a.localeCompare(b)).map(([type, count]) => new EntityTypeItem(type, count))
+    }
+
+    if (element instanceof EntityTypeItem) {
+      return [...entities.values()]
+        .filter(entity => entity.type === element.type)
+        .map(entity => new EntityItem(entity))
+    }
+
+    if (element instanceof EntityRelationsItem) {
+      return element.refs.map((ref) => {
+        const entity = entities.get(ref)
+        return entity ? new EntityItem(entity, true) : new EntityFieldItem(ref, undefined)
+      })
+    }
+
+    const { entity } = element
+    const children: EntityTreeElement[] = Object.entries(entity.data)
+      .filter(([key]) => key !== 'id' && key !== 'display_name')
+      .map(([key, value]) => new EntityFieldItem(key, value))
+    if (entity.related.length > 0) {
+      children.push(new EntityRelationsItem(vscode.l10n.t('Related'), entity.related))
+    }
+    if (entity.reverse.length > 0) {
+      children.push(new EntityRelationsItem(vscode.l10n.t('Referenced by'), entity.reverse))
+    }
+    return children
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose())
+  }
+}
+
+export class EntityTypeItem extends vscode.TreeItem {
+  constructor(public readonly type: string, count: number) {
+    super(type, vscode.TreeItemCollapsibleState.Collapsed)
+    this.description = String(count)
+    this.iconPath = new vscode.ThemeIcon('symbol-class')
+    this.contextValue = 'ruyiEntityType'
+  }
+}
+
+function entityContextValue(type: string): string {
+  if (isProfileType(type)) {
+    return 'ruyiEntity.profile'
+  }
+  return type === 'device' ? 'ruyiEntity.device' : 'ruyiEntity'
+}
+
+export class EntityItem extends vscode.TreeItem {
+  /**
+   * @param showType Prefix the label with the entity type, used for relations
+   */
+  constructor(public readonly entity: RuyiEntity, showType = false) {
+    super(entity.displayName, vscode.TreeItemCollapsibleState.Collapsed)
+    this.description = showType ? entity.ref : entity.id
+    this.tooltip = entity.ref
+    this.iconPath = new vscode.ThemeIcon(isProfileType(entity.type) ? 'symbol-interface' : 'symbol-object')
+    this.contextValue = entityContextValue(entity.type)
+  }
+}
+
+export class EntityRelationsItem extends vscode.TreeItem {
+  constructor(label: string, public readonly refs: string[]) {
+    super(label, vscode.TreeItemCollapsibleState.Collapsed)
+    this.description = String(refs.length)
+    this.iconPath = new vscode.ThemeIcon('references')
+  }
+}
+
+function isScalar(value: unknown): value is string | number | boolean | null | undefined {
+  return value === null || value === undefined || typeof value !== 'object'
+}
+
+/**
+ * A field of an entity payload. Scalars and lists of scalars are shown
+ * inline; nested tables (e.g. device variants) expand.
+ */
+export class EntityFieldItem extends vscode.TreeItem {
+  constructor(label: string, private readonly value: unknown) {
+    const expandable = !isScalar(value) && !(Array.isArray(value) && value.every(isScalar))
+    super(label, expandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None)
+
+    if (value === undefined) {
+      // Unresolved reference
+      const { type } = parseEntityRef(label)
+      this.description = type ? vscode.l10n.t('not found') : undefined
+      this.iconPath = new vscode.ThemeIcon('question')
+    }
+    else if (Array.isArray(value) && !expandable) {
+      this.description = value.join(', ')
+    }
+    else if (isScalar(value)) {
+      this.description = String(value)
+    }
+    this.tooltip = typeof this.description === 'string' ? `${label}: ${this.description}` : label
+  }
+
+  getChildren(): EntityFieldItem[] {
+    if (Array.isArray(this.value)) {
+      return this.value.map((item, index) => {
+        const name = !isScalar(item) && typeof (item as Record<string, unknown>).id === 'string'
+          ? (item as Record<string, unknown>).id as string
+          : `[${index}]`
+        return new EntityFieldItem(name, item)
+      })
+    }
+    if (!isScalar(this.value)) {
+      return Object.entries(this.value as Record<string, unknown>).map(([key, item]) => new EntityFieldItem(key, item))
+    }
+    return []
+  }
+}
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { getToolchainsFromRuyi } from '../venv/venv.helper'
+
+import { EntityItem, EntityTreeProvider } from './entity-tree.provider'
+import { findReachable, isProfileType, neededQuirks, type RuyiEntity } from './entity.helper'
+
+/**
+ * Resolve the profile to use for an entity: the entity itself, or a profile
+ * reachable from it (e.g. through a device variant). Asks when ambiguous.
+ */
+async function pickProfile(entity: RuyiEntity, treeProvider: EntityTreeProvider): Promise<RuyiEntity | undefined> {
+  if (isProfileType(entity.type)) {
+    return entity
+  }
+
+  const profiles = findReachable(entity, isProfileType, await treeProvider.getEntities())
+  if (profiles.length === 0) {
+    vscode.window.showInformationMessage(vscode.l10n.t('No profile is related to {0}.', entity.displayName))
+    return undefined
+  }
+  if (profiles.length === 1) {
+    return profiles[0]
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    profiles.map(profile => ({ label: profile.displayName, description: profile.id, profile })),
+    { placeHolder: vscode.l10n.t('Select a profile for {0}', entity.displayName) },
+  )
+  return picked?.profile
+}
+
+async function showCompatibleToolchains(profile: RuyiEntity): Promise<void> {
+  const quirks = neededQuirks(profile)
+  const toolchains = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: vscode.l10n.t('Loading toolchains...'),
+  }, () => getToolchainsFromRuyi())
+
+  const compatible = toolchains.filter(toolchain => quirks.every(quirk => toolchain.quirks.includes(quirk)))
+  if (compatible.length === 0) {
+    vscode.window.showInformationMessage(vscode.l10n.t('No toolchain provides the quirks needed by {0}: {1}', profile.displayName, quirks.join(', ')))
+    return
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    compatible.map(toolchain => ({
+      label: toolchain.name,
+      description: `v${toolchain.version}${toolchain.installed ? ` · ${vscode.l10n.t('installed')}` : ''}`,
+      detail: toolchain.quirks.length > 0 ? vscode.l10n.t('Quirks: {0}', toolchain.quirks.join(', ')) : undefined,
+      toolchain,
+    })),
+    {
+      title: vscode.l10n.t('Toolchains compatible with {0}', profile.displayName),
+      placeHolder: quirks.length > 0
+        ? vscode.l10n.t('Needed quirks: {0}. Select a toolchain to install it.', quirks.join(', '))
+        : vscode.l10n.t('Select a toolchain to install it.'),
+      matchOnDetail: true,
+    },
+  )
+  if (!picked || picked.toolchain.installed) {
+    return
+  }
+
+  const { name, version, latest } = picked.toolchain
+  const packageName = name.includes('/') ? name : `toolchain/${name}`
+  await vscode.commands.executeCommand('ruyi.packages.install', [packageName, latest ? undefined : version])
+}
+
+export default function registerEntityCommands(ctx: vscode.ExtensionContext, treeProvider: EntityTreeProvider) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.entities.refresh', () => treeProvider.refresh()),
+
+    vscode.commands.registerCommand('ruyi.entities.createVenv', async (item: EntityItem) => {
+      if (!(item instanceof EntityItem)) {
+        return
+      }
+      const profile = await pickProfile(item.entity, treeProvider)
+      if (profile) {
+        await vscode.commands.executeCommand('ruyi.venv.create', profile.id)
+      }
+    }),
+
+    vscode.commands.registerCommand('ruyi.entities.showToolchains', async (item: EntityItem) => {
+      if (!(item instanceof EntityItem)) {
+        return
+      }
+      const profile = await pickProfile(item.entity, treeProvider)
+      if (profile) {
+        await showCompatibleToolchains(profile)
+      }
+    }),
+  )
+}
@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Entities Module - Helper
+ *
+ * Provides stateless helpers for fetching and parsing ruyi's entity
+ * database (devices, profiles, arches, uarchs, ...) and walking the
+ * references between entities.
+ */
+
+import { logger } from '../common/logger'
+import ruyi from '../ruyi'
+import { parsePorcelain } from '../ruyi/schema'
+import type { RuyiEntityOutput } from '../ruyi/types'
+
+export interface RuyiEntity {
+  /** Entity type, e.g. "device" or "profile-v1" */
+  type: string
+  id: string
+  /** Reference used by related entities, "<type>:<id>" */
+  ref: string
+  displayName: string
+  /** Type-specific payload */
+  data: Record<string, unknown>
+  /** Entities this one refers to */
+  related: string[]
+  /** Entities referring to this one */
+  reverse: string[]
+}
+
+export function entityRef(type: string, id: string): string {
+  return `${type}:${id}`
+}
+
+/**
+ * Split a reference into its type and id.
+ */
+export function parseEntityRef(ref: string): { type: string, id: string } {
+  const index = ref.indexOf(':')
+  return index === -1 ? { type: '', id: ref } : { type: ref.slice(0, index), id: ref.slice(index + 1) }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Parse `ruyi --porcelain entity list` output.
+ */
+export function parseEntities(output: string): RuyiEntity[] {
+  const entities: RuyiEntity[] = []
+
+  for (const record of parsePorcelain<RuyiEntityOutput>(output, 'entity')) {
+    const type = record.entity_type ?? Object.keys(record.data)[0]
+    if (!type) continue
+
+    const payload = isRecord(record.data[type]) ? record.data[type] : record.data
+    const id = record.entity_id ?? (typeof payload.id === 'string' ? payload.id : undefined)
+    if (!id) continue
+
+    const displayName = record.display_name
+      ?? (typeof payload.display_name === 'string' ? payload.display_name : undefined)
+      ?? id
+
+    entities.push({
+      type,
+      id,
+      ref: entityRef(type, id),
+      displayName,
+      data: payload,
+      related: record.related_refs ?? [],
+      reverse: record.reverse_refs ?? [],
+    })
+  }
+
+  return entities.sort((a, b) => a.displayName.localeCompare(b.displayName))
+}
+
+/**
+ * Fetch every entity known to the active ruyi.
+ * @throws Error if the ruyi command fails
+ */
+export async function getEntitiesFromRuyi(): Promise<RuyiEntity[]> {
+  const result = await ruyi.timeout(60_000).listEntities()
+  if (result.code !== 0) {
+    logger.error(`Failed to list entities: ${result.stderr}`)
+    throw new Error(`Failed to list entities: ${result.stderr}`)
+  }
+  return parseEntities(result.stdout)
+}
+
+/**
+ * Find the entities of a type reachable from `start` through related and
+ * reverse references, nearest first, e.g. the profiles of a device through
+ * its variants.
+ */
+export function findReachable(
+  start: RuyiEntity,
+  type: (entityType: string) => boolean,
+  entities: ReadonlyMap<string, RuyiEntity>,
+  maxDepth = 3,
+): RuyiEntity[] {
+  const found: RuyiEntity[] = []
+  const visited = new Set([start.ref])
+  let frontier = [start]
+
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+    const next: RuyiEntity[] = []
+    for (const entity of frontier) {
+      for (const ref of [...entity.related, ...entity.reverse]) {
+        const neighbour = entities.get(ref)
+        if (!neighbour || visited.has(ref)) continue
+        visited.add(ref)
+        if (type(neighbour.type)) {
+          found.push(neighbour)
+        }
+        else {
+          next.push(neighbour)
+        }
+      }
+    }
+    frontier = next
+  }
+
+  return found
+}
+
+export function isProfileType(type: string): boolean {
+  return type === 'profile' || type.startsWith('profile-')
+}
+
+/**
+ * Toolchain quirks a profile entity requires.
+ */
+export function neededQuirks(profile: RuyiEntity): string[] {
+  const quirks = profile.data.needed_toolchain_quirks
+  return Array.isArray(quirks) ? quirks.filter((quirk): quirk is string => typeof quirk === 'string') : []
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { EntityTreeProvider } from './entity-tree.provider'
+import registerEntityCommands from './entity.command'
+
+export default function registerEntitiesModule(ctx: vscode.ExtensionContext) {
+  const treeProvider = new EntityTreeProvider()
+  const treeView = vscode.window.createTreeView('ruyiEntitiesView', {
+    treeDataProvider: treeProvider,
+    showCollapseAll: true,
+  })
+  ctx.subscriptions.push(treeProvider, treeView)
+
+  registerEntityCommands(ctx, treeProvider)
+}
@@ -19,6 +19,13 @@
  *   • ruyi.venv.create  (./venv/create.command)
  *   • ruyi.venv.clean   (./venv/clean.command)
  *   • ruyi.venv.switch  (./venv/switch.command)
+ *   • ruyi.activity.*   (./activity)
+ *   • ruyi.journal.*    (./journal/journal.command)
+ *   • ruyi.device.provision  (./device/provision.command)
+ *   • ruyi.config.*     (./config/config.command)
+ *   • ruyi.entities.*   (./entities/entity.command)
+ *   • ruyi.storage.*    (./storage/storage.command)
+ *   • ruyi.toolchain.*  (./toolchain/toolchain.command)
  *
  * - Show home page on first activation.
  * - Run an automatic detect on activation.
@@ -27,20 +34,32 @@
 
 import * as vscode from 'vscode'
 
+import registerActivityModule from './activity'
 import registerBoardDocsModule from './board-docs'
 import registerBuildModule from './build'
 import { configuration } from './common/configuration'
 import { logger } from './common/logger'
+import registerConfigModule from './config'
+import registerDeviceModule from './device'
+import registerEntitiesModule from './entities'
 import registerHomeModule from './home'
+import registerJournalModule from './journal'
 import registerNewsModule from './news'
 import registerPackagesModule from './packages'
 import registerRepoModule from './repo'
+import { ruyiCapabilities } from './ruyi/capabilities'
 import registerSetupModule from './setup'
+import registerStorageModule from './storage'
+import registerToolchainModule from './toolchain'
 import registerVenvModule from './venv'
 
 export function activate(context: vscode.ExtensionContext) {
-  // Register configuration service
-  context.subscriptions.push(configuration)
+  // Register configuration service and the ruyi capability registry
+  context.subscriptions.push(configuration, ruyiCapabilities)
+
+  // Register the activity log first so that it records every ruyi invocation
+  registerActivityModule(context)
+  registerJournalModule(context)
 
   // Register modules
   registerPackagesModule(context)
@@ -51,10 +70,18 @@ export function activate(context: vscode.ExtensionContext) {
   registerBuildModule(context)
   registerBoardDocsModule(context)
   registerRepoModule(context)
+  registerDeviceModule(context)
+  registerConfigModule(context)
+  registerEntitiesModule(context)
+  registerStorageModule(context)
+  registerToolchainModule(context)
 
   // Initialize logger
   logger.initialize('RuyiSDK')
 
+  // Probe the active ruyi so that capability context keys are set early
+  void ruyiCapabilities.get()
+
   // Run initial detection with error handling
   setTimeout(async () => {
     try {
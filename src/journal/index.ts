@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Journal Module
+ *
+ * Registers the Package History view listing every package install and
+ * uninstall, and its commands:
+ *  - ruyi.journal.rollback      install the replaced or removed version again
+ *  - ruyi.journal.filter        filter by action and by what started a change
+ *  - ruyi.journal.search        filter by package name
+ *  - ruyi.journal.clearFilters  show all entries
+ *  - ruyi.journal.clear         clear the journal
+ */
+
+import * as vscode from 'vscode'
+
+import { JournalTreeProvider } from './journal-tree.provider'
+import registerJournalCommands from './journal.command'
+import { JournalService } from './journal.service'
+
+export default function registerJournalModule(ctx: vscode.ExtensionContext) {
+  const journalService = JournalService.instance
+  void journalService.initialize(ctx.globalStorageUri)
+
+  const treeProvider = new JournalTreeProvider(journalService)
+  const treeView = vscode.window.createTreeView('ruyiJournalView', {
+    treeDataProvider: treeProvider,
+  })
+  treeProvider.setTreeView(treeView)
+
+  ctx.subscriptions.push(journalService, treeView)
+  registerJournalCommands(ctx, journalService, treeProvider)
+}
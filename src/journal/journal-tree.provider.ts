@@ -0,0 +1,186 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import type { RuyiInitiator } from '../ruyi'
+
+import { JournalService, rollbackTarget, type JournalAction, type JournalEntry } from './journal.service'
+
+export interface JournalFilters {
+  /** Actions to show, all if empty */
+  actions: JournalAction[]
+  /** Initiators to show, all if empty */
+  initiators: (RuyiInitiator | 'other')[]
+  /** Case-insensitive part of the package name */
+  search: string
+}
+
+const ACTION_ICONS: Record<JournalAction, vscode.ThemeIcon> = {
+  install: new vscode.ThemeIcon('cloud-download', new vscode.ThemeColor('testing.iconPassed')),
+  reinstall: new vscode.ThemeIcon('refresh'),
+  uninstall: new vscode.ThemeIcon('trash', new vscode.ThemeColor('problemsWarningIcon.foreground')),
+  rollback: new vscode.ThemeIcon('discard'),
+}
+
+export function describeAction(action: JournalAction): string {
+  switch (action) {
+    case 'install':
+      return vscode.l10n.t('installed')
+    case 'reinstall':
+      return vscode.l10n.t('reinstalled')
+    case 'uninstall':
+      return vscode.l10n.t('uninstalled')
+    case 'rollback':
+      return vscode.l10n.t('rolled back')
+  }
+}
+
+export function describeInitiator(initiator: RuyiInitiator | 'other'): string {
+  switch (initiator) {
+    case 'tree':
+      return vscode.l10n.t('Packages view')
+    case 'upgrade':
+      return vscode.l10n.t('Upgrade')
+    case 'upgrade-all':
+      return vscode.l10n.t('Upgrade All')
+    case 'venv-wizard':
+      return vscode.l10n.t('Venv wizard')
+    case 'storage':
+      return vscode.l10n.t('Storage view')
+    case 'host':
+      return vscode.l10n.t('Host install')
+    case 'rollback':
+      return vscode.l10n.t('Rollback')
+    case 'cleanup':
+      return vscode.l10n.t('Cleanup')
+    default:
+      return vscode.l10n.t('Other')
+  }
+}
+
+type JournalElement = JournalDayItem | JournalEntryItem
+
+export class JournalTreeProvider implements vscode.TreeDataProvider<JournalElement> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+  private treeView?: vscode.TreeView<JournalElement>
+  private filters: JournalFilters = { actions: [], initiators: [], search: '' }
+
+  constructor(private readonly service: JournalService) {
+    this.service.onDidChange(() => this.refresh())
+  }
+
+  setTreeView(treeView: vscode.TreeView<JournalElement>): void {
+    this.treeView = treeView
+    this.updateDescription()
+  }
+
+  getFilters(): JournalFilters {
+    return this.filters
+  }
+
+  setFilters(filters: Partial<JournalFilters>): void {
+    this.filters = { ...this.filters, ...filters }
+    const filtered = this.isFiltered()
+    void vscode.commands.executeCommand('setContext', 'ruyi.journal.filtered', filtered)
+    this.updateDescription()
+    this.refresh()
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire()
+  }
+
+  getTreeItem(element: JournalElement): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: JournalElement): JournalElement[] {
+    if (element instanceof JournalDayItem) {
+      return element.entries.map(entry => new JournalEntryItem(entry))
+    }
+    if (element) {
+      return []
+    }
+
+    // Entries are newest first, so each day's entries are contiguous
+    const days: JournalDayItem[] = []
+    for (const entry of this.service.getEntries().filter(entry => this.matches(entry))) {
+      const day = new Date(entry.timestamp).toLocaleDateString()
+      const last = days[days.length - 1]
+      if (last?.day === day) {
+        last.entries.push(entry)
+      }
+      else {
+        days.push(new JournalDayItem(day, [entry], days.length === 0))
+      }
+    }
+    days.forEach(day => day.updateDescription())
+    return days
+  }
+
+  private isFiltered(): boolean {
+    const { actions, initiators, search } = this.filters
+    return actions.length > 0 || initiators.length > 0 || search.length > 0
+  }
+
+  private matches(entry: JournalEntry): boolean {
+    const { actions, initiators, search } = this.filters
+    return (actions.length === 0 || actions.includes(entry.action))
+      && (initiators.length === 0 || initiators.includes(entry.initiator))
+      && (!search || entry.name.toLowerCase().includes(search.toLowerCase()))
+  }
+
+  private updateDescription(): void {
+    if (!this.treeView) {
+      return
+    }
+    const { actions, initiators, search } = this.filters
+    const parts = [
+      ...actions.map(describeAction),
+      ...initiators.map(describeInitiator),
+      search ? `"${search}"` : undefined,
+    ].filter(Boolean)
+    this.treeView.description = parts.length > 0 ? parts.join(', ') : undefined
+  }
+}
+
+export class JournalDayItem extends vscode.TreeItem {
+  constructor(public readonly day: string, public readonly entries: JournalEntry[], expanded: boolean) {
+    super(day, expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed)
+    this.iconPath = new vscode.ThemeIcon('calendar')
+    this.contextValue = 'ruyiJournal.day'
+  }
+
+  updateDescription(): void {
+    this.description = vscode.l10n.t('{0} change(s)', this.entries.length)
+  }
+}
+
+export class JournalEntryItem extends vscode.TreeItem {
+  constructor(public readonly entry: JournalEntry) {
+    super(entry.version
+      ? `${entry.name.split('/').pop() || entry.name} ${entry.version}`
+      : entry.name.split('/').pop() || entry.name, vscode.TreeItemCollapsibleState.None)
+
+    const time = new Date(entry.timestamp).toLocaleTimeString()
+    this.description = `${describeAction(entry.action)} · ${time}`
+    this.iconPath = ACTION_ICONS[entry.action]
+    this.tooltip = this.buildTooltip()
+    this.contextValue = rollbackTarget(entry) ? 'ruyiJournal.entry.rollback' : 'ruyiJournal.entry'
+  }
+
+  private buildTooltip(): vscode.MarkdownString {
+    const { entry } = this
+    const tooltip = new vscode.MarkdownString()
+    tooltip.appendCodeblock(entry.spec, 'plaintext')
+    tooltip.appendMarkdown(`${vscode.l10n.t('Date: {0}', new Date(entry.timestamp).toLocaleString())}  \n`)
+    if (entry.previousVersion) {
+      tooltip.appendMarkdown(`${vscode.l10n.t('Previous version: {0}', entry.previousVersion)}  \n`)
+    }
+    if (entry.host) {
+      tooltip.appendMarkdown(`${vscode.l10n.t('Host: {0}', entry.host)}  \n`)
+    }
+    tooltip.appendMarkdown(`${vscode.l10n.t('Started from: {0}', describeInitiator(entry.initiator))}  \n`)
+    return tooltip
+  }
+}
@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { createQueueReporter } from '../common/helpers'
+import { currentHost, findTargetInstalledVersions } from '../packages/package.helper'
+import ruyi, { RuyiError, showRuyiError, type RuyiInitiator } from '../ruyi'
+
+import { describeAction, describeInitiator, JournalEntryItem, JournalTreeProvider } from './journal-tree.provider'
+import { JournalService, rollbackTarget, type JournalAction, type JournalEntry } from './journal.service'
+
+const ACTIONS: JournalAction[] = ['install', 'reinstall', 'uninstall', 'rollback']
+
+const INITIATORS: (RuyiInitiator | 'other')[] = ['tree', 'upgrade', 'upgrade-all', 'venv-wizard', 'storage', 'host', 'rollback', 'other']
+
+/**
+ * Install the version an entry replaced or removed again, optionally
+ * uninstalling the version it installed, and record that as a new entry.
+ */
+async function rollback(service: JournalService, entry: JournalEntry): Promise<void> {
+  const target = rollbackTarget(entry)
+  if (!target) {
+    vscode.window.showInformationMessage(vscode.l10n.t('There is no earlier version of {0} to roll back to.', entry.name))
+    return
+  }
+
+  // Unknown installs count as none: reinstalling then only costs a download
+  const installed = await findTargetInstalledVersions(entry.name, entry.host) ?? []
+  const packageName = entry.name.split('/').pop() || entry.name
+  const rollBack = vscode.l10n.t('Roll Back')
+  // `ruyi uninstall` only removes packages of the current host
+  const replaced = entry.action !== 'uninstall' && entry.version && entry.version !== target
+    && installed.includes(entry.version) && (!entry.host || entry.host === currentHost())
+    ? entry.version
+    : undefined
+  const rollBackAndUninstall = replaced ? vscode.l10n.t('Roll Back and Uninstall {0}', replaced) : undefined
+  const choice = await vscode.window.showWarningMessage(
+    vscode.l10n.t('Roll back {0} to {1}?', packageName, target),
+    {
+      modal: true,
+      detail: installed.includes(target)
+        ? vscode.l10n.t('{0} {1} is still installed and will be reinstalled.', packageName, target)
+        : vscode.l10n.t('{0} {1} will be downloaded and installed again.', packageName, target),
+    },
+    ...[rollBack, rollBackAndUninstall].filter((item): item is string => !!item),
+  )
+  if (!choice) {
+    return
+  }
+
+  const spec = `${entry.name}(==${target})`
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: vscode.l10n.t('Rolling back {0} to {1}...', packageName, target),
+    cancellable: true,
+  }, async (progress, token) => {
+    const reportQueued = createQueueReporter(progress)
+    const result = await ruyi.timeout(300_000).token(token).initiator('rollback').onQueued(reportQueued)
+      .install(spec, { host: entry.host, reinstall: installed.includes(target) })
+    if (result.cancelled) {
+      return
+    }
+    if (result.code !== 0) {
+      const error = new RuyiError(result)
+      void showRuyiError(vscode.l10n.t('Failed to roll back {0}: {1}', packageName, error.message), error, () => rollback(service, entry))
+      return
+    }
+
+    service.record({
+      timestamp: Date.now(),
+      action: 'rollback',
+      spec,
+      name: entry.name,
+      version: target,
+      previousVersion: entry.action === 'uninstall' ? undefined : entry.version,
+      host: entry.host,
+      initiator: 'rollback',
+      rollbackOf: entry.id,
+    })
+
+    if (replaced && choice === rollBackAndUninstall) {
+      const uninstallSpec = `${entry.name}(==${replaced})`
+      // Killing `ruyi uninstall` midway leaves a half-removed package that
+      // ruyi still lists, so it can only be cancelled while queued
+      const controller = new AbortController()
+      let started = false
+      const cancellation = token.onCancellationRequested(() => {
+        if (!started) {
+          controller.abort()
+        }
+      })
+      try {
+        const uninstallResult = await ruyi.timeout(60_000).signal(controller.signal).initiator('rollback')
+          .onQueued((position) => {
+            started ||= position === 0
+            reportQueued(position)
+          })
+          .uninstall(uninstallSpec)
+        if (uninstallResult.cancelled) {
+          vscode.window.showInformationMessage('✓ ' + vscode.l10n.t('Rolled back {0} to {1} and kept {2}.', packageName, target, replaced))
+          return
+        }
+        if (uninstallResult.code !== 0) {
+          const error = new RuyiError(uninstallResult)
+          void showRuyiError(vscode.l10n.t('Rolled back {0} to {1}, but failed to uninstall {2}: {3}', packageName, target, replaced, error.message), error)
+          return
+        }
+      }
+      finally {
+        cancellation.dispose()
+      }
+    }
+    vscode.window.showInformationMessage('✓ ' + vscode.l10n.t('Rolled back {0} to {1}.', packageName, target))
+  })
+}
+
+async function pickFilters(provider: JournalTreeProvider): Promise<void> {
+  const { actions, initiators } = provider.getFilters()
+  type FilterPick = vscode.QuickPickItem & { action?: JournalAction, initiator?: RuyiInitiator | 'other' }
+  const actionItems: FilterPick[] = ACTIONS.map(action => ({
+    label: describeAction(action),
+    picked: actions.includes(action),
+    action,
+  }))
+  const initiatorItems: FilterPick[] = INITIATORS.map(initiator => ({
+    label: describeInitiator(initiator),
+    picked: initiators.includes(initiator),
+    initiator,
+  }))
+
+  const picked = await vscode.window.showQuickPick<FilterPick>(
+    [
+      { label: vscode.l10n.t('Action'), kind: vscode.QuickPickItemKind.Separator },
+      ...actionItems,
+      { label: vscode.l10n.t('Started from'), kind: vscode.QuickPickItemKind.Separator },
+      ...initiatorItems,
+    ],
+    {
+      canPickMany: true,
+      title: vscode.l10n.t('Filter Package History'),
+      placeHolder: vscode.l10n.t('Select the changes to show, none for all'),
+    },
+  )
+  if (!picked) {
+    return
+  }
+  provider.setFilters({
+    actions: picked.flatMap(item => item.action ? [item.action] : []),
+    initiators: picked.flatMap(item => item.initiator ? [item.initiator] : []),
+  })
+}
+
+async function searchPackage(provider: JournalTreeProvider): Promise<void> {
+  const search = await vscode.window.showInputBox({
+    title: vscode.l10n.t('Search Package History'),
+    prompt: vscode.l10n.t('Show the changes of packages whose name contains this text'),
+    value: provider.getFilters().search,
+  })
+  if (search !== undefined) {
+    provider.setFilters({ search: search.trim() })
+  }
+}
+
+export default function registerJournalCommands(ctx: vscode.ExtensionContext, service: JournalService, provider: JournalTreeProvider) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.journal.rollback', async (item: JournalEntryItem) => {
+      if (item instanceof JournalEntryItem) {
+        await rollback(service, item.entry)
+      }
+    }),
+    vscode.commands.registerCommand('ruyi.journal.filter', () => pickFilters(provider)),
+    vscode.commands.registerCommand('ruyi.journal.search', () => searchPackage(provider)),
+    vscode.commands.registerCommand('ruyi.journal.clearFilters', () =>
+      provider.setFilters({ actions: [], initiators: [], search: '' })),
+    vscode.commands.registerCommand('ruyi.journal.clear', () => service.clear()),
+  )
+}
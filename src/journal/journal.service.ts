@@ -0,0 +1,277 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Journal Module - Service Layer
+ *
+ * Keeps a journal of the package installs and uninstalls and persists it in
+ * globalStorage:
+ * - Records the package, the version, the version installed before and what
+ *   started the change (package tree, venv wizard, upgrades, ...).
+ * - Skips downloads without install and the cleanup of cancelled installs.
+ * - Caps the number of entries; the oldest ones are dropped first.
+ */
+
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { logger } from '../common/logger'
+import { compareVersions, findTargetInstalledVersions } from '../packages/package.helper'
+import {
+  onDidChangeRuyiState,
+  onWillChangeRuyiState,
+  type RuyiInitiator,
+  type RuyiStateChangeEvent,
+  type RuyiWillChangeStateEvent,
+} from '../ruyi'
+
+export type JournalAction
+  = | 'install'
+    | 'reinstall'
+    | 'uninstall'
+    | 'rollback'
+
+export interface JournalEntry {
+  id: string
+  timestamp: number
+  action: JournalAction
+  /** Package atom as passed to ruyi, e.g. "toolchain/gnu-plct(==0.20240324.0)" */
+  spec: string
+  name: string
+  /** Version installed or uninstalled, if known */
+  version?: string
+  /** Newest version installed before that the install superseded, i.e. what a rollback restores */
+  previousVersion?: string
+  /** Host of the package if not the current one */
+  host?: string
+  initiator: RuyiInitiator | 'other'
+  /** Id of the entry a rollback reverted */
+  rollbackOf?: string
+}
+
+export type JournalHistory = {
+  data: JournalEntry[]
+  version: string
+}
+
+/**
+ * Split a package atom like "name(==1.0.0)" into name and version.
+ */
+export function parseAtom(spec: string): { name: string, version?: string } {
+  const match = /^(.+?)\(==(.+)\)$/.exec(spec)
+  return match ? { name: match[1], version: match[2] } : { name: spec }
+}
+
+/**
+ * Package atoms and `--host` of install or uninstall arguments.
+ */
+function parseInstallArgs(args: string[]): { specs: string[], host?: string } {
+  const specs: string[] = []
+  let host: string | undefined
+  for (let i = 1; i < args.length; i++) {
+    if (args[i] === '--host') {
+      host = args[++i]
+    }
+    else if (!args[i].startsWith('-')) {
+      specs.push(args[i])
+    }
+  }
+  return { specs, host }
+}
+
+/**
+ * The version a rollback of an entry installs again: the previous version of
+ * an install, or the version an uninstall removed.
+ */
+export function rollbackTarget(entry: JournalEntry): string | undefined {
+  return entry.action === 'uninstall' ? entry.version : entry.previousVersion
+}
+
+export class JournalService implements vscode.Disposable {
+  private static _instance: JournalService
+  private entries: JournalEntry[] = []
+  private journalPath: string | undefined
+  private saveTimer: NodeJS.Timeout | undefined
+  private nextId = 0
+  /** Versions installed before an install ran, by package name */
+  private readonly installedBefore = new WeakMap<string[], Promise<Map<string, string[] | null>>>()
+  private readonly JOURNAL_VERSION = '1.0.0'
+  private readonly MAX_ENTRIES = 1000
+  private readonly SAVE_DELAY_MS = 1000
+  private readonly _onDidChange = new vscode.EventEmitter<void>()
+  private readonly disposables: vscode.Disposable[] = [this._onDidChange]
+
+  /**
+   * Fired when entries were added or removed.
+   */
+  readonly onDidChange = this._onDidChange.event
+
+  private constructor() {
+    this.disposables.push(
+      onWillChangeRuyiState(event => this.snapshotInstalled(event)),
+      onDidChangeRuyiState(event => void this.recordStateChange(event)),
+    )
+  }
+
+  public static get instance(): JournalService {
+    if (!JournalService._instance) {
+      JournalService._instance = new JournalService()
+    }
+    return JournalService._instance
+  }
+
+  /**
+   * Load the persisted journal. Entries recorded before this call are kept.
+   */
+  public async initialize(storageUri: vscode.Uri): Promise<void> {
+    this.journalPath = path.join(storageUri.fsPath, 'package-journal.json')
+
+    try {
+      const journalUri = vscode.Uri.file(this.journalPath)
+      const journal: JournalHistory = JSON.parse((await vscode.workspace.fs.readFile(journalUri)).toString())
+      if (journal.version === this.JOURNAL_VERSION) {
+        this.entries = [...this.entries, ...journal.data].slice(0, this.MAX_ENTRIES)
+        this._onDidChange.fire()
+      }
+    }
+    catch {
+      // No journal yet
+    }
+  }
+
+  /**
+   * All entries, newest first.
+   */
+  public getEntries(): readonly JournalEntry[] {
+    return this.entries
+  }
+
+  public getEntry(id: string): JournalEntry | undefined {
+    return this.entries.find(entry => entry.id === id)
+  }
+
+  /**
+   * Add an entry to the journal.
+   */
+  public record(entry: Omit<JournalEntry, 'id'>): JournalEntry {
+    const recorded: JournalEntry = {
+      ...entry,
+      id: `${entry.timestamp.toString(36)}-${(this.nextId++).toString(36)}`,
+    }
+
+    this.entries.unshift(recorded)
+    this.entries.length = Math.min(this.entries.length, this.MAX_ENTRIES)
+    this._onDidChange.fire()
+    this.scheduleSave()
+    return recorded
+  }
+
+  public clear(): void {
+    this.entries = []
+    this._onDidChange.fire()
+    this.scheduleSave()
+  }
+
+  /**
+   * Remember what was installed before an install, to tell which version it
+   * superseded. Asking after the install cannot tell the new version apart.
+   */
+  private snapshotInstalled({ command, args, waitUntil }: RuyiWillChangeStateEvent): void {
+    if (command !== 'install' || args.includes('-f')) {
+      return
+    }
+    const { specs, host } = parseInstallArgs(args)
+    const snapshot = Promise.all(specs.map(async (spec) => {
+      const { name } = parseAtom(spec)
+      return [name, await findTargetInstalledVersions(name, host).catch(() => null)] as const
+    })).then(entries => new Map(entries))
+    this.installedBefore.set(args, snapshot)
+    waitUntil(snapshot)
+  }
+
+  private async recordStateChange(event: RuyiStateChangeEvent): Promise<void> {
+    const { command, args, result, initiator } = event
+    if (command !== 'install' && command !== 'uninstall') {
+      return
+    }
+    // Rollbacks record themselves, and fetching or cleaning up changes nothing
+    if (result.code !== 0 || args.includes('-f') || initiator === 'cleanup'
+      || (initiator === 'rollback' && command === 'install')) {
+      return
+    }
+
+    const timestamp = Date.now()
+    const { specs, host } = parseInstallArgs(args)
+    const before = await this.installedBefore.get(args)
+
+    const action: JournalAction = command === 'uninstall'
+      ? 'uninstall'
+      : args.includes('--reinstall') ? 'reinstall' : 'install'
+    for (const spec of specs) {
+      try {
+        const { name, version } = parseAtom(spec)
+        let installed: string | undefined = version
+        let previousVersion: string | undefined
+        if (action !== 'uninstall') {
+          // Without a version ruyi installs the latest one
+          installed = version ?? (await findTargetInstalledVersions(name, host))?.[0]
+          // Installing an older version next to a newer one replaces nothing
+          const newestBefore = before?.get(name)?.find(candidate => candidate !== installed)
+          previousVersion = installed && newestBefore && compareVersions(installed, newestBefore) > 0
+            ? newestBefore
+            : undefined
+        }
+        this.record({
+          timestamp,
+          action,
+          spec,
+          name,
+          version: installed,
+          previousVersion,
+          host,
+          initiator: initiator ?? 'other',
+        })
+      }
+      catch (error) {
+        logger.warn(`Failed to record ${command} of ${spec} in the journal:`, error)
+      }
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.journalPath || this.saveTimer) {
+      return
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined
+      void this.save()
+    }, this.SAVE_DELAY_MS)
+  }
+
+  private async save(): Promise<void> {
+    if (!this.journalPath) {
+      return
+    }
+
+    try {
+      const journalUri = vscode.Uri.file(this.journalPath)
+      await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(journalUri, '..'))
+
+      const journal: JournalHistory = {
+        data: this.entries,
+        version: this.JOURNAL_VERSION,
+      }
+      await vscode.workspace.fs.writeFile(journalUri, Buffer.from(JSON.stringify(journal), 'utf8'))
+    }
+    catch (error) {
+      logger.warn('Failed to save package journal:', error)
+    }
+  }
+
+  dispose(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = undefined
+      void this.save()
+    }
+    this.disposables.forEach(d => d.dispose())
+  }
+}
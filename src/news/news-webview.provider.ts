@@ -11,6 +11,10 @@
 
 import * as vscode from 'vscode'
 
+import { configChangeAffects } from '../config/config.helper'
+import { onDidChangeRuyiState } from '../ruyi'
+import { onDidChangeRuyiStateDirs } from '../ruyi/state'
+
 import { getCardsHtml, getErrorHtml } from './news-cards.view'
 import { getReaderHtml } from './news-reader.view'
 import { NewsService, type NewsRow } from './news.service'
@@ -41,6 +45,22 @@ export class NewsWebviewProvider {
     return item
   }
 
+  /**
+   * Reload open news cards when ruyi switches to another news source, i.e.
+   * after repo config changes or when the workspace state directories change.
+   */
+  watchRuyiChanges(): vscode.Disposable {
+    const reload = () => void this.updateContent()
+    return vscode.Disposable.from(
+      onDidChangeRuyiState(({ args }) => {
+        if (configChangeAffects(args, 'news')) {
+          reload()
+        }
+      }),
+      onDidChangeRuyiStateDirs(reload),
+    )
+  }
+
   async showCards(): Promise<void> {
     if (this.panel) {
       this.panel.reveal()
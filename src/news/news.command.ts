@@ -16,6 +16,7 @@ export default function registerNewsCommands(ctx: vscode.ExtensionContext) {
 
   ctx.subscriptions.push(
     provider.registerStatusBar(),
+    provider.watchRuyiChanges(),
     vscode.commands.registerCommand('ruyi.news.showCards', async () => {
       await provider.showCards()
     }),
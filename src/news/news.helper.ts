@@ -8,6 +8,7 @@
  */
 
 import { logger } from '../common/logger'
+import { parsePorcelain } from '../ruyi/schema'
 
 import type { NewsRow } from './news.service'
 
@@ -49,7 +50,6 @@ export function stripLeadingFrontMatter(markdown: string): string {
 
 export function parseNewsListPorcelain(stdout: string, preferredLang?: string): NewsRow[] {
   const result: NewsRow[] = []
-  const lines = stdout.split(/\r?\n/).filter(line => line.trim())
 
   // Normalize preferred language code (e.g. "zh-cn" -> "zh_CN")
   let targetLang = preferredLang?.replace('-', '_')
@@ -57,11 +57,8 @@ export function parseNewsListPorcelain(stdout: string, preferredLang?: string):
   if (targetLang === 'zh') targetLang = 'zh_CN'
   if (targetLang === 'en') targetLang = 'en_US'
 
-  for (const line of lines) {
+  for (const item of parsePorcelain<NewsItemJson>(stdout, 'newsitem-v1')) {
     try {
-      const item: NewsItemJson = JSON.parse(line)
-      if (item.ty !== 'newsitem-v1') continue
-
       // Strategy: Preferred -> zh_CN -> en_US -> First Available
       let contentObj = targetLang ? item.langs.find(l => l.lang.toLowerCase() === targetLang?.toLowerCase()) : undefined
 
@@ -15,6 +15,7 @@ import * as vscode from 'vscode'
 import { isNetworkAvailable } from '../common/helpers'
 import { logger } from '../common/logger'
 import ruyi from '../ruyi'
+import { ruyiCacheDir, stateScopedFileName } from '../ruyi/state'
 
 import { parseNewsListPorcelain, stripLeadingFrontMatter } from './news.helper'
 
@@ -35,18 +36,25 @@ export type NewsCache = {
 
 export class NewsService {
   private static instance: NewsService | null = null
-  private cachePath: string
-  private localNewsDir: string
   private readonly CACHE_VERSION = '1.0.0'
   private readonly CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000
   private newsEntriesCache = new Map<number, Array<{ name: string, url: string, locale: string }>>()
   private pendingSyncReads = new Set<number>()
 
-  private constructor(context?: vscode.ExtensionContext) {
-    this.cachePath = context
-      ? path.join(context.globalStorageUri.fsPath, 'news-cache.json')
-      : path.join(os.homedir(), '.vscode', 'ruyi-news-cache.json')
-    this.localNewsDir = path.join(os.homedir(), '.cache', 'ruyi', 'repos', 'ruyisdk', 'news')
+  private constructor(private readonly context?: vscode.ExtensionContext) {}
+
+  /**
+   * The news list depends on the ruyi state in use, so each isolated state
+   * gets its own cache file.
+   */
+  private get cachePath(): string {
+    return this.context
+      ? path.join(this.context.globalStorageUri.fsPath, stateScopedFileName('news-cache.json'))
+      : path.join(os.homedir(), '.vscode', stateScopedFileName('ruyi-news-cache.json'))
+  }
+
+  private get localNewsDir(): string {
+    return path.join(ruyiCacheDir(), 'repos', 'ruyisdk', 'news')
   }
 
   static getInstance(context?: vscode.ExtensionContext): NewsService {
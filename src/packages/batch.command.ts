@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { showRuyiError, type RuyiInitiator } from '../ruyi'
+
+import { PackageJobItem } from './package-jobs-tree.provider'
+import { PackageJobsService, packageSpec, type PackageJobAction, type PackageJobSummary, type PackageJobTarget } from './package-jobs.service'
+import { PackagesTreeProvider, VersionItem } from './package-tree.provider'
+import { applyVenvFollowUp, confirmUninstallUsed, findAffectedVenvs } from './package-usage.helper'
+import { formatSize } from './package.helper'
+
+/**
+ * The version items a command applies to when several are selected.
+ * @returns The selected version items, or null for a single-item command
+ */
+export function getBatchSelection(item: unknown, selection: unknown): VersionItem[] | null {
+  if (!Array.isArray(selection) || selection.length < 2 || !selection.includes(item)) {
+    return null
+  }
+  return selection.filter((selected): selected is VersionItem => selected instanceof VersionItem)
+}
+
+function toTargets(items: VersionItem[], predicate: (item: VersionItem) => boolean): PackageJobTarget[] {
+  const targets = new Map<string, PackageJobTarget>()
+  for (const item of items.filter(predicate)) {
+    const target = { name: item.pkg.name, version: item.versionInfo.version, downloadSize: item.versionInfo.downloadSize }
+    targets.set(packageSpec(target), target)
+  }
+  return [...targets.values()]
+}
+
+export interface BatchOptions {
+  /** Replaces the default confirmation question */
+  confirmMessage?: string
+  /** Skip the confirmation, e.g. when the caller already asked */
+  skipConfirm?: boolean
+  /** Recorded in the install journal, "tree" by default */
+  initiator?: RuyiInitiator
+}
+
+async function confirmBatch(action: PackageJobAction, targets: PackageJobTarget[], confirmMessage?: string): Promise<boolean> {
+  const lines = targets.map(target => target.downloadSize && action === 'install'
+    ? `${target.name} ${target.version} (${formatSize(target.downloadSize)})`
+    : `${target.name} ${target.version}`)
+
+  if (action === 'install') {
+    const total = targets.reduce((sum, target) => sum + (target.downloadSize ?? 0), 0)
+    const unknown = targets.filter(target => !target.downloadSize).length
+    lines.push('', unknown > 0
+      ? vscode.l10n.t('Total download size: {0} ({1} package(s) of unknown size)', formatSize(total), unknown)
+      : vscode.l10n.t('Total download size: {0}', formatSize(total)))
+  }
+
+  const confirm = action === 'install' ? vscode.l10n.t('Install All') : vscode.l10n.t('Uninstall All')
+  const message = confirmMessage ?? (action === 'install'
+    ? vscode.l10n.t('Install {0} packages?', targets.length)
+    : vscode.l10n.t('Uninstall {0} packages? This action cannot be undone.', targets.length))
+  const choice = await vscode.window.showWarningMessage(message, { modal: true, detail: lines.join('\n') }, confirm)
+  return choice === confirm
+}
+
+async function showSummary(action: PackageJobAction, summary: PackageJobSummary): Promise<void> {
+  const { succeeded, failed, cancelled } = summary
+  if (failed.length === 0 && cancelled.length === 0) {
+    vscode.window.showInformationMessage('✓ ' + (action === 'install'
+      ? vscode.l10n.t('Installed {0} package(s).', succeeded.length)
+      : vscode.l10n.t('Uninstalled {0} package(s).', succeeded.length)))
+    return
+  }
+
+  const showJobs = vscode.l10n.t('Show Jobs')
+  const show = failed.length > 0 ? vscode.window.showWarningMessage : vscode.window.showInformationMessage
+  const choice = await show(
+    vscode.l10n.t('{0} succeeded, {1} failed, {2} cancelled.', succeeded.length, failed.length, cancelled.length),
+    showJobs,
+  )
+  if (choice === showJobs) {
+    await vscode.commands.executeCommand('ruyiPackageJobsView.focus')
+  }
+}
+
+/**
+ * Confirm and run a batch of installs or uninstalls through the job queue.
+ * @returns The outcome of the jobs, or null if nothing was run
+ */
+export async function runBatch(
+  action: PackageJobAction,
+  targets: PackageJobTarget[],
+  provider: PackagesTreeProvider,
+  service: PackageJobsService,
+  options: BatchOptions = {},
+): Promise<PackageJobSummary | null> {
+  if (targets.length === 0) {
+    vscode.window.showInformationMessage(action === 'install'
+      ? vscode.l10n.t('None of the selected versions can be installed.')
+      : vscode.l10n.t('None of the selected versions is installed.'))
+    return null
+  }
+  if (!options.skipConfirm && !await confirmBatch(action, targets, options.confirmMessage)) {
+    return null
+  }
+
+  const summary = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: action === 'install'
+        ? vscode.l10n.t('Installing {0} packages...', targets.length)
+        : vscode.l10n.t('Uninstalling {0} packages...', targets.length),
+      cancellable: true,
+    },
+    async (progress, token) => {
+      if (action === 'install') {
+        targets.forEach(target => provider.markPackageInstalling(target.name, target.version))
+      }
+      return service.run(action, targets, progress, token, (job) => {
+        if (action === 'install') {
+          provider.unmarkPackageInstalling(job.name, job.version)
+        }
+      }, options.initiator)
+    },
+  )
+
+  await provider.shallowRefresh()
+  void showSummary(action, summary)
+  return summary
+}
+
+export async function batchInstall(items: VersionItem[], provider: PackagesTreeProvider, service: PackageJobsService): Promise<void> {
+  const targets = toTargets(items, item => !item.versionInfo.isInstalled && item.versionInfo.isBinaryAvailable && !item.isInstalling)
+  await runBatch('install', targets, provider, service)
+}
+
+export async function batchUninstall(items: VersionItem[], provider: PackagesTreeProvider, service: PackageJobsService): Promise<void> {
+  const targets = toTargets(items, item => item.versionInfo.isInstalled)
+  const affected = await findAffectedVenvs(targets)
+  if (affected.length === 0) {
+    await runBatch('uninstall', targets, provider, service)
+    return
+  }
+
+  const followUp = await confirmUninstallUsed(targets, affected)
+  if (!followUp) {
+    return
+  }
+  const summary = await runBatch('uninstall', targets, provider, service, { skipConfirm: true })
+  if (summary) {
+    // Leave venvs alone whose packages all failed to uninstall
+    const removed = new Set(summary.succeeded.map(packageSpec))
+    await applyVenvFollowUp(affected.filter(venv => venv.packages.some(pkg => removed.has(packageSpec(pkg)))), followUp)
+  }
+}
+
+export default function registerBatchCommands(ctx: vscode.ExtensionContext, provider: PackagesTreeProvider, service: PackageJobsService) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.packages.clearJobs', () => service.clearFinished()),
+
+    vscode.commands.registerCommand('ruyi.packages.showJobError', (item: PackageJobItem) => {
+      if (!(item instanceof PackageJobItem)) {
+        return
+      }
+      const { job } = item
+      const { error } = job
+      if (!error) {
+        return
+      }
+      const packageName = job.name.split('/').pop() || job.name
+      void showRuyiError(
+        job.action === 'install'
+          ? vscode.l10n.t('Failed to install {0}: {1}', packageName, error.message)
+          : vscode.l10n.t('Failed to uninstall {0}: {1}', packageName, error.message),
+        error,
+        () => runBatch(job.action, [{ name: job.name, version: job.version, downloadSize: job.downloadSize }], provider, service),
+      )
+    }),
+  )
+}
@@ -2,8 +2,9 @@
 import * as path from 'path'
 import * as vscode from 'vscode'
 
-import { createProgressTracker, parseNDJSON } from '../common/helpers'
-import ruyi from '../ruyi'
+import { createProgressTracker, createQueueReporter } from '../common/helpers'
+import ruyi, { RuyiError, showRuyiError } from '../ruyi'
+import { parsePorcelain } from '../ruyi/schema'
 import type { RuyiListOutput } from '../ruyi/types'
 
 import { PackagesTreeProvider } from './package-tree.provider'
@@ -14,8 +15,8 @@ interface SourcePackage {
 }
 
 function parseSourcePackages(output: string): SourcePackage[] {
-  const items = parseNDJSON<RuyiListOutput>(output)
-    .filter(item => item.ty === 'pkglistoutput-v1' && item.category === 'source')
+  const items = parsePorcelain<RuyiListOutput>(output, 'pkglistoutput-v1')
+    .filter(item => item.category === 'source')
 
   const packages: SourcePackage[] = []
 
@@ -70,25 +71,34 @@ async function fetchSourcePackages(): Promise<SourcePackage[]> {
   return sourcePackages
 }
 
+/**
+ * Run `ruyi extract` for the selected package.
+ * @returns true if extraction finished, false if it was cancelled
+ */
 async function extractSelectedPackage(
   packageValue: string,
   destDir: string,
   progress: vscode.Progress<{ message?: string, increment?: number }>,
-): Promise<void> {
-  const [onProgress, getLastPercent] = createProgressTracker(progress)
+  token: vscode.CancellationToken,
+): Promise<boolean> {
+  const [onEvent, getLastPercent] = createProgressTracker(progress)
 
   const extractResult = await ruyi
     .timeout(300_000)
-    .onProgress(onProgress)
+    .token(token)
+    .onQueued(createQueueReporter(progress))
+    .onEvent(onEvent)
     .extract(packageValue, {
       extractWithoutSubdir: true,
       destDir,
     })
 
+  if (extractResult.cancelled) {
+    return false
+  }
+
   if (extractResult.code !== 0) {
-    throw new Error(
-      `Failed to extract: ${extractResult.stderr || extractResult.stdout}`,
-    )
+    throw new RuyiError(extractResult)
   }
 
   // Ensure progress reaches 100%
@@ -96,6 +106,7 @@ async function extractSelectedPackage(
   if (finalIncrement > 0) {
     progress.report({ message: 'Extraction complete', increment: finalIncrement })
   }
+  return true
 }
 
 /**
@@ -142,6 +153,8 @@ export async function extractPackage(provider: PackagesTreeProvider, uri?: vscod
     const subfolderDir = path.join(baseDir, `${pkgName}-${pkgVersion}`)
 
     const subfolderUri = vscode.Uri.file(subfolderDir)
+    // Only a folder created here may be removed again if extraction is cancelled
+    let createdDir: vscode.Uri | undefined
     try {
       await vscode.workspace.fs.stat(subfolderUri)
       targetDir = subfolderDir
@@ -163,6 +176,7 @@ export async function extractPackage(provider: PackagesTreeProvider, uri?: vscod
       }
       else if (option.value === 'subfolder') {
         await vscode.workspace.fs.createDirectory(subfolderUri)
+        createdDir = subfolderUri
         targetDir = subfolderDir
       }
       else {
@@ -180,15 +194,23 @@ export async function extractPackage(provider: PackagesTreeProvider, uri?: vscod
       }
     }
 
-    await vscode.window.withProgress(
+    const completed = await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: vscode.l10n.t('Extracting {0}...', selectedLabel),
-        cancellable: false,
+        cancellable: true,
       },
-      async progress => extractSelectedPackage(selectedPackage.value, targetDir, progress),
+      async (progress, token) => extractSelectedPackage(selectedPackage.value, targetDir, progress, token),
     )
 
+    if (!completed) {
+      if (createdDir) {
+        await vscode.workspace.fs.delete(createdDir, { recursive: true, useTrash: false })
+      }
+      vscode.window.showInformationMessage(vscode.l10n.t('Extraction of {0} cancelled.', selectedLabel))
+      return
+    }
+
     await vscode.window.showInformationMessage(
       vscode.l10n.t('Successfully extracted {0} to {1}', selectedLabel, targetDir),
     )
@@ -196,6 +218,11 @@ export async function extractPackage(provider: PackagesTreeProvider, uri?: vscod
     await provider.shallowRefresh()
   }
   catch (error) {
+    if (error instanceof RuyiError) {
+      await showRuyiError(vscode.l10n.t('Error occurred during extraction: {0}', error.message), error)
+      return
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error)
 
     if (errorMessage.includes('No downloaded source packages found')) {
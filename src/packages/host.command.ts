@@ -0,0 +1,221 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { createQueueReporter } from '../common/helpers'
+import { logger } from '../common/logger'
+import ruyi, { RuyiError, showRuyiError, type RuyiResult } from '../ruyi'
+import { ruyiDataDir } from '../ruyi/state'
+
+import { packageSpec, type PackageJobTarget } from './package-jobs.service'
+import { PackagesTreeProvider } from './package-tree.provider'
+import { currentHost, formatSize, knownHosts } from './package.helper'
+
+type HostInstallMode = 'extract' | 'fetch' | 'install'
+
+async function pickInstallMode(host: string): Promise<HostInstallMode | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    [
+      {
+        label: '$(folder) ' + vscode.l10n.t('Extract into a Directory'),
+        detail: vscode.l10n.t('Unpack the {0} binaries, e.g. to copy them to the target machine.', host),
+        mode: 'extract' as const,
+      },
+      {
+        label: '$(cloud-download) ' + vscode.l10n.t('Download Distfiles Only'),
+        detail: vscode.l10n.t('Keep the archives in the distfile cache, e.g. for an offline bundle.'),
+        mode: 'fetch' as const,
+      },
+      {
+        label: '$(package) ' + vscode.l10n.t('Install into RuyiSDK'),
+        detail: vscode.l10n.t('Install below {0}.', path.join(ruyiDataDir(), 'binaries', host)),
+        mode: 'install' as const,
+      },
+    ],
+    { title: vscode.l10n.t('Install Packages for {0}', host), placeHolder: vscode.l10n.t('Select what to do with the packages') },
+  )
+  return picked?.mode
+}
+
+async function pickDestination(host: string): Promise<string | undefined> {
+  const folders = await vscode.window.showOpenDialog({
+    canSelectFolders: true,
+    canSelectFiles: false,
+    canSelectMany: false,
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    openLabel: vscode.l10n.t('Select Folder'),
+    title: vscode.l10n.t('Select the Folder for the {0} Packages', host),
+  })
+  return folders?.[0]?.fsPath
+}
+
+/**
+ * Directory a package version is unpacked to, either by `ruyi install` or
+ * below the chosen destination.
+ */
+function targetDir(target: PackageJobTarget, host: string, destDir?: string): string {
+  const dirName = `${target.name.split('/').pop() || target.name}-${target.version}`
+  return destDir
+    ? path.join(destDir, dirName)
+    : path.join(ruyiDataDir(), 'binaries', host, dirName)
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.promises.access(file)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+function runForHost(
+  mode: HostInstallMode,
+  target: PackageJobTarget,
+  host: string,
+  dir: string,
+  progress: vscode.Progress<{ message?: string }>,
+  token: vscode.CancellationToken,
+): Promise<RuyiResult> {
+  const runner = ruyi.timeout(300_000).token(token).initiator('host').onQueued(createQueueReporter(progress))
+  const spec = packageSpec(target)
+  switch (mode) {
+    case 'extract':
+      return runner.extract(spec, { destDir: dir, extractWithoutSubdir: true, host })
+    case 'fetch':
+      return runner.install(spec, { fetchOnly: true, host })
+    default:
+      return runner.install(spec, { host })
+  }
+}
+
+/**
+ * Install, fetch or extract package versions for a host other than the
+ * current one.
+ * @returns true if every package was handled
+ */
+export async function installForHost(provider: PackagesTreeProvider, targets: PackageJobTarget[]): Promise<boolean> {
+  const host = provider.getHost()
+  const mode = await pickInstallMode(host)
+  if (!mode) {
+    return false
+  }
+  let destDir: string | undefined
+  if (mode === 'extract') {
+    destDir = await pickDestination(host)
+    if (!destDir) {
+      return false
+    }
+  }
+
+  const total = targets.reduce((sum, target) => sum + (target.downloadSize ?? 0), 0)
+  const detail = targets.map(target => target.downloadSize
+    ? `${target.name} ${target.version} (${formatSize(target.downloadSize)})`
+    : `${target.name} ${target.version}`)
+  if (destDir) {
+    detail.push('', vscode.l10n.t('Destination: {0}', destDir))
+  }
+  const proceed = vscode.l10n.t('Continue')
+  const choice = await vscode.window.showInformationMessage(
+    total > 0
+      ? vscode.l10n.t('Prepare {0} package(s) for {1} ({2})?', targets.length, host, formatSize(total))
+      : vscode.l10n.t('Prepare {0} package(s) for {1}?', targets.length, host),
+    { modal: true, detail: detail.join('\n') },
+    proceed,
+  )
+  if (choice !== proceed) {
+    return false
+  }
+
+  const done: PackageJobTarget[] = []
+  let failure: RuyiError | undefined
+  const cancelled = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Preparing packages for {0}...', host),
+      cancellable: true,
+    },
+    async (progress, token) => {
+      for (const target of targets) {
+        progress.report({ message: `${target.name} ${target.version} (${done.length + 1}/${targets.length})` })
+        const dir = targetDir(target, host, destDir)
+        // Only a directory created here may be removed again if cancelled
+        const existed = mode === 'fetch' || await exists(dir)
+        if (destDir) {
+          await fs.promises.mkdir(dir, { recursive: true })
+        }
+
+        const result = await runForHost(mode, target, host, dir, progress, token)
+        if (result.cancelled) {
+          if (!existed) {
+            await fs.promises.rm(dir, { recursive: true, force: true })
+              .catch(error => logger.warn(`Failed to remove ${dir}:`, error))
+          }
+          return true
+        }
+        if (result.code !== 0) {
+          if (!existed && destDir) {
+            await fs.promises.rm(dir, { recursive: true, force: true }).catch(() => undefined)
+          }
+          failure = new RuyiError(result)
+          logger.error(`Failed to prepare ${packageSpec(target)} for ${host}:`, failure.message)
+          return false
+        }
+        done.push(target)
+      }
+      return false
+    },
+  )
+
+  if (mode === 'install' && done.length > 0) {
+    await provider.shallowRefresh()
+  }
+  if (failure) {
+    const failed = targets[done.length]
+    void showRuyiError(vscode.l10n.t('Failed to prepare {0} for {1}: {2}', failed.name, host, failure.message), failure)
+    return false
+  }
+  if (cancelled) {
+    vscode.window.showInformationMessage(vscode.l10n.t('Cancelled after {0} of {1} package(s).', done.length, targets.length))
+    return false
+  }
+
+  const message = '✓ ' + vscode.l10n.t('Prepared {0} package(s) for {1}.', done.length, host)
+  if (mode === 'fetch') {
+    vscode.window.showInformationMessage(message)
+    return true
+  }
+  const reveal = vscode.l10n.t('Reveal')
+  if (await vscode.window.showInformationMessage(message, reveal) === reveal) {
+    const revealed = destDir ?? path.join(ruyiDataDir(), 'binaries', host)
+    await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(revealed))
+  }
+  return true
+}
+
+async function selectHost(provider: PackagesTreeProvider): Promise<void> {
+  const hosts = knownHosts(await provider.prepareForSearch())
+  const selected = provider.getHost()
+  const picked = await vscode.window.showQuickPick(
+    hosts.map(host => ({
+      label: host === selected ? `$(check) ${host}` : host,
+      description: host === currentHost() ? vscode.l10n.t('current host') : undefined,
+      host,
+    })),
+    {
+      title: vscode.l10n.t('Select Package Host'),
+      placeHolder: vscode.l10n.t('Show and install packages for this host'),
+    },
+  )
+  if (picked && picked.host !== selected) {
+    provider.setHost(picked.host)
+  }
+}
+
+export default function registerHostCommands(ctx: vscode.ExtensionContext, provider: PackagesTreeProvider) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.packages.selectHost', () => selectHost(provider)),
+  )
+}
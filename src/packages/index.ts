@@ -1,32 +1,60 @@
 // SPDX-License-Identifier: Apache-2.0
 import * as vscode from 'vscode'
 
+import registerBatchCommands from './batch.command'
 import registerCopyPackageIdCommand from './copy-package-id.command'
 import registerExtractCommand from './extract.command'
+import registerHostCommands from './host.command'
 import registerInstallCommand from './install.command'
+import registerOfflineBundleCommands from './offline-bundle.command'
+import registerPackageContentsCommands from './package-contents.command'
+import { PackageDetailsWebviewProvider } from './package-details-webview.provider'
+import { PackageJobsTreeProvider } from './package-jobs-tree.provider'
+import { PackageJobsService } from './package-jobs.service'
 import { PackagesTreeProvider } from './package-tree.provider'
 import { PackageService } from './package.service'
 import registerRefreshCommand from './refresh.command'
 import registerSearchCommand from './search.command'
+import registerShowDetailsCommand from './show-details.command'
 import registerUninstallCommand from './uninstall.command'
+import registerUpgradeCommands from './upgrade.command'
 
 export default function registerPackagesModule(ctx: vscode.ExtensionContext) {
-  const packageService = new PackageService()
-  const packagesTreeProvider = new PackagesTreeProvider(packageService)
+  const packageService = new PackageService(ctx.globalStorageUri)
+  const packagesTreeProvider = new PackagesTreeProvider(packageService, ctx.workspaceState)
+  ctx.subscriptions.push(packageService)
 
   const packagesTreeView = vscode.window.createTreeView('ruyiPackagesView', {
     treeDataProvider: packagesTreeProvider,
     showCollapseAll: true,
+    canSelectMany: true,
   })
   packagesTreeProvider.setTreeView(packagesTreeView)
   ctx.subscriptions.push(packagesTreeView)
 
-  void packagesTreeProvider.shallowRefresh()
+  void packagesTreeProvider.initialize()
+
+  const jobsService = new PackageJobsService()
+  const jobsTreeProvider = new PackageJobsTreeProvider(jobsService)
+  ctx.subscriptions.push(
+    jobsService,
+    jobsTreeProvider,
+    vscode.window.createTreeView('ruyiPackageJobsView', { treeDataProvider: jobsTreeProvider }),
+  )
+
+  const packageDetailsProvider = new PackageDetailsWebviewProvider(packagesTreeProvider)
+  ctx.subscriptions.push(packageDetailsProvider)
 
   registerCopyPackageIdCommand(ctx)
-  registerInstallCommand(ctx, packagesTreeProvider)
-  registerUninstallCommand(ctx, packagesTreeProvider)
+  registerInstallCommand(ctx, packagesTreeProvider, jobsService)
+  registerUninstallCommand(ctx, packagesTreeProvider, jobsService)
   registerRefreshCommand(ctx, packagesTreeProvider)
   registerSearchCommand(ctx, packagesTreeProvider)
   registerExtractCommand(ctx, packagesTreeProvider)
+  registerShowDetailsCommand(ctx, packageDetailsProvider)
+  registerBatchCommands(ctx, packagesTreeProvider, jobsService)
+  registerUpgradeCommands(ctx, packagesTreeProvider, jobsService)
+  registerOfflineBundleCommands(ctx, packagesTreeProvider)
+  registerHostCommands(ctx, packagesTreeProvider)
+  registerPackageContentsCommands(ctx)
 }
@@ -1,12 +1,16 @@
 // SPDX-License-Identifier: Apache-2.0
 import * as vscode from 'vscode'
 
-import { createProgressTracker } from '../common/helpers'
-import ruyi from '../ruyi'
+import { createProgressTracker, createQueueReporter } from '../common/helpers'
+import ruyi, { RuyiError, showRuyiError, type InstallOptions, type RuyiInitiator } from '../ruyi'
 
+import { batchInstall, getBatchSelection } from './batch.command'
+import { installForHost } from './host.command'
+import { cleanupCancelledInstall, type PackageJobsService } from './package-jobs.service'
 import { PackagesTreeProvider, VersionItem } from './package-tree.provider'
+import { findTargetInstalledVersions } from './package.helper'
 
-type Installable = VersionItem | [string, string?]
+type Installable = VersionItem | [string, string?, RuyiInitiator?]
 
 /**
  * Install a package by name and version
@@ -14,6 +18,8 @@ type Installable = VersionItem | [string, string?]
  * @param name Package name like "toolchain"
  * @param version Package version like "1.0.0", or undefined for latest
  * @param skipConfirm If true, skip the confirmation dialog
+ * @param options Extra `ruyi install` options, e.g. to reinstall
+ * @param initiator Recorded in the install journal
  * @returns true if successful, false otherwise
  */
 export async function installPackage(
@@ -21,6 +27,8 @@ export async function installPackage(
   name: string,
   version?: string,
   skipConfirm: boolean = false,
+  options: InstallOptions = {},
+  initiator: RuyiInitiator = 'tree',
 ): Promise<boolean> {
   const packageName = name.split('/').pop() || name
   const displayVersion = version || 'latest'
@@ -39,24 +47,45 @@ export async function installPackage(
     }
   }
 
+  // Cancelling must not remove a version the user already had, nor one
+  // that may be installed where ruyi runs
+  const installedBefore = await findTargetInstalledVersions(name, options.host)
+  const wasInstalled = !installedBefore
+    || (version ? installedBefore.includes(version) : installedBefore.length > 0)
+
   let success = false
   await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
       title: vscode.l10n.t('Installing {0}...', packageName),
-      cancellable: false,
+      cancellable: true,
     },
-    async (progress) => {
+    async (progress, token) => {
       provider.markPackageInstalling(name, displayVersion)
 
       progress.report({ message: vscode.l10n.t('Starting installation...'), increment: 0 })
 
-      const [onProgress, getLastPercent] = createProgressTracker(progress)
+      const [onEvent, getLastPercent] = createProgressTracker(progress)
 
       const result = await ruyi
         .timeout(300_000)
-        .onProgress(onProgress)
-        .install(packageSpec)
+        .token(token)
+        .initiator(initiator)
+        .onQueued(createQueueReporter(progress, vscode.l10n.t('Starting installation...')))
+        .onEvent(onEvent)
+        .install(packageSpec, options)
+
+      if (result.cancelled) {
+        // Nothing to clean up if ruyi never ran or the version was there
+        // before; a reinstall always replaces a working install
+        if (!result.notStarted && !wasInstalled && !options.reinstall) {
+          progress.report({ message: vscode.l10n.t('Cleaning up...') })
+          await cleanupCancelledInstall(packageSpec)
+        }
+        provider.unmarkPackageInstalling(name, displayVersion)
+        vscode.window.showInformationMessage(vscode.l10n.t('Installation of {0} cancelled.', packageName))
+        return
+      }
 
       provider.unmarkPackageInstalling(name, displayVersion)
 
@@ -72,8 +101,16 @@ export async function installPackage(
         success = true
       }
       else {
-        const errorMsg = result.stderr || result.stdout || vscode.l10n.t('Unknown error')
-        vscode.window.showErrorMessage(vscode.l10n.t('Failed to install {0}: {1}', packageName, errorMsg))
+        const error = new RuyiError(result)
+        void showRuyiError(
+          vscode.l10n.t('Failed to install {0}: {1}', packageName, error.message),
+          error,
+          async () => {
+            if (await installPackage(provider, name, version, true, options, initiator)) {
+              await provider.shallowRefresh()
+            }
+          },
+        )
       }
     },
   )
@@ -81,27 +118,48 @@ export async function installPackage(
   return success
 }
 
-export default function registerInstallCommand(ctx: vscode.ExtensionContext, provider: PackagesTreeProvider) {
+export default function registerInstallCommand(ctx: vscode.ExtensionContext, provider: PackagesTreeProvider, jobsService: PackageJobsService) {
   const installDisposable = vscode.commands.registerCommand(
     'ruyi.packages.install',
-    async (installable: Installable) => {
+    async (installable: Installable, selection?: unknown) => {
+      const batch = getBatchSelection(installable, selection)
+      if (batch && provider.isForeignHost()) {
+        const targets = batch
+          .filter(item => item.contextValue === 'ruyiPackage.available')
+          .map(item => ({ name: item.pkg.name, version: item.versionInfo.version, downloadSize: item.versionInfo.downloadSize }))
+        return targets.length > 0 && await installForHost(provider, targets)
+      }
+      if (batch) {
+        await batchInstall(batch, provider, jobsService)
+        return
+      }
+
       let name: string
       let version: string | undefined
+      let initiator: RuyiInitiator | undefined
 
       if (installable instanceof VersionItem) {
         name = installable.pkg.name
         version = installable.versionInfo.version
       }
       else if (Array.isArray(installable)) {
-        name = installable[0]
-        version = installable[1]
+        [name, version, initiator] = installable
       }
       else {
         vscode.window.showErrorMessage(vscode.l10n.t('Invalid package selection.'))
         return
       }
 
-      const success = await installPackage(provider, name, version)
+      if (provider.isForeignHost()) {
+        if (!version) {
+          vscode.window.showErrorMessage(vscode.l10n.t('Select a package version to install for {0}.', provider.getHost()))
+          return false
+        }
+        const downloadSize = installable instanceof VersionItem ? installable.versionInfo.downloadSize : undefined
+        return installForHost(provider, [{ name, version, downloadSize }])
+      }
+
+      const success = await installPackage(provider, name, version, false, {}, initiator)
 
       if (success) {
         await provider.shallowRefresh()
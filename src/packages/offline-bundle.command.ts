@@ -0,0 +1,433 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { getExecutor } from '../common/executor'
+import { createQueueReporter } from '../common/helpers'
+import { logger } from '../common/logger'
+import ruyi, { operationQueue, RuyiError, type QueuePositionCallback } from '../ruyi'
+
+import { getBatchSelection } from './batch.command'
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  createArchive,
+  distfilesCacheDir,
+  extractArchive,
+  getLocalRepos,
+  readManifest,
+  snapshotRepo,
+  verifyDistfile,
+  verifyRepoSnapshot,
+  writeManifest,
+  type OfflineBundleManifest,
+} from './offline-bundle.helper'
+import { findPackagesUsedByVenvs, getPackageDetailsFromRuyi, type PackageDetails } from './package-details.helper'
+import { packageSpec, type PackageJobTarget } from './package-jobs.service'
+import { PackagesTreeProvider, VersionItem } from './package-tree.provider'
+import { currentHost, formatSize } from './package.helper'
+
+async function pickPackages(provider: PackagesTreeProvider): Promise<PackageJobTarget[] | undefined> {
+  const packages = await provider.prepareForSearch()
+  const items = packages
+    .flatMap(pkg => pkg.versions
+      .filter(version => version.isBinaryAvailable || pkg.category === 'source')
+      .map(version => ({
+        label: `${pkg.name} ${version.version}`,
+        description: [
+          version.isInstalled ? vscode.l10n.t('installed') : '',
+          version.downloadSize ? formatSize(version.downloadSize) : '',
+        ].filter(Boolean).join(' · '),
+        picked: version.isInstalled,
+        target: { name: pkg.name, version: version.version, downloadSize: version.downloadSize },
+      })))
+    .sort((a, b) => a.label.localeCompare(b.label))
+
+  const picked = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    matchOnDescription: true,
+    placeHolder: vscode.l10n.t('Select the packages to include in the bundle'),
+  })
+  return picked?.map(item => item.target)
+}
+
+/**
+ * Ask which packages to export, unless the command was run on tree items.
+ */
+async function getExportTargets(provider: PackagesTreeProvider, item: unknown, selection: unknown): Promise<PackageJobTarget[] | undefined> {
+  if (item instanceof VersionItem) {
+    const items = getBatchSelection(item, selection) ?? [item]
+    return items.map(({ pkg, versionInfo }) => ({ name: pkg.name, version: versionInfo.version, downloadSize: versionInfo.downloadSize }))
+  }
+
+  const fromVenvs = {
+    label: `$(root-folder) ${vscode.l10n.t('Packages used by workspace venvs')}`,
+    value: 'venvs' as const,
+  }
+  const choose = {
+    label: `$(checklist) ${vscode.l10n.t('Choose packages...')}`,
+    value: 'choose' as const,
+  }
+  const source = await vscode.window.showQuickPick([fromVenvs, choose], {
+    placeHolder: vscode.l10n.t('What should the offline bundle contain?'),
+  })
+  if (!source) {
+    return undefined
+  }
+  if (source.value === 'choose') {
+    return pickPackages(provider)
+  }
+
+  const used = await findPackagesUsedByVenvs(await provider.prepareForSearch())
+  if (used.length === 0) {
+    vscode.window.showInformationMessage(vscode.l10n.t('No workspace venv uses an installed package.'))
+    return undefined
+  }
+  return used
+}
+
+/**
+ * Collect the verified distfiles of each package into `bundleDir`, fetching
+ * the ones missing from ruyi's cache with `ruyi install --fetch-only`.
+ * @returns The manifest, or null if cancelled
+ */
+async function stageBundle(
+  targets: PackageJobTarget[],
+  bundleDir: string,
+  failures: string[],
+  progress: vscode.Progress<{ message?: string, increment?: number }>,
+  token: vscode.CancellationToken,
+): Promise<OfflineBundleManifest | null> {
+  const manifest: OfflineBundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    host: currentHost(),
+    packages: [],
+    distfiles: [],
+    repos: [],
+  }
+  const cacheDir = distfilesCacheDir()
+  const details = new Map<string, PackageDetails | null>()
+  await fs.promises.mkdir(path.join(bundleDir, 'distfiles'), { recursive: true })
+
+  for (const [index, target] of targets.entries()) {
+    if (token.isCancellationRequested) {
+      return null
+    }
+    const message = vscode.l10n.t('({0}/{1}) {2} {3}', index + 1, targets.length, target.name, target.version)
+    progress.report({ message, increment: 80 / targets.length })
+
+    if (!details.has(target.name)) {
+      details.set(target.name, await getPackageDetailsFromRuyi(target.name))
+    }
+    const version = details.get(target.name)?.versions.find(v => v.version === target.version)
+    if (!version) {
+      failures.push(vscode.l10n.t('{0} {1}: not found in the package index', target.name, target.version))
+      continue
+    }
+
+    const names = version.hostDistfiles ?? version.distfiles.map(decl => decl.name)
+    const decls = version.distfiles.filter(decl => names.includes(decl.name))
+    const verifyAll = () => Promise.all(decls.map(decl => verifyDistfile(path.join(cacheDir, decl.name), decl)))
+
+    let problems = (await verifyAll()).filter(problem => problem !== null)
+    if (problems.length > 0) {
+      const runner = ruyi.timeout(600_000).token(token).onQueued(createQueueReporter(progress, message))
+      // `ruyi install` only handles binary and blob packages
+      const result = target.name.startsWith('source/')
+        ? await runner.extract(packageSpec(target), { fetchOnly: true })
+        : await runner.install(packageSpec(target), { fetchOnly: true })
+      if (result.cancelled) {
+        return null
+      }
+      if (result.code !== 0) {
+        const error = new RuyiError(result)
+        logger.error(`Failed to fetch ${packageSpec(target)}:\n${error.fullOutput}`)
+        failures.push(`${target.name} ${target.version}: ${error.message}`)
+        continue
+      }
+      problems = (await verifyAll()).filter(problem => problem !== null)
+    }
+    if (problems.length > 0) {
+      failures.push(`${target.name} ${target.version}: ${problems.join(', ')}`)
+      continue
+    }
+
+    for (const decl of decls) {
+      if (!manifest.distfiles.some(known => known.name === decl.name)) {
+        await fs.promises.copyFile(path.join(cacheDir, decl.name), path.join(bundleDir, 'distfiles', decl.name))
+        manifest.distfiles.push({ name: decl.name, size: decl.size, checksums: decl.checksums })
+      }
+    }
+    manifest.packages.push({ name: target.name, version: target.version, distfiles: decls.map(decl => decl.name) })
+  }
+
+  progress.report({ message: vscode.l10n.t('Copying package repos...') })
+  for (const repo of await getLocalRepos()) {
+    try {
+      manifest.repos.push(await snapshotRepo(repo, path.join(bundleDir, 'repos', repo.id)))
+    }
+    catch (error) {
+      logger.warn(`Failed to snapshot repo ${repo.id} at ${repo.path}:`, error)
+      failures.push(vscode.l10n.t('repo {0}: {1}', repo.id, error instanceof Error ? error.message : String(error)))
+    }
+  }
+
+  await writeManifest(bundleDir, manifest)
+  return manifest
+}
+
+/**
+ * Bundles are read from and written to ruyi's cache on this machine, which a
+ * remote executor's ruyi does not use.
+ */
+function checkLocalExecutor(): boolean {
+  if (getExecutor().kind !== 'local') {
+    vscode.window.showErrorMessage(vscode.l10n.t('Offline bundles are only supported when ruyi runs on this machine (ruyi.executor.kind is "local").'))
+    return false
+  }
+  return true
+}
+
+async function exportBundle(provider: PackagesTreeProvider, item: unknown, selection: unknown): Promise<void> {
+  if (!checkLocalExecutor()) {
+    return
+  }
+  const targets = await getExportTargets(provider, item, selection)
+  if (!targets || targets.length === 0) {
+    return
+  }
+
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+  const defaultDir = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir())
+  const archiveUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(defaultDir, `ruyi-offline-bundle-${date}.tar.gz`),
+    filters: { [vscode.l10n.t('Ruyi Offline Bundle')]: ['gz', 'tgz'] },
+    title: vscode.l10n.t('Export Offline Bundle'),
+  })
+  if (!archiveUri) {
+    return
+  }
+
+  const failures: string[] = []
+  let manifest: OfflineBundleManifest | null = null
+  try {
+    manifest = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Exporting offline bundle...'),
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const bundleDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ruyi-bundle-'))
+        try {
+          const staged = await stageBundle(targets, bundleDir, failures, progress, token)
+          if (!staged || staged.packages.length === 0) {
+            return staged
+          }
+          progress.report({ message: vscode.l10n.t('Writing {0}...', path.basename(archiveUri.fsPath)), increment: 10 })
+          await createArchive(bundleDir, archiveUri.fsPath, token)
+          return staged
+        }
+        finally {
+          await fs.promises.rm(bundleDir, { recursive: true, force: true })
+        }
+      },
+    )
+  }
+  catch (error) {
+    logger.error('Failed to export offline bundle:', error)
+    vscode.window.showErrorMessage(vscode.l10n.t('Failed to export offline bundle: {0}', error instanceof Error ? error.message : String(error)))
+    return
+  }
+
+  if (!manifest) {
+    vscode.window.showInformationMessage(vscode.l10n.t('Export of the offline bundle was cancelled.'))
+    return
+  }
+  if (manifest.packages.length === 0) {
+    vscode.window.showErrorMessage(
+      vscode.l10n.t('None of the selected packages could be exported.'),
+      { modal: true, detail: failures.join('\n') },
+    )
+    return
+  }
+
+  const size = (await fs.promises.stat(archiveUri.fsPath)).size
+  const message = vscode.l10n.t('Exported {0} package(s) and {1} repo snapshot(s) to {2} ({3}).', manifest.packages.length, manifest.repos.length, path.basename(archiveUri.fsPath), formatSize(size))
+  const reveal = vscode.l10n.t('Reveal in File Explorer')
+  const choice = failures.length > 0
+    ? await vscode.window.showWarningMessage(message, { modal: true, detail: [vscode.l10n.t('Not included:'), ...failures].join('\n') }, reveal)
+    : await vscode.window.showInformationMessage('✓ ' + message, reveal)
+  if (choice === reveal) {
+    await vscode.commands.executeCommand('revealFileInOS', archiveUri)
+  }
+}
+
+/**
+ * Replace a directory by a copy of another one. The copy is made next to the
+ * target first, so a failed copy leaves the target untouched.
+ */
+async function replaceDir(source: string, target: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(target), { recursive: true })
+  const staging = await fs.promises.mkdtemp(`${target}.import-`)
+  const previous = `${staging}.old`
+  try {
+    await fs.promises.cp(source, staging, { recursive: true })
+    await fs.promises.rename(target, previous).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') {
+        throw error
+      }
+    })
+    await fs.promises.rename(staging, target)
+  }
+  catch (error) {
+    await fs.promises.rm(staging, { recursive: true, force: true })
+    // Put the original back if it was moved aside
+    await fs.promises.rename(previous, target).catch(() => undefined)
+    throw error
+  }
+  await fs.promises.rm(previous, { recursive: true, force: true })
+}
+
+/**
+ * Copy the verified contents of an extracted bundle into ruyi's cache.
+ * Runs in the ruyi operation queue so that no ruyi command reads the repos
+ * while they are replaced.
+ * @returns Ids of bundle repos with no matching local repo
+ */
+function seedCache(bundleDir: string, manifest: OfflineBundleManifest, onQueued: QueuePositionCallback): Promise<string[]> {
+  return operationQueue.enqueue(async () => {
+    const cacheDir = distfilesCacheDir()
+    await fs.promises.mkdir(cacheDir, { recursive: true })
+    for (const decl of manifest.distfiles) {
+      const target = path.join(cacheDir, decl.name)
+      const partial = `${target}.import`
+      await fs.promises.copyFile(path.join(bundleDir, 'distfiles', decl.name), partial)
+      await fs.promises.rename(partial, target)
+    }
+
+    const localRepos = await getLocalRepos()
+    const skipped: string[] = []
+    for (const repo of manifest.repos) {
+      const local = localRepos.find(known => known.id === repo.id)
+      if (!local) {
+        skipped.push(repo.id)
+        continue
+      }
+      await replaceDir(path.join(bundleDir, 'repos', repo.id), local.path)
+    }
+    return skipped
+  }, { label: 'import offline bundle', onQueued })
+}
+
+async function confirmImport(manifest: OfflineBundleManifest): Promise<boolean> {
+  const detail = manifest.packages.map(pkg => `${pkg.name} ${pkg.version}`)
+  if (manifest.repos.length > 0) {
+    detail.push('', vscode.l10n.t('These package repos will be replaced by the snapshot in the bundle:'))
+    detail.push(...manifest.repos.map(repo => repo.commit ? `${repo.id} (${repo.commit.slice(0, 12)})` : repo.id))
+  }
+  if (manifest.host !== currentHost()) {
+    detail.push('', vscode.l10n.t('The bundle was made for {0} hosts, binary packages may not install on this {1} host.', manifest.host, currentHost()))
+  }
+
+  const importAction = vscode.l10n.t('Import')
+  const choice = await vscode.window.showWarningMessage(
+    vscode.l10n.t('Import the offline bundle created on {0} with {1} package(s)?', new Date(manifest.createdAt).toLocaleString(), manifest.packages.length),
+    { modal: true, detail: detail.join('\n') },
+    importAction,
+  )
+  return choice === importAction
+}
+
+async function importBundle(provider: PackagesTreeProvider): Promise<void> {
+  if (!checkLocalExecutor()) {
+    return
+  }
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { [vscode.l10n.t('Ruyi Offline Bundle')]: ['gz', 'tgz'] },
+    openLabel: vscode.l10n.t('Import'),
+    title: vscode.l10n.t('Import Offline Bundle'),
+  })
+  const archive = picked?.[0]?.fsPath
+  if (!archive) {
+    return
+  }
+
+  const bundleDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ruyi-bundle-'))
+  try {
+    const manifest = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: vscode.l10n.t('Verifying offline bundle...'),
+        cancellable: true,
+      },
+      async (progress, token) => {
+        progress.report({ message: vscode.l10n.t('Extracting {0}...', path.basename(archive)) })
+        await extractArchive(archive, bundleDir, token)
+        const manifest = await readManifest(bundleDir)
+
+        const problems: string[] = []
+        for (const [index, decl] of manifest.distfiles.entries()) {
+          if (token.isCancellationRequested) {
+            return null
+          }
+          progress.report({
+            message: vscode.l10n.t('({0}/{1}) {2}', index + 1, manifest.distfiles.length, decl.name),
+            increment: 100 / manifest.distfiles.length,
+          })
+          const problem = await verifyDistfile(path.join(bundleDir, 'distfiles', decl.name), decl)
+          if (problem) {
+            problems.push(problem)
+          }
+        }
+        // The snapshots replace the local package index
+        for (const repo of manifest.repos) {
+          const problem = await verifyRepoSnapshot(path.join(bundleDir, 'repos', repo.id), repo)
+          if (problem) {
+            problems.push(problem)
+          }
+        }
+        if (problems.length > 0) {
+          throw new Error(vscode.l10n.t('Verification failed, nothing was imported: {0}', problems.join('; ')))
+        }
+        return manifest
+      },
+    )
+    if (!manifest || !await confirmImport(manifest)) {
+      return
+    }
+
+    const skipped = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Importing offline bundle...') },
+      progress => seedCache(bundleDir, manifest, createQueueReporter(progress)),
+    )
+    await provider.shallowRefresh()
+
+    const message = '✓ ' + vscode.l10n.t('Imported {0} distfile(s) and {1} repo snapshot(s). The bundled packages can now be installed without network access.', manifest.distfiles.length, manifest.repos.length - skipped.length)
+    if (skipped.length > 0) {
+      vscode.window.showWarningMessage(message + ' ' + vscode.l10n.t('Skipped repos not configured on this machine: {0}', skipped.join(', ')))
+    }
+    else {
+      vscode.window.showInformationMessage(message)
+    }
+  }
+  catch (error) {
+    logger.error('Failed to import offline bundle:', error)
+    vscode.window.showErrorMessage(vscode.l10n.t('Failed to import offline bundle: {0}', error instanceof Error ? error.message : String(error)))
+  }
+  finally {
+    await fs.promises.rm(bundleDir, { recursive: true, force: true })
+  }
+}
+
+export default function registerOfflineBundleCommands(ctx: vscode.ExtensionContext, provider: PackagesTreeProvider) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.packages.exportBundle', (item?: unknown, selection?: unknown) => exportBundle(provider, item, selection)),
+    vscode.commands.registerCommand('ruyi.packages.importBundle', () => importBundle(provider)),
+  )
+}
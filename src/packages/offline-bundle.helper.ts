@@ -0,0 +1,201 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Packages Module - Offline Bundle Helper
+ *
+ * Provides stateless helpers for offline bundles, archives that carry
+ * package distfiles and a snapshot of the package repos to machines without
+ * network access. A bundle is a `.tar.gz` laid out as:
+ *
+ *   manifest.json            packages, distfile checksums and repo commits
+ *   distfiles/<name>         files as found in ruyi's distfiles cache
+ *   repos/<id>/              checkouts of the active package repos
+ */
+
+import { execFile } from 'child_process'
+import { createHash } from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { promisify } from 'util'
+import * as vscode from 'vscode'
+
+import { getExecutor } from '../common/executor'
+import { toAbortSignal } from '../common/helpers'
+import { getRepoList } from '../repo/repo.helper'
+import { ruyiCapabilities } from '../ruyi/capabilities'
+import { ruyiCacheDir } from '../ruyi/state'
+import type { RuyiDistfileDecl } from '../ruyi/types'
+
+import { readGitHead } from './package.service'
+
+const execFileAsync = promisify(execFile)
+
+export const BUNDLE_FORMAT = 'ruyi-offline-bundle'
+export const BUNDLE_VERSION = 1
+export const MANIFEST_FILE = 'manifest.json'
+
+/** Checksum algorithms that can be verified, strongest first */
+const CHECKSUM_ALGORITHMS = ['sha512', 'sha256']
+
+export interface BundlePackage {
+  /** Full package name, "<category>/<name>" */
+  name: string
+  version: string
+  /** Names of the distfiles the package needs on the bundle's host */
+  distfiles: string[]
+}
+
+export interface BundleRepo {
+  id: string
+  remote?: string
+  /** Commit the snapshot was taken at, if known */
+  commit: string | null
+}
+
+export interface OfflineBundleManifest {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  /** ISO timestamp of the export */
+  createdAt: string
+  /** Host the binary distfiles were chosen for, e.g. "x86_64" */
+  host: string
+  packages: BundlePackage[]
+  distfiles: RuyiDistfileDecl[]
+  repos: BundleRepo[]
+}
+
+/**
+ * A package repo checked out on this machine.
+ */
+export interface LocalRepo {
+  id: string
+  remote?: string
+  /** Local path of the checkout */
+  path: string
+}
+
+/**
+ * ruyi's distfiles cache, where `ruyi install` looks before downloading.
+ */
+export function distfilesCacheDir(): string {
+  return path.join(ruyiCacheDir(), 'distfiles')
+}
+
+/**
+ * The active package repos and where they are checked out. Ruyi versions
+ * without the `repo` command only know the default repo.
+ */
+export async function getLocalRepos(): Promise<LocalRepo[]> {
+  if (!await ruyiCapabilities.has('hasRepoCommand')) {
+    return [{ id: 'ruyisdk', path: path.join(ruyiCacheDir(), 'packages-index') }]
+  }
+
+  const executor = getExecutor()
+  return (await getRepoList())
+    .filter(repo => repo.active && repo.local_path)
+    .map(repo => ({ id: repo.id, remote: repo.remote, path: executor.toLocalPath(repo.local_path!) }))
+}
+
+/**
+ * Take a snapshot of a repo checkout into `destDir`.
+ */
+export async function snapshotRepo(repo: LocalRepo, destDir: string): Promise<BundleRepo> {
+  await fs.promises.cp(repo.path, destDir, { recursive: true })
+  return { id: repo.id, remote: repo.remote, commit: await readGitHead(repo.path) }
+}
+
+export async function hashFile(file: string, algorithm: string): Promise<string> {
+  const hash = createHash(algorithm)
+  for await (const chunk of fs.createReadStream(file)) {
+    hash.update(chunk as Buffer)
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Verify a file against the size and checksums declared for a distfile.
+ * @returns Why the file does not match, or null if it does
+ */
+export async function verifyDistfile(file: string, decl: RuyiDistfileDecl): Promise<string | null> {
+  let size: number
+  try {
+    size = (await fs.promises.stat(file)).size
+  }
+  catch {
+    return vscode.l10n.t('{0} is missing', decl.name)
+  }
+  if (size !== decl.size) {
+    return vscode.l10n.t('{0} has size {1}, expected {2}', decl.name, size, decl.size)
+  }
+
+  const algorithms = CHECKSUM_ALGORITHMS.filter(algorithm => decl.checksums[algorithm])
+  if (algorithms.length === 0) {
+    return vscode.l10n.t('{0} has no supported checksum', decl.name)
+  }
+  for (const algorithm of algorithms) {
+    if (await hashFile(file, algorithm) !== decl.checksums[algorithm].toLowerCase()) {
+      return vscode.l10n.t('{0} failed {1} verification', decl.name, algorithm)
+    }
+  }
+  return null
+}
+
+/**
+ * Verify that a repo snapshot is at the commit the manifest declares.
+ * @returns Why the snapshot does not match, or null if it does
+ */
+export async function verifyRepoSnapshot(dir: string, repo: BundleRepo): Promise<string | null> {
+  if (!repo.commit) {
+    return vscode.l10n.t('repo {0} has no recorded commit', repo.id)
+  }
+  const head = await readGitHead(dir)
+  if (head !== repo.commit) {
+    return vscode.l10n.t('repo {0} is at {1}, expected {2}', repo.id, head ?? '?', repo.commit)
+  }
+  return null
+}
+
+export async function writeManifest(bundleDir: string, manifest: OfflineBundleManifest): Promise<void> {
+  await fs.promises.writeFile(path.join(bundleDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2))
+}
+
+/**
+ * Read and sanity-check the manifest of an extracted bundle.
+ * @throws Error if the manifest is missing or not an offline bundle manifest
+ */
+export async function readManifest(bundleDir: string): Promise<OfflineBundleManifest> {
+  let manifest: Partial<OfflineBundleManifest>
+  try {
+    manifest = JSON.parse(await fs.promises.readFile(path.join(bundleDir, MANIFEST_FILE), 'utf8'))
+  }
+  catch {
+    throw new Error(vscode.l10n.t('The archive has no readable {0}.', MANIFEST_FILE))
+  }
+
+  if (manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.distfiles) || !Array.isArray(manifest.packages)) {
+    throw new Error(vscode.l10n.t('The archive is not a Ruyi offline bundle.'))
+  }
+  if ((manifest.version ?? 0) > BUNDLE_VERSION) {
+    throw new Error(vscode.l10n.t('The bundle was created by a newer version of the extension (format {0}).', manifest.version ?? 0))
+  }
+  // Distfile names and repo ids become paths on import
+  const names = [...manifest.distfiles.map(decl => decl.name), ...(manifest.repos ?? []).map(repo => repo.id)]
+  const unsafe = names.find(name => path.basename(name) !== name || name.startsWith('.'))
+  if (unsafe !== undefined) {
+    throw new Error(vscode.l10n.t('The bundle contains an invalid file name: {0}', unsafe))
+  }
+  return { repos: [], ...manifest } as OfflineBundleManifest
+}
+
+/**
+ * Pack a directory into a gzipped tarball with the system `tar`.
+ */
+export async function createArchive(sourceDir: string, archive: string, token: vscode.CancellationToken): Promise<void> {
+  await execFileAsync('tar', ['-czf', archive, '-C', sourceDir, '.'], { signal: toAbortSignal(token) })
+}
+
+/**
+ * Unpack a gzipped tarball into a directory with the system `tar`.
+ */
+export async function extractArchive(archive: string, destDir: string, token: vscode.CancellationToken): Promise<void> {
+  await execFileAsync('tar', ['-xzf', archive, '-C', destDir], { signal: toAbortSignal(token) })
+}
@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { PackageBinariesItem, PackageBinaryItem, PackageFileItem, VersionItem } from './package-tree.provider'
+import { currentHost, findInstallDir } from './package.helper'
+
+type ContentsItem = VersionItem | PackageBinariesItem | PackageBinaryItem | PackageFileItem
+
+/**
+ * The path an item of the packages tree stands for.
+ * @returns undefined if the item is not on disk, e.g. a version that is not installed
+ */
+async function resolvePath(item: unknown): Promise<string | undefined> {
+  if (item instanceof VersionItem) {
+    if (!item.versionInfo.isInstalled) {
+      return undefined
+    }
+    return await findInstallDir(item.pkg.name, item.versionInfo.version, item.host) ?? undefined
+  }
+  if (item instanceof PackageBinariesItem || item instanceof PackageBinaryItem || item instanceof PackageFileItem) {
+    return item.fsPath
+  }
+  return undefined
+}
+
+async function withPath(item: ContentsItem, action: (target: string) => Thenable<unknown> | void): Promise<void> {
+  const target = await resolvePath(item)
+  if (!target) {
+    vscode.window.showErrorMessage(vscode.l10n.t('The install directory of this package was not found.'))
+    return
+  }
+  await action(target)
+}
+
+async function openInTerminal(item: ContentsItem, target: string): Promise<void> {
+  const isDirectory = (await fs.promises.stat(target).catch(() => null))?.isDirectory() ?? false
+  const cwd = isDirectory ? target : path.dirname(target)
+
+  // Put the package's tools first on PATH, as a venv would
+  let env: Record<string, string> | undefined
+  if (item instanceof VersionItem && item.host === currentHost()) {
+    const binDir = path.join(target, 'bin')
+    if (await fs.promises.access(binDir).then(() => true, () => false)) {
+      env = { PATH: `${binDir}${path.delimiter}${process.env.PATH ?? ''}` }
+    }
+  }
+
+  const name = item instanceof VersionItem
+    ? `${item.pkg.name.split('/').pop()} ${item.versionInfo.version}`
+    : path.basename(cwd)
+  vscode.window.createTerminal({ name, cwd, env }).show()
+}
+
+export default function registerPackageContentsCommands(ctx: vscode.ExtensionContext) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.packages.revealInOS', (item: ContentsItem) =>
+      withPath(item, target => vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(target)))),
+
+    vscode.commands.registerCommand('ruyi.packages.openInTerminal', (item: ContentsItem) =>
+      withPath(item, target => openInTerminal(item, target))),
+
+    vscode.commands.registerCommand('ruyi.packages.copyPath', (item: ContentsItem) =>
+      withPath(item, async (target) => {
+        await vscode.env.clipboard.writeText(target)
+        vscode.window.showInformationMessage(vscode.l10n.t('Path "{0}" copied to clipboard!', target))
+      })),
+  )
+}
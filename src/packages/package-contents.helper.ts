@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Packages Module - Package Contents Helper
+ *
+ * Provides stateless helpers listing what an installed package ships: the
+ * files below its install directory and the executables in its `bin`
+ * directory together with their `--version` output. These functions return
+ * data only and do NOT update UI.
+ */
+
+import { execFile } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFile)
+
+/** How long a binary may take to print its version */
+const VERSION_PROBE_TIMEOUT = 5_000
+
+/** How many binaries are probed at the same time */
+const MAX_PARALLEL_PROBES = 4
+
+export interface PackageFileEntry {
+  name: string
+  path: string
+  isDirectory: boolean
+  /** Target of the entry if it is a symlink */
+  linkTarget?: string
+}
+
+/**
+ * List a directory of an installed package, directories first.
+ * Symlinks are listed by what they point to.
+ */
+export async function listPackageDir(dir: string): Promise<PackageFileEntry[]> {
+  const entries: PackageFileEntry[] = []
+  for (const dirent of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, dirent.name)
+    let isDirectory = dirent.isDirectory()
+    let linkTarget: string | undefined
+    if (dirent.isSymbolicLink()) {
+      linkTarget = await fs.promises.readlink(entryPath).catch(() => undefined)
+      isDirectory = (await fs.promises.stat(entryPath).catch(() => null))?.isDirectory() ?? false
+    }
+    entries.push({ name: dirent.name, path: entryPath, isDirectory, linkTarget })
+  }
+  return entries.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name))
+}
+
+/**
+ * Executables in the `bin` directory of an installed package.
+ */
+export async function findPackageBinaries(installDir: string): Promise<PackageFileEntry[]> {
+  const binDir = path.join(installDir, 'bin')
+  let entries: PackageFileEntry[]
+  try {
+    entries = await listPackageDir(binDir)
+  }
+  catch {
+    return []
+  }
+
+  const binaries: PackageFileEntry[] = []
+  for (const entry of entries.filter(e => !e.isDirectory)) {
+    try {
+      await fs.promises.access(entry.path, fs.constants.X_OK)
+      binaries.push(entry)
+    }
+    catch {
+      // Not executable, or a dangling symlink
+    }
+  }
+  return binaries
+}
+
+const versionCache = new Map<string, Promise<string | null>>()
+let runningProbes = 0
+const waitingProbes: Array<() => void> = []
+
+/**
+ * Run a probe once fewer than MAX_PARALLEL_PROBES are running. A finished
+ * probe hands its slot straight to the next waiting one.
+ */
+async function withProbeSlot<T>(probe: () => Promise<T>): Promise<T> {
+  if (runningProbes < MAX_PARALLEL_PROBES) {
+    runningProbes++
+  }
+  else {
+    await new Promise<void>(resolve => waitingProbes.push(resolve))
+  }
+  try {
+    return await probe()
+  }
+  finally {
+    const next = waitingProbes.shift()
+    if (next) {
+      next()
+    }
+    else {
+      runningProbes--
+    }
+  }
+}
+
+/**
+ * First line printed by `<binary> --version`, e.g.
+ * "riscv64-plct-linux-gnu-gcc (RuyiSDK 20240528) 13.2.0".
+ * Results are cached per path until the package is reinstalled, and only a
+ * few binaries run at the same time.
+ * @returns null if the binary does not support `--version`
+ */
+export function probeBinaryVersion(binary: string): Promise<string | null> {
+  let probe = versionCache.get(binary)
+  if (!probe) {
+    probe = withProbeSlot(() => execFileAsync(binary, ['--version'], { timeout: VERSION_PROBE_TIMEOUT, cwd: path.dirname(binary) }))
+      .then(({ stdout, stderr }) => firstLine(stdout) ?? firstLine(stderr))
+      .catch(() => null)
+    versionCache.set(binary, probe)
+  }
+  return probe
+}
+
+/**
+ * Forget the probed versions below a directory, e.g. after an uninstall.
+ */
+export function clearVersionCache(dir?: string): void {
+  for (const binary of versionCache.keys()) {
+    if (!dir || binary.startsWith(dir + path.sep)) {
+      versionCache.delete(binary)
+    }
+  }
+}
+
+function firstLine(output: string): string | null {
+  return output.split('\n').map(line => line.trim()).find(Boolean) ?? null
+}
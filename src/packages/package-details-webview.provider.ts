@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * RuyiSDK VS Code Extension - Packages Module - Details Webview Provider
+ *
+ * Shows the full manifest of a package in an editor panel, like an
+ * extension page: description, every version with its remarks, sizes,
+ * toolchain metadata and distfiles, the workspace venvs using it, and
+ * install/uninstall/reinstall actions.
+ */
+
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { onDidChangeRuyiState } from '../ruyi'
+import { onDidChangeRuyiStateDirs } from '../ruyi/state'
+
+import { installPackage } from './install.command'
+import { findVenvsUsingPackage, getPackageDetailsFromRuyi } from './package-details.helper'
+import { getDetailsErrorHtml, getDetailsHtml } from './package-details.view'
+import type { PackagesTreeProvider } from './package-tree.provider'
+import { uninstallPackage } from './uninstall.command'
+
+type PackageDetailsMessage
+  = | { type: 'install', version?: unknown }
+    | { type: 'uninstall', version?: unknown }
+    | { type: 'reinstall', version?: unknown }
+    | { type: 'copyId', version?: unknown }
+    | { type: 'openVenv', path?: unknown }
+    | { type: 'activateVenv', path?: unknown }
+
+interface DetailsPanel {
+  panel: vscode.WebviewPanel
+  selectedVersion?: string
+}
+
+/** Subcommands after which the shown install state may be outdated */
+const DETAILS_MUTATING_COMMANDS = new Set(['install', 'uninstall', 'update', 'repo'])
+
+export class PackageDetailsWebviewProvider implements vscode.Disposable {
+  /** Open panels by full package name */
+  private readonly panels = new Map<string, DetailsPanel>()
+  private readonly disposables: vscode.Disposable[] = []
+
+  constructor(private readonly treeProvider: PackagesTreeProvider) {
+    this.disposables.push(
+      onDidChangeRuyiState(({ command }) => {
+        if (DETAILS_MUTATING_COMMANDS.has(command)) {
+          this.panels.forEach((_, name) => void this.updateContent(name))
+        }
+      }),
+      onDidChangeRuyiStateDirs(() => this.panels.forEach((_, name) => void this.updateContent(name))),
+    )
+  }
+
+  /**
+   * Open the details of a package, or reveal them if already open.
+   * @param name Full package name, "<category>/<name>"
+   * @param version Version to highlight
+   */
+  async show(name: string, version?: string): Promise<void> {
+    const existing = this.panels.get(name)
+    if (existing) {
+      existing.selectedVersion = version
+      existing.panel.reveal()
+      await this.updateContent(name)
+      return
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'ruyiPackageDetails',
+      name.split('/').pop() || name,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+      },
+    )
+    this.panels.set(name, { panel, selectedVersion: version })
+
+    panel.onDidDispose(() => {
+      this.panels.delete(name)
+    })
+
+    panel.webview.onDidReceiveMessage((message) => {
+      void this.handleMessage(name, message)
+    })
+
+    await this.updateContent(name)
+  }
+
+  private async handleMessage(name: string, message: PackageDetailsMessage): Promise<void> {
+    if (message.type === 'openVenv' || message.type === 'activateVenv') {
+      if (typeof message.path === 'string') {
+        await this.openVenv(message.path, message.type === 'activateVenv')
+      }
+      return
+    }
+
+    if (typeof message.version !== 'string') return
+    const version = message.version
+
+    switch (message.type) {
+      // The page shows the current host's installs, whatever host the tree
+      // is set to, so act on the current host directly
+      case 'install':
+        if (await installPackage(this.treeProvider, name, version)) {
+          await this.treeProvider.shallowRefresh()
+        }
+        break
+      case 'uninstall':
+        if (await uninstallPackage(name, version)) {
+          await this.treeProvider.shallowRefresh()
+        }
+        break
+      case 'reinstall':
+        await this.reinstall(name, version)
+        break
+      case 'copyId': {
+        const pkgId = `${name}(${version})`
+        await vscode.env.clipboard.writeText(pkgId)
+        vscode.window.showInformationMessage(vscode.l10n.t('Package ID "{0}" copied to clipboard!', pkgId))
+        return
+      }
+      default:
+        return
+    }
+
+    // Re-enable the buttons, also when the action was cancelled
+    await this.updateContent(name)
+  }
+
+  private async reinstall(name: string, version: string): Promise<void> {
+    const packageName = name.split('/').pop() || name
+    const reinstall = vscode.l10n.t('Reinstall')
+    const choice = await vscode.window.showWarningMessage(
+      vscode.l10n.t('Reinstall {0} {1}?', packageName, version),
+      { modal: true, detail: vscode.l10n.t('The installed files will be removed and extracted again.') },
+      reinstall,
+    )
+    if (choice !== reinstall) {
+      return
+    }
+
+    if (await installPackage(this.treeProvider, name, version, true, { reinstall: true })) {
+      await this.treeProvider.shallowRefresh()
+    }
+  }
+
+  private async openVenv(venvPath: string, activate: boolean): Promise<void> {
+    if (activate) {
+      await vscode.commands.executeCommand('ruyi.venv.activate', venvPath)
+      return
+    }
+
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+    if (!workspaceRoot) return
+    await vscode.window.showTextDocument(vscode.Uri.file(path.join(workspaceRoot, venvPath, 'ruyi-venv.toml')))
+  }
+
+  private async updateContent(name: string): Promise<void> {
+    const entry = this.panels.get(name)
+    if (!entry) return
+
+    try {
+      const details = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: vscode.l10n.t('Loading details of {0}...', name) },
+        () => getPackageDetailsFromRuyi(name),
+      )
+      if (!details) {
+        throw new Error(vscode.l10n.t('Package {0} was not found.', name))
+      }
+      const installed = details.versions.filter(v => v.isInstalled).map(v => v.version)
+      const usages = await findVenvsUsingPackage(name, installed)
+
+      // Panel may have been closed during async operation
+      if (!this.panels.has(name)) return
+      entry.panel.webview.html = getDetailsHtml(entry.panel.webview, details, usages, entry.selectedVersion)
+    }
+    catch (error) {
+      if (!this.panels.has(name)) return
+      const msg = error instanceof Error ? error.message : String(error)
+      entry.panel.webview.html = getDetailsErrorHtml(msg)
+    }
+  }
+
+  dispose(): void {
+    this.panels.forEach(({ panel }) => panel.dispose())
+    this.disposables.forEach(d => d.dispose())
+  }
+}
@@ -0,0 +1,244 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Packages Module - Details Helper
+ *
+ * Provides stateless helpers for fetching the full manifest of a package
+ * with `ruyi list --verbose`, and for finding the workspace venvs built
+ * from it.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { logger } from '../common/logger'
+import ruyi, { PACKAGE_CATEGORIES, type PackageCategory } from '../ruyi'
+import { parsePorcelain } from '../ruyi/schema'
+import type { RuyiDistfileDecl, RuyiListOutput } from '../ruyi/types'
+import { scanWorkspaceForVenvs } from '../venv/detection.helper'
+import type { VenvInfo } from '../venv/types'
+
+import { currentHost } from './package.helper'
+import type { RuyiPackage } from './package.service'
+
+export interface PackageVersionDetails {
+  version: string
+  remarks: string[]
+  isInstalled: boolean
+  isDownloaded: boolean
+  downloadSize?: number
+  installSize?: number
+  desc?: string
+  vendor?: string
+  slug?: string
+  target?: string
+  quirks: string[]
+  includedSysroot?: string
+  /** Distfiles declared by the manifest */
+  distfiles: RuyiDistfileDecl[]
+  /** Names of the distfiles installed on the current host, if binary */
+  hostDistfiles?: string[]
+}
+
+export interface PackageDetails {
+  /** Full name, "<category>/<name>" */
+  name: string
+  category: string
+  versions: PackageVersionDetails[]
+}
+
+/**
+ * A workspace venv that uses some versions of a package.
+ */
+export interface PackageUsage {
+  venv: VenvInfo
+  versions: string[]
+  /** Profile the venv was created for */
+  profile?: string
+}
+
+/**
+ * Parse `ruyi --porcelain list --verbose` output into package details.
+ */
+export function parsePackageDetails(output: string): PackageDetails[] {
+  const host = currentHost()
+
+  return parsePorcelain<RuyiListOutput>(output, 'pkglistoutput-v1').map(item => ({
+    name: `${item.category}/${item.name}`,
+    category: item.category,
+    versions: item.vers.map((v) => {
+      const slugRemark = v.remarks.find(r => r.startsWith('slug:'))
+      return {
+        version: v.semver,
+        remarks: v.remarks,
+        isInstalled: v.is_installed,
+        isDownloaded: v.is_downloaded,
+        downloadSize: v.download_size_host_bytes,
+        installSize: v.install_size,
+        desc: v.pm?.metadata?.desc,
+        vendor: v.pm?.metadata?.vendor?.name,
+        slug: v.pm?.metadata?.slug || (slugRemark ? slugRemark.substring(5).trim() : undefined),
+        target: v.pm?.toolchain?.target,
+        quirks: v.pm?.toolchain?.quirks ?? [],
+        includedSysroot: v.pm?.toolchain?.included_sysroot,
+        distfiles: v.pm?.distfiles ?? [],
+        hostDistfiles: v.pm?.binary?.find(binary => binary.host === host)?.distfiles ?? v.pm?.blob?.distfiles,
+      }
+    }),
+  }))
+}
+
+/**
+ * Fetch the full manifest of every version of a package.
+ * @param name Full package name, "<category>/<name>"
+ * @returns The details, or null if ruyi does not know the package
+ * @throws Error if the ruyi command fails
+ */
+export async function getPackageDetailsFromRuyi(name: string): Promise<PackageDetails | null> {
+  const [category, ...rest] = name.split('/')
+  const shortName = rest.join('/')
+  const categoryIs = PACKAGE_CATEGORIES.includes(category as PackageCategory) ? category as PackageCategory : undefined
+
+  const result = await ruyi.timeout(60_000).list({ verbose: true, categoryIs, nameContains: shortName || name })
+  if (result.code !== 0) {
+    logger.error(`Failed to get details of ${name}: ${result.stderr}`)
+    throw new Error(result.stderr.trim() || `ruyi list exited with code ${result.code}`)
+  }
+
+  return parsePackageDetails(result.stdout).find(pkg => pkg.name === name) ?? null
+}
+
+export interface VenvConfig {
+  venv: VenvInfo
+  /** Concatenated content of the venv's `ruyi-*.toml` files */
+  content: string
+}
+
+/**
+ * Read the configuration of every workspace venv.
+ */
+export async function readVenvConfigs(): Promise<VenvConfig[]> {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+  if (!workspaceRoot) {
+    return []
+  }
+
+  const configs: VenvConfig[] = []
+  for (const venv of await scanWorkspaceForVenvs()) {
+    const venvDir = path.join(workspaceRoot, venv.path)
+    let content = ''
+    try {
+      const files = (await fs.promises.readdir(venvDir)).filter(file => file.startsWith('ruyi-') && file.endsWith('.toml'))
+      for (const file of files) {
+        content += await fs.promises.readFile(path.join(venvDir, file), 'utf8')
+      }
+    }
+    catch (error) {
+      logger.warn(`Failed to read venv config in ${venvDir}:`, error)
+      continue
+    }
+    configs.push({ venv, content })
+  }
+  return configs
+}
+
+/**
+ * Split a TOML file into its tables, e.g. "cached_v2.targets.<target>".
+ */
+export function parseTomlTables(content: string): Map<string, Record<string, string>> {
+  const tables = new Map<string, Record<string, string>>()
+  let current: Record<string, string> = {}
+  tables.set('', current)
+  for (const line of content.split('\n')) {
+    const header = /^\s*\[([^\]]+)\]\s*$/.exec(line)
+    if (header) {
+      const name = header[1].replace(/"/g, '').trim()
+      current = tables.get(name) ?? {}
+      tables.set(name, current)
+      continue
+    }
+    const entry = /^\s*([\w-]+)\s*=\s*["'](.*)["']\s*$/.exec(line)
+    if (entry) {
+      current[entry[1]] = entry[2]
+    }
+  }
+  return tables
+}
+
+/**
+ * Whether a venv configuration refers to an install of the package version.
+ * Ruyi installs each version into a "<name>-<version>" directory, which
+ * venvs reference by absolute path in their TOML files.
+ */
+function configUsesVersion(content: string, shortName: string, version: string): boolean {
+  return new RegExp(`[/\\\\]${escapeRegExp(`${shortName}-${version}`)}(?:[/\\\\"']|$)`, 'm').test(content)
+}
+
+/**
+ * Find the workspace venvs whose configuration refers to an install of the
+ * package.
+ * @param name Full package name, "<category>/<name>"
+ * @param versions Versions to look for, usually the installed ones
+ */
+export async function findVenvsUsingPackage(name: string, versions: string[]): Promise<PackageUsage[]> {
+  if (versions.length === 0) {
+    return []
+  }
+
+  const shortName = name.split('/').pop() || name
+  const usages: PackageUsage[] = []
+
+  for (const config of await readVenvConfigs()) {
+    const used = versions.filter(version => configUsesVersion(config.content, shortName, version))
+    if (used.length > 0) {
+      usages.push({ venv: config.venv, versions: used, profile: venvProfile(config) })
+    }
+  }
+
+  return usages
+}
+
+/**
+ * Map the installed package versions to the workspace venvs using them.
+ * @returns Venv configs by "<name>@<version>", for used versions only
+ */
+export async function mapPackagesToVenvs(packages: RuyiPackage[]): Promise<Map<string, VenvConfig[]>> {
+  const configs = await readVenvConfigs()
+  const usage = new Map<string, VenvConfig[]>()
+  if (configs.length === 0) {
+    return usage
+  }
+
+  for (const pkg of packages) {
+    const shortName = pkg.name.split('/').pop() || pkg.name
+    for (const { version, isInstalled } of pkg.versions) {
+      const users = isInstalled ? configs.filter(config => configUsesVersion(config.content, shortName, version)) : []
+      if (users.length > 0) {
+        usage.set(`${pkg.name}@${version}`, users)
+      }
+    }
+  }
+  return usage
+}
+
+/**
+ * Find the installed package versions any workspace venv refers to.
+ * @returns Full package names with the versions in use
+ */
+export async function findPackagesUsedByVenvs(packages: RuyiPackage[]): Promise<{ name: string, version: string }[]> {
+  return [...(await mapPackagesToVenvs(packages)).keys()].map((key) => {
+    const at = key.lastIndexOf('@')
+    return { name: key.slice(0, at), version: key.slice(at + 1) }
+  })
+}
+
+/**
+ * The profile a venv was created for, from its `ruyi-venv.toml`.
+ */
+export function venvProfile(config: VenvConfig): string | undefined {
+  return /^\s*profile\s*=\s*["']([^"']+)["']/m.exec(config.content)?.[1]
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,318 @@
+// SPDX-License-Identifier: Apache-2.0
+
+import { randomUUID } from 'crypto'
+import * as vscode from 'vscode'
+
+import { escapeHtml } from '../news/news-cards.view'
+
+import type { PackageDetails, PackageUsage, PackageVersionDetails } from './package-details.helper'
+import { formatSize } from './package.helper'
+
+function createButtonHtml(action: string, version: string, label: string, secondary = false): string {
+  return `<button class="btn${secondary ? ' secondary' : ''}" data-action="${action}" data-version="${escapeHtml(version)}">${label}</button>`
+}
+
+function createFieldHtml(label: string, value: string | undefined): string {
+  return value ? `<div class="field"><span class="field-label">${label}</span><span>${value}</span></div>` : ''
+}
+
+function createDistfileHtml(distfile: PackageVersionDetails['distfiles'][number], forHost: boolean): string {
+  const checksums = Object.entries(distfile.checksums)
+    .map(([algorithm, sum]) => `<div class="checksum"><span class="field-label">${escapeHtml(algorithm)}</span><code>${escapeHtml(sum)}</code></div>`)
+    .join('')
+  const urls = (distfile.urls ?? [])
+    .filter(url => /^https?:\/\//.test(url))
+    .map(url => `<div><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></div>`)
+    .join('')
+  const restrict = distfile.restrict?.length ? ` <span class="badge warn">${escapeHtml(distfile.restrict.join(', '))}</span>` : ''
+  const host = forHost ? ` <span class="badge">${vscode.l10n.t('this host')}</span>` : ''
+
+  return `<tr>
+      <td><code>${escapeHtml(distfile.name)}</code>${host}${restrict}</td>
+      <td class="size">${formatSize(distfile.size)}</td>
+      <td>${checksums}${urls}</td>
+    </tr>`
+}
+
+function createVersionHtml(details: PackageDetails, v: PackageVersionDetails, selected: boolean): string {
+  const badges = v.remarks
+    .map(remark => `<span class="badge${remark === 'latest' ? ' accent' : ''}">${escapeHtml(remark)}</span>`)
+    .join('')
+
+  const actions = v.isInstalled
+    ? createButtonHtml('uninstall', v.version, vscode.l10n.t('Uninstall'), true)
+    + createButtonHtml('reinstall', v.version, vscode.l10n.t('Reinstall'), true)
+    : createButtonHtml('install', v.version, vscode.l10n.t('Install'))
+
+  const distfiles = v.distfiles.length > 0
+    ? `<table>
+      <thead><tr><th>${vscode.l10n.t('Distfile')}</th><th>${vscode.l10n.t('Size')}</th><th>${vscode.l10n.t('Checksums and URLs')}</th></tr></thead>
+      <tbody>${v.distfiles.map(distfile => createDistfileHtml(distfile, v.hostDistfiles?.includes(distfile.name) ?? false)).join('')}</tbody>
+    </table>`
+    : ''
+
+  return `<section class="version${selected ? ' selected' : ''}" id="v-${escapeHtml(v.version)}">
+    <div class="version-header">
+      <div>
+        <span class="version-title">${escapeHtml(v.version)}</span>
+        ${v.isInstalled ? `<span class="badge ok">${vscode.l10n.t('Installed')}</span>` : ''}
+        ${badges}
+      </div>
+      <div class="controls">
+        ${actions}
+        ${createButtonHtml('copyId', v.version, vscode.l10n.t('Copy ID'), true)}
+      </div>
+    </div>
+    ${v.desc && v.desc !== details.versions[0]?.desc ? `<p>${escapeHtml(v.desc)}</p>` : ''}
+    <div class="fields">
+      ${createFieldHtml(vscode.l10n.t('Download size'), v.downloadSize !== undefined ? formatSize(v.downloadSize) : undefined)}
+      ${createFieldHtml(vscode.l10n.t('Install size'), v.installSize !== undefined ? formatSize(v.installSize) : undefined)}
+      ${createFieldHtml(vscode.l10n.t('Slug'), v.slug && escapeHtml(v.slug))}
+      ${createFieldHtml(vscode.l10n.t('Target'), v.target && escapeHtml(v.target))}
+      ${createFieldHtml(vscode.l10n.t('Quirks'), v.quirks.length > 0 ? escapeHtml(v.quirks.join(', ')) : undefined)}
+      ${createFieldHtml(vscode.l10n.t('Included sysroot'), v.includedSysroot && escapeHtml(v.includedSysroot))}
+    </div>
+    ${distfiles}
+  </section>`
+}
+
+function createUsageHtml(usages: PackageUsage[]): string {
+  if (usages.length === 0) {
+    return ''
+  }
+
+  const links = usages.map(({ venv, versions }) => `<li>
+      <a href="#" class="venv-link" data-path="${escapeHtml(venv.path)}">${escapeHtml(venv.path)}</a>
+      <span class="muted">(${escapeHtml(versions.join(', '))})</span>
+      <a href="#" class="venv-activate" data-path="${escapeHtml(venv.path)}">${vscode.l10n.t('Activate')}</a>
+    </li>`).join('')
+
+  return `<div class="usage">
+    <h3>${vscode.l10n.t('Used by virtual environments')}</h3>
+    <ul>${links}</ul>
+  </div>`
+}
+
+export function getDetailsHtml(
+  webview: vscode.Webview,
+  details: PackageDetails,
+  usages: PackageUsage[],
+  selectedVersion?: string,
+): string {
+  const nonce = randomUUID()
+  const csp = [
+    `default-src 'none';`,
+    `style-src 'unsafe-inline' ${webview.cspSource};`,
+    `script-src 'nonce-${nonce}';`,
+  ].join(' ')
+
+  const latest = details.versions.find(v => v.remarks.includes('latest')) ?? details.versions[0]
+  const displayName = details.name.split('/').slice(1).join('/') || details.name
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(details.name)}</title>
+<style>
+  body {
+    font-family: var(--vscode-font-family);
+    background-color: var(--vscode-editor-background);
+    color: var(--vscode-editor-foreground);
+    margin: 0;
+    padding: 16px 24px;
+    max-width: 1000px;
+  }
+  .header {
+    margin-bottom: 20px;
+    padding-bottom: 16px;
+    border-bottom: 1px solid var(--vscode-panel-border);
+  }
+  .title {
+    font-size: 22px;
+    font-weight: 600;
+  }
+  .muted, .subtitle {
+    color: var(--vscode-descriptionForeground);
+  }
+  .subtitle {
+    font-family: var(--vscode-editor-font-family);
+    font-size: 12px;
+    margin-top: 4px;
+  }
+  .desc {
+    margin-top: 12px;
+    line-height: 1.5;
+  }
+  .controls {
+    display: flex;
+    gap: 8px;
+  }
+  .btn {
+    padding: 4px 12px;
+    border: 1px solid var(--vscode-button-border, transparent);
+    background-color: var(--vscode-button-background);
+    color: var(--vscode-button-foreground);
+    border-radius: 2px;
+    cursor: pointer;
+    font-size: 12px;
+  }
+  .btn:hover {
+    background-color: var(--vscode-button-hoverBackground);
+  }
+  .btn.secondary {
+    background-color: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+  }
+  .btn.secondary:hover {
+    background-color: var(--vscode-button-secondaryHoverBackground);
+  }
+  .btn:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+  .usage ul {
+    margin: 4px 0 0;
+    padding-left: 20px;
+  }
+  .usage h3, .versions-title {
+    font-size: 14px;
+    font-weight: 600;
+    margin: 0 0 8px;
+  }
+  .usage {
+    margin-bottom: 20px;
+  }
+  a {
+    color: var(--vscode-textLink-foreground);
+    text-decoration: none;
+  }
+  a:hover {
+    text-decoration: underline;
+  }
+  .version {
+    border: 1px solid var(--vscode-panel-border);
+    border-radius: 6px;
+    padding: 12px 16px;
+    margin-bottom: 12px;
+  }
+  .version.selected {
+    border-color: var(--vscode-focusBorder);
+  }
+  .version-header {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    flex-wrap: wrap;
+    gap: 8px;
+  }
+  .version-title {
+    font-size: 15px;
+    font-weight: 600;
+    font-family: var(--vscode-editor-font-family);
+    margin-right: 8px;
+  }
+  .badge {
+    display: inline-block;
+    font-size: 11px;
+    padding: 1px 6px;
+    margin-right: 4px;
+    border-radius: 8px;
+    background-color: var(--vscode-badge-background);
+    color: var(--vscode-badge-foreground);
+  }
+  .badge.accent {
+    background-color: var(--vscode-progressBar-background);
+  }
+  .badge.ok {
+    background-color: var(--vscode-testing-iconPassed);
+  }
+  .badge.warn {
+    background-color: var(--vscode-problemsWarningIcon-foreground);
+  }
+  .fields {
+    display: grid;
+    grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+    gap: 4px 16px;
+    margin-top: 8px;
+    font-size: 12px;
+  }
+  .field-label {
+    color: var(--vscode-descriptionForeground);
+    margin-right: 6px;
+  }
+  table {
+    width: 100%;
+    border-collapse: collapse;
+    margin-top: 12px;
+    font-size: 12px;
+  }
+  th, td {
+    text-align: left;
+    vertical-align: top;
+    padding: 4px 8px;
+    border-top: 1px solid var(--vscode-panel-border);
+  }
+  td.size {
+    white-space: nowrap;
+  }
+  code {
+    font-family: var(--vscode-editor-font-family);
+    word-break: break-all;
+  }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div class="title">${escapeHtml(displayName)}</div>
+    <div class="subtitle">${escapeHtml(details.name)}${latest?.vendor ? ` · ${escapeHtml(latest.vendor)}` : ''}</div>
+    ${latest?.desc ? `<div class="desc">${escapeHtml(latest.desc)}</div>` : ''}
+  </div>
+  ${createUsageHtml(usages)}
+  <div class="versions-title">${vscode.l10n.t('Versions ({0})', details.versions.length)}</div>
+  ${details.versions.map(v => createVersionHtml(details, v, v.version === selectedVersion)).join('')}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button[data-action]').forEach(button => {
+      button.addEventListener('click', () => {
+        if (button.dataset.action !== 'copyId') {
+          document.querySelectorAll('button[data-action]').forEach(b => b.disabled = true);
+        }
+        vscode.postMessage({ type: button.dataset.action, version: button.dataset.version });
+      });
+    });
+    document.querySelectorAll('.venv-link').forEach(link => {
+      link.addEventListener('click', event => {
+        event.preventDefault();
+        vscode.postMessage({ type: 'openVenv', path: link.dataset.path });
+      });
+    });
+    document.querySelectorAll('.venv-activate').forEach(link => {
+      link.addEventListener('click', event => {
+        event.preventDefault();
+        vscode.postMessage({ type: 'activateVenv', path: link.dataset.path });
+      });
+    });
+    document.querySelector('.version.selected')?.scrollIntoView({ block: 'center' });
+  </script>
+</body>
+</html>`
+}
+
+export function getDetailsErrorHtml(message: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Error</title>
+</head>
+<body>
+  <div style="padding: 20px; color: var(--vscode-errorForeground);">
+    <h3>${vscode.l10n.t('Failed to load package details')}</h3>
+    <p>${escapeHtml(message)}</p>
+  </div>
+</body>
+</html>`
+}
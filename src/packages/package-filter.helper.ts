@@ -0,0 +1,218 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Packages Module - Filter Helper
+ *
+ * Provides stateless helpers for the package tree's search and facets:
+ * fuzzy matching, per-version filters, sort modes and a short summary of
+ * the active filters for the view description.
+ */
+
+import * as vscode from 'vscode'
+
+import { compareVersions, formatSize } from './package.helper'
+import type { RuyiPackage, RuyiPackageVersion } from './package.service'
+
+export type PackageSizeRange = 'small' | 'medium' | 'large'
+
+export type PackageSortMode
+  = | 'name'
+    | 'version'
+    | 'size'
+    | 'installed'
+
+export interface PackageFilters {
+  /** Fuzzy search on the full package name */
+  query: string
+  installedOnly: boolean
+  /** Only versions with a binary for the current host */
+  binaryOnly: boolean
+  hidePrereleases: boolean
+  /** Only toolchains providing all of these quirks */
+  quirks: string[]
+  /** Only toolchains that include a sysroot */
+  sysrootOnly: boolean
+  /** Only versions in any of these size ranges */
+  sizes: PackageSizeRange[]
+}
+
+export const DEFAULT_FILTERS: PackageFilters = {
+  query: '',
+  installedOnly: false,
+  binaryOnly: false,
+  hidePrereleases: false,
+  quirks: [],
+  sysrootOnly: false,
+  sizes: [],
+}
+
+const MB = 1000 * 1000
+
+/** Bounds of the size ranges in bytes, lower bound inclusive */
+export const SIZE_RANGES: Record<PackageSizeRange, [min: number, max: number]> = {
+  small: [0, 100 * MB],
+  medium: [100 * MB, 1000 * MB],
+  large: [1000 * MB, Infinity],
+}
+
+export function describeSizeRange(range: PackageSizeRange): string {
+  const [min, max] = SIZE_RANGES[range]
+  if (min === 0) return vscode.l10n.t('Under {0}', formatSize(max))
+  if (max === Infinity) return vscode.l10n.t('Over {0}', formatSize(min))
+  return `${formatSize(min)} – ${formatSize(max)}`
+}
+
+export function describeSortMode(mode: PackageSortMode): string {
+  switch (mode) {
+    case 'version':
+      return vscode.l10n.t('Newest version')
+    case 'size':
+      return vscode.l10n.t('Size')
+    case 'installed':
+      return vscode.l10n.t('Recently installed')
+    default:
+      return vscode.l10n.t('Name')
+  }
+}
+
+/**
+ * Whether any filter besides the defaults is active.
+ */
+export function hasActiveFilters(filters: PackageFilters): boolean {
+  return !!filters.query
+    || filters.installedOnly
+    || filters.binaryOnly
+    || filters.hidePrereleases
+    || filters.quirks.length > 0
+    || filters.sysrootOnly
+    || filters.sizes.length > 0
+}
+
+/**
+ * Score how well `text` matches `query` as a subsequence. Consecutive
+ * characters and matches at word starts score higher.
+ * @returns The score, or null if not all query characters occur in order
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, '')
+  const t = text.toLowerCase()
+  if (!q) return 0
+
+  let score = 0
+  let lastIndex = -1
+  for (const char of q) {
+    const index = t.indexOf(char, lastIndex + 1)
+    if (index === -1) return null
+
+    if (index === lastIndex + 1) score += 3
+    if (index === 0 || /[/\-_.]/.test(t[index - 1])) score += 2
+    score -= Math.min(index - lastIndex - 1, 3)
+    lastIndex = index
+  }
+  return score
+}
+
+/** The size a version takes, preferring the installed size */
+export function versionSize(version: RuyiPackageVersion): number | undefined {
+  return version.installSize ?? version.downloadSize
+}
+
+function matchesVersion(version: RuyiPackageVersion, filters: PackageFilters): boolean {
+  if (filters.installedOnly && !version.isInstalled) return false
+  if (filters.binaryOnly && !version.isBinaryAvailable) return false
+  if (filters.hidePrereleases && version.isPrerelease) return false
+  if (filters.sysrootOnly && !version.includedSysroot) return false
+  if (!filters.quirks.every(quirk => version.quirks.includes(quirk))) return false
+  if (filters.sizes.length > 0) {
+    const size = versionSize(version)
+    if (size === undefined) return false
+    return filters.sizes.some((range) => {
+      const [min, max] = SIZE_RANGES[range]
+      return size >= min && size < max
+    })
+  }
+  return true
+}
+
+/**
+ * Apply the filters to the packages, keeping only matching versions and
+ * dropping packages without any.
+ * @returns The matching packages with their fuzzy score
+ */
+export function filterPackages(packages: RuyiPackage[], filters: PackageFilters): { pkg: RuyiPackage, score: number }[] {
+  const matches: { pkg: RuyiPackage, score: number }[] = []
+  for (const pkg of packages) {
+    const score = fuzzyScore(filters.query, pkg.name)
+    if (score === null) continue
+
+    const versions = pkg.versions.filter(version => matchesVersion(version, filters))
+    if (versions.length === 0) continue
+
+    matches.push({ pkg: versions.length === pkg.versions.length ? pkg : { ...pkg, versions }, score })
+  }
+  return matches
+}
+
+/**
+ * Sort packages, and the versions within each, by the given mode.
+ * @param installTimes Install time by "<name>@<version>", for 'installed'
+ */
+export function sortPackages(
+  matches: { pkg: RuyiPackage, score: number }[],
+  mode: PackageSortMode,
+  installTimes: ReadonlyMap<string, number> = new Map(),
+): RuyiPackage[] {
+  const byName = (a: RuyiPackage, b: RuyiPackage) => a.name.localeCompare(b.name)
+
+  const versionKey = (pkg: RuyiPackage, version: RuyiPackageVersion): number => {
+    switch (mode) {
+      case 'size':
+        return versionSize(version) ?? -1
+      case 'installed':
+        return installTimes.get(`${pkg.name}@${version.version}`) ?? -1
+      default:
+        return 0
+    }
+  }
+
+  const sorted = matches.map(({ pkg, score }) => {
+    if (mode === 'name') {
+      return { pkg, score, key: 0 }
+    }
+    const versions = [...pkg.versions].sort((a, b) => mode === 'version'
+      ? compareVersions(b.version, a.version)
+      : versionKey(pkg, b) - versionKey(pkg, a))
+    return { pkg: { ...pkg, versions }, score, key: versions.length > 0 ? versionKey(pkg, versions[0]) : -1 }
+  })
+
+  return sorted
+    .sort((a, b) => {
+      switch (mode) {
+        case 'version':
+          return compareVersions(b.pkg.versions[0]?.version ?? '', a.pkg.versions[0]?.version ?? '') || byName(a.pkg, b.pkg)
+        case 'size':
+        case 'installed':
+          return b.key - a.key || byName(a.pkg, b.pkg)
+        default:
+          // Best fuzzy match first when searching
+          return b.score - a.score || byName(a.pkg, b.pkg)
+      }
+    })
+    .map(({ pkg }) => pkg)
+}
+
+/**
+ * Summarize the active filters and sort mode, e.g. for the view description.
+ * @returns The summary, or undefined when nothing is active
+ */
+export function describeFilters(filters: PackageFilters, mode: PackageSortMode): string | undefined {
+  const parts: string[] = []
+  if (filters.query) parts.push(vscode.l10n.t(`Searching '{0}'`, filters.query))
+  if (filters.installedOnly) parts.push(vscode.l10n.t('installed'))
+  if (filters.binaryOnly) parts.push(vscode.l10n.t('has binary'))
+  if (filters.hidePrereleases) parts.push(vscode.l10n.t('no prereleases'))
+  if (filters.sysrootOnly) parts.push(vscode.l10n.t('with sysroot'))
+  if (filters.quirks.length > 0) parts.push(vscode.l10n.t('quirks: {0}', filters.quirks.join(', ')))
+  if (filters.sizes.length > 0) parts.push(filters.sizes.map(describeSizeRange).join(' | '))
+  if (mode !== 'name') parts.push(vscode.l10n.t('sorted by {0}', describeSortMode(mode).toLowerCase()))
+  return parts.length > 0 ? parts.join(' · ') : undefined
+}
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { PackageJobsService, packageSpec, type PackageJob, type PackageJobStatus } from './package-jobs.service'
+
+export class PackageJobsTreeProvider implements vscode.TreeDataProvider<PackageJobItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+  private readonly disposables: vscode.Disposable[] = [this._onDidChangeTreeData]
+
+  constructor(private readonly service: PackageJobsService) {
+    this.disposables.push(service.onDidChangeJobs(() => {
+      void vscode.commands.executeCommand('setContext', 'ruyi.packages.hasJobs', service.getJobs().length > 0)
+      this._onDidChangeTreeData.fire()
+    }))
+  }
+
+  getTreeItem(element: PackageJobItem): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: PackageJobItem): PackageJobItem[] {
+    if (element) {
+      return []
+    }
+    // Most recent batch first, each in queue order
+    return [...this.service.getJobs()]
+      .sort((a, b) => b.id - a.id)
+      .map(job => new PackageJobItem(job))
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose())
+  }
+}
+
+function describeStatus(status: PackageJobStatus): string {
+  switch (status) {
+    case 'queued':
+      return vscode.l10n.t('Queued')
+    case 'running':
+      return vscode.l10n.t('Running')
+    case 'succeeded':
+      return vscode.l10n.t('Done')
+    case 'failed':
+      return vscode.l10n.t('Failed')
+    default:
+      return vscode.l10n.t('Cancelled')
+  }
+}
+
+function statusIcon(status: PackageJobStatus): vscode.ThemeIcon {
+  switch (status) {
+    case 'queued':
+      return new vscode.ThemeIcon('clock', new vscode.ThemeColor('testing.iconQueued'))
+    case 'running':
+      return new vscode.ThemeIcon('loading~spin')
+    case 'succeeded':
+      return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+    case 'failed':
+      return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))
+    default:
+      return new vscode.ThemeIcon('circle-slash')
+  }
+}
+
+export class PackageJobItem extends vscode.TreeItem {
+  constructor(public readonly job: PackageJob) {
+    super(`${job.name.split('/').pop() || job.name} ${job.version}`, vscode.TreeItemCollapsibleState.None)
+
+    const action = job.action === 'install' ? vscode.l10n.t('Install') : vscode.l10n.t('Uninstall')
+    this.description = `${action} · ${describeStatus(job.status)}`
+    this.tooltip = job.error
+      ? `${packageSpec(job)}\n${job.error.message}`
+      : packageSpec(job)
+    this.iconPath = statusIcon(job.status)
+    this.contextValue = `ruyiPackageJob.${job.status}`
+    if (job.error) {
+      this.command = {
+        command: 'ruyi.packages.showJobError',
+        title: vscode.l10n.t('Show Error'),
+        arguments: [this],
+      }
+    }
+  }
+}
@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Packages Module - Job Queue
+ *
+ * Runs batches of package installs and uninstalls one package at a time,
+ * so that a failure only affects its own package, and keeps the status of
+ * every job for the Package Jobs view.
+ */
+
+import * as vscode from 'vscode'
+
+import { createQueueReporter } from '../common/helpers'
+import { logger } from '../common/logger'
+import ruyi, { RuyiError, type RuyiInitiator, type RuyiResult } from '../ruyi'
+
+import { findTargetInstalledVersions } from './package.helper'
+
+export type PackageJobAction = 'install' | 'uninstall'
+
+export type PackageJobStatus
+  = | 'queued'
+    | 'running'
+    | 'succeeded'
+    | 'failed'
+    | 'cancelled'
+
+export interface PackageJobTarget {
+  /** Full package name, "<category>/<name>" */
+  name: string
+  version: string
+  downloadSize?: number
+}
+
+export interface PackageJob extends PackageJobTarget {
+  id: number
+  action: PackageJobAction
+  status: PackageJobStatus
+  error?: RuyiError
+}
+
+export interface PackageJobSummary {
+  succeeded: PackageJob[]
+  failed: PackageJob[]
+  cancelled: PackageJob[]
+}
+
+export function packageSpec(job: PackageJobTarget): string {
+  return `${job.name}(==${job.version})`
+}
+
+export class PackageJobsService implements vscode.Disposable {
+  private jobs: PackageJob[] = []
+  private nextId = 1
+  private _onDidChangeJobs = new vscode.EventEmitter<void>()
+  readonly onDidChangeJobs = this._onDidChangeJobs.event
+
+  getJobs(): readonly PackageJob[] {
+    return this.jobs
+  }
+
+  hasPendingJobs(): boolean {
+    return this.jobs.some(job => job.status === 'queued' || job.status === 'running')
+  }
+
+  /**
+   * Forget finished jobs.
+   */
+  clearFinished(): void {
+    this.jobs = this.jobs.filter(job => job.status === 'queued' || job.status === 'running')
+    this._onDidChangeJobs.fire()
+  }
+
+  /**
+   * Queue a batch of jobs and run them in order. A failed job does not stop
+   * the batch; cancelling stops a running install, lets a running uninstall
+   * finish, and skips the rest.
+   * @param onJobFinished Called after each job, e.g. to update the tree
+   * @param initiator Recorded in the install journal
+   */
+  async run(
+    action: PackageJobAction,
+    targets: PackageJobTarget[],
+    progress: vscode.Progress<{ message?: string, increment?: number }>,
+    token: vscode.CancellationToken,
+    onJobFinished?: (job: PackageJob) => void,
+    initiator: RuyiInitiator = 'tree',
+  ): Promise<PackageJobSummary> {
+    const batch: PackageJob[] = targets.map(target => ({ ...target, id: this.nextId++, action, status: 'queued' }))
+    this.jobs.push(...batch)
+    this._onDidChangeJobs.fire()
+
+    for (const [index, job] of batch.entries()) {
+      if (token.isCancellationRequested) {
+        this.setStatus(job, 'cancelled')
+        continue
+      }
+
+      const message = vscode.l10n.t('({0}/{1}) {2} {3}', index + 1, batch.length, job.name, job.version)
+      progress.report({ message })
+      this.setStatus(job, 'running')
+
+      // Cancelling must not remove a version the user already had, nor one
+      // that may be installed where ruyi runs
+      const installedBefore = action === 'install' ? await findTargetInstalledVersions(job.name) : []
+      const wasInstalled = !installedBefore || installedBefore.includes(job.version)
+      const reportQueued = createQueueReporter(progress, message)
+      let result: RuyiResult
+      if (action === 'install') {
+        result = await ruyi
+          .timeout(300_000)
+          .token(token)
+          .initiator(initiator)
+          .onQueued(reportQueued)
+          .install(packageSpec(job))
+      }
+      else {
+        // Killing `ruyi uninstall` midway leaves a half-removed package that
+        // ruyi still lists, so it can only be cancelled while queued
+        const controller = new AbortController()
+        let started = false
+        const cancellation = token.onCancellationRequested(() => {
+          if (!started) {
+            controller.abort()
+          }
+        })
+        try {
+          result = await ruyi
+            .timeout(60_000)
+            .signal(controller.signal)
+            .initiator(initiator)
+            .onQueued((position) => {
+              started ||= position === 0
+              reportQueued(position)
+            })
+            .uninstall(packageSpec(job))
+        }
+        finally {
+          cancellation.dispose()
+        }
+      }
+
+      if (result.cancelled) {
+        this.setStatus(job, 'cancelled')
+        if (action === 'install' && !result.notStarted && !wasInstalled) {
+          await cleanupCancelledInstall(packageSpec(job))
+        }
+      }
+      else if (result.code === 0) {
+        this.setStatus(job, 'succeeded')
+      }
+      else {
+        job.error = new RuyiError(result)
+        logger.error(`Failed to ${action} ${packageSpec(job)}:\n${job.error.fullOutput}`)
+        this.setStatus(job, 'failed')
+      }
+
+      progress.report({ increment: 100 / batch.length })
+      onJobFinished?.(job)
+    }
+
+    return {
+      succeeded: batch.filter(job => job.status === 'succeeded'),
+      failed: batch.filter(job => job.status === 'failed'),
+      cancelled: batch.filter(job => job.status === 'cancelled'),
+    }
+  }
+
+  private setStatus(job: PackageJob, status: PackageJobStatus): void {
+    job.status = status
+    this._onDidChangeJobs.fire()
+  }
+
+  dispose(): void {
+    this._onDidChangeJobs.dispose()
+  }
+}
+
+/**
+ * Remove whatever a cancelled install may have left behind. Only call this
+ * if `ruyi install` was started and the version was not installed before.
+ * Ruyi only records a package as installed once extraction finishes, so this
+ * is best-effort: a failure here just means there was nothing to clean up.
+ * @param spec The package spec passed to `ruyi install`
+ */
+export async function cleanupCancelledInstall(spec: string): Promise<void> {
+  const result = await ruyi.timeout(60_000).initiator('cleanup').uninstall(spec)
+  if (result.code === 0) {
+    logger.info(`Removed partial installation of ${spec}`)
+  }
+  else {
+    logger.debug(`No partial installation of ${spec} to clean up: ${result.stderr}`)
+  }
+}
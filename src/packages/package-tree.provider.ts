@@ -1,83 +1,293 @@
 // SPDX-License-Identifier: Apache-2.0
+import * as fs from 'fs'
+import * as path from 'path'
 import * as vscode from 'vscode'
 
+import { configuration } from '../common/configuration'
+import { CONFIG_KEYS } from '../common/constants'
+import { getExecutor } from '../common/executor'
+import { fullKey } from '../common/helpers'
 import { logger } from '../common/logger.js'
 import type { PackageCategory } from '../ruyi'
-
-import { formatSize } from './package.helper.js'
-import { RuyiPackage, RuyiPackageVersion, PackageService } from './package.service'
+import { VenvService } from '../venv/venv.service'
+
+import {
+  clearVersionCache,
+  findPackageBinaries,
+  listPackageDir,
+  probeBinaryVersion,
+  type PackageFileEntry,
+} from './package-contents.helper'
+import { mapPackagesToVenvs, type VenvConfig } from './package-details.helper'
+import {
+  DEFAULT_FILTERS,
+  describeFilters,
+  filterPackages,
+  hasActiveFilters,
+  sortPackages,
+  type PackageFilters,
+  type PackageSortMode,
+} from './package-filter.helper'
+import { currentHost, findInstallDir, findPackageUpdates, formatSize, packagesForHost, type PackageUpdate } from './package.helper.js'
+import { RuyiPackage, RuyiPackageVersion, PackageService, type PackageIndexDiff } from './package.service'
+
+/** Workspace state key of the persisted filters and sort mode */
+const FILTER_STATE_KEY = 'ruyi.packages.filters'
 
 // Define tree node types
-type TreeElement = PackageCategoryItem | PackageItem | VersionItem
+type TreeElement
+  = | UpdatesItem
+    | UpdateItem
+    | PackageCategoryItem
+    | PackageItem
+    | VersionItem
+    | PackageBinariesItem
+    | PackageBinaryItem
+    | PackageFileItem
 
 export class PackagesTreeProvider implements
   vscode.TreeDataProvider<TreeElement> {
-  private _onDidChangeTreeData = new vscode.EventEmitter<void>()
+  private _onDidChangeTreeData = new vscode.EventEmitter<TreeElement | undefined | void>()
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event
-  private searchQuery = ''
+  private filters: PackageFilters
+  private sortMode: PackageSortMode
+  /** Host the versions are shown for, by default the current one */
+  private host: string
+  private installTimes: Map<string, number> | null = null
+  private venvUsage: Promise<Map<string, VenvConfig[]>> | null = null
   private treeView?: vscode.TreeView<TreeElement>
   private categoryCache: Map<string, RuyiPackage[]> = new Map()
   private installingPackages: Set<string> = new Set()
-
-  constructor(private packageService: PackageService) { }
+  // Nodes currently rendered, so that index changes can refresh them in place
+  private categoryItems: Map<string, PackageCategoryItem> = new Map()
+  private packageItems: Map<string, PackageItem> = new Map()
+  private updates: PackageUpdate[] = []
+  private updatesItem?: UpdatesItem
+
+  constructor(private packageService: PackageService, private readonly state?: vscode.Memento) {
+    const saved = state?.get<{ filters?: Partial<PackageFilters>, sort?: PackageSortMode, host?: string }>(FILTER_STATE_KEY)
+    this.filters = { ...DEFAULT_FILTERS, ...saved?.filters }
+    this.sortMode = saved?.sort ?? 'name'
+    this.host = saved?.host ?? currentHost()
+
+    packageService.onDidInvalidate(() => void this.shallowRefresh())
+    VenvService.instance.onDidChangeVenv(() => this.refreshVenvUsage())
+    configuration.registerConfigChangeHandler((event) => {
+      if (event.affectsConfiguration(fullKey(CONFIG_KEYS.PACKAGES_PRERELEASE_UPDATES))) {
+        this._onDidChangeTreeData.fire()
+      }
+    })
+  }
 
   setTreeView(treeView: vscode.TreeView<TreeElement>): void {
     this.treeView = treeView
+    this.updateTreeViewTitle()
+  }
+
+  /**
+   * Render the package index as soon as it is available (possibly from
+   * cache), then revalidate it in the background if it may be outdated.
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.packageService.getCategories()
+      this._onDidChangeTreeData.fire()
+
+      if (await this.packageService.needsRevalidation()) {
+        await this.shallowRefresh()
+      }
+    }
+    catch (err) {
+      logger.error('Failed to initialize packages:', err)
+    }
   }
 
   /**
-   * Refresh the tree view and force data refresh.
+   * Reload the package index from the CLI and update the changed nodes only,
+   * keeping expanded nodes open.
    */
   async shallowRefresh(): Promise<void> {
+    let diff: PackageIndexDiff | null = null
     try {
-      // Clear category cache on refresh
-      this.categoryCache.clear()
-      // Force a single refresh from CLI and rebuild all caches
-      await this.packageService.getPackages(true)
+      diff = await this.packageService.revalidate()
     }
     catch (err) {
       logger.error('Failed to refresh packages:', err)
     }
     finally {
+      await this.applyDiff(diff)
+    }
+  }
+
+  /**
+   * Refresh the nodes affected by an index change.
+   * @param diff The changes, or null to refresh the whole tree
+   */
+  private async applyDiff(diff: PackageIndexDiff | null): Promise<void> {
+    this.categoryCache.clear()
+    this.installTimes = null
+    this.venvUsage = null
+    clearVersionCache()
+
+    if (!diff || this.isFiltered()) {
       this._onDidChangeTreeData.fire()
+      return
+    }
+
+    const hadUpdates = this.updates.length > 0
+    const updates = await this.loadUpdates()
+    if (hadUpdates !== (updates.length > 0)) {
+      // The updates node appeared or disappeared
+      this._onDidChangeTreeData.fire()
+      return
+    }
+    if (this.updatesItem) {
+      this.updatesItem.setCount(updates.length)
+      this._onDidChangeTreeData.fire(this.updatesItem)
+    }
+
+    for (const pkg of diff.changed) {
+      const item = this.packageItems.get(pkg.name)
+      if (item) {
+        item.update(pkg)
+        this._onDidChangeTreeData.fire(item)
+      }
+    }
+
+    const categories = new Set([...diff.added, ...diff.removed].map(pkg => pkg.category))
+    if (categories.size === 0) {
+      return
+    }
+
+    const counts = new Map((await this.packageService.getCategories()).map(c => [c.category as string, c.count]))
+    for (const category of categories) {
+      const item = this.categoryItems.get(category)
+      const count = counts.get(category)
+      if (!item || count === undefined) {
+        // A category appeared, disappeared or was never rendered
+        this._onDidChangeTreeData.fire()
+        return
+      }
+      item.setCount(count)
+      this._onDidChangeTreeData.fire(item)
+    }
+  }
+
+  /**
+   * Recompute the available updates and show their count on the view.
+   */
+  private async loadUpdates(): Promise<PackageUpdate[]> {
+    this.updates = findPackageUpdates(await this.packageService.getPackages(), configuration.packagesPrereleaseUpdates)
+
+    const count = this.updates.length
+    void vscode.commands.executeCommand('setContext', 'ruyi.packages.hasUpdates', count > 0)
+    if (this.treeView) {
+      this.treeView.badge = count > 0
+        ? { value: count, tooltip: vscode.l10n.t('{0} package update(s) available', count) }
+        : undefined
     }
+    return this.updates
+  }
+
+  /**
+   * Installed packages with a newer version available.
+   */
+  getUpdates(): PackageUpdate[] {
+    return this.updates
   }
 
   /**
    * Set search query and refresh the tree view.
    */
   setSearchQuery(query: string): void {
-    this.searchQuery = query.trim().toLowerCase()
-    this.categoryCache.clear() // Clear cache when search changes
-    this.updateTreeViewTitle()
-    this._onDidChangeTreeData.fire()
+    this.setFilters({ ...this.filters, query: query.trim() })
   }
 
   /**
    * Get current search query.
    */
   getSearchQuery(): string {
-    return this.searchQuery
+    return this.filters.query
+  }
+
+  getFilters(): PackageFilters {
+    return this.filters
+  }
+
+  getSortMode(): PackageSortMode {
+    return this.sortMode
+  }
+
+  /**
+   * Replace the active filters, remember them for the workspace and refresh
+   * the tree view.
+   */
+  setFilters(filters: PackageFilters): void {
+    this.filters = filters
+    this.onFiltersChanged()
+  }
+
+  setSortMode(mode: PackageSortMode): void {
+    this.sortMode = mode
+    this.onFiltersChanged()
+  }
+
+  getHost(): string {
+    return this.host
   }
 
   /**
-   * Clear search query and refresh the tree view.
+   * Show the versions as seen from another host, e.g. to prepare packages
+   * for a board on this machine.
+   */
+  setHost(host: string): void {
+    this.host = host
+    this.onFiltersChanged()
+  }
+
+  isForeignHost(): boolean {
+    return this.host !== currentHost()
+  }
+
+  /**
+   * Clear the search query and all filters.
    */
   clearSearch(): void {
-    this.setSearchQuery('')
+    this.setFilters(DEFAULT_FILTERS)
+  }
+
+  private onFiltersChanged(): void {
+    void this.state?.update(FILTER_STATE_KEY, {
+      filters: this.filters,
+      sort: this.sortMode,
+      host: this.isForeignHost() ? this.host : undefined,
+    })
+    this.categoryCache.clear()
+    this.updateTreeViewTitle()
+    this._onDidChangeTreeData.fire()
+  }
+
+  /**
+   * Whether the tree differs from the plain index, so that nodes cannot be
+   * updated in place.
+   */
+  private isFiltered(): boolean {
+    return hasActiveFilters(this.filters) || this.sortMode !== 'name' || this.isForeignHost()
   }
 
   /**
    * Prepare for search by preloading all packages data.
    * This should be called when user clicks the search button.
+   * @returns All packages, e.g. to offer filter values
    */
-  async prepareForSearch(): Promise<void> {
+  async prepareForSearch(): Promise<RuyiPackage[]> {
     try {
       // Preload all packages so search is instant
-      await this.packageService.getPackages()
+      return await this.packageService.getPackages()
     }
     catch (err) {
       logger.error('Failed to prepare for search:', err)
+      return []
     }
   }
 
@@ -86,9 +296,11 @@ export class PackagesTreeProvider implements
       return
     }
 
-    this.treeView.description = this.searchQuery
-      ? vscode.l10n.t(`Searching '{0}'`, this.searchQuery)
-      : undefined
+    const parts = [
+      this.isForeignHost() ? vscode.l10n.t('host: {0}', this.host) : undefined,
+      describeFilters(this.filters, this.sortMode),
+    ].filter(Boolean)
+    this.treeView.description = parts.length > 0 ? parts.join(' · ') : undefined
   }
 
   getTreeItem(element: TreeElement): vscode.TreeItem {
@@ -96,32 +308,67 @@ export class PackagesTreeProvider implements
   }
 
   /**
-   * Get packages for a specific category (with caching and search filtering).
+   * Get packages for a specific category (with caching, filtering and sorting).
    */
   private async getPackagesForCategory(category: string): Promise<RuyiPackage[]> {
-    const cacheKey = `${category}:${this.searchQuery}`
+    // Filters change together with a cleared cache
+    const cacheKey = category
 
     // Check cache first
     if (this.categoryCache.has(cacheKey)) {
       return this.categoryCache.get(cacheKey)!
     }
 
-    // If searching, we need all packages to filter
-    let packages: RuyiPackage[]
-    if (this.searchQuery) {
-      packages = await this.packageService.getPackages()
-      packages = packages.filter(p =>
-        p.category === category && this.matchesSearch(p),
-      )
-    }
-    else {
-      // Lazy load only this category's packages
-      packages = await this.packageService.getPackagesByCategory(category as PackageCategory)
-    }
+    const packages = await packagesForHost(await this.packageService.getPackagesByCategory(category as PackageCategory), this.host)
+    const installTimes = this.sortMode === 'installed' ? await this.loadInstallTimes(packages) : undefined
+    const result = sortPackages(filterPackages(packages, this.filters), this.sortMode, installTimes)
 
     // Cache the result
-    this.categoryCache.set(cacheKey, packages)
-    return packages
+    this.categoryCache.set(cacheKey, result)
+    return result
+  }
+
+  /**
+   * When each installed version was installed, judging by the modification
+   * time of its install directory.
+   */
+  private async loadInstallTimes(packages: RuyiPackage[]): Promise<Map<string, number>> {
+    this.installTimes ??= new Map()
+    for (const pkg of packages) {
+      for (const version of pkg.versions.filter(v => v.isInstalled)) {
+        const key = `${pkg.name}@${version.version}`
+        if (this.installTimes.has(key)) continue
+
+        const dir = await findInstallDir(pkg.name, version.version, this.host)
+        const stat = dir ? await fs.promises.stat(dir).catch(() => null) : null
+        this.installTimes.set(key, stat?.mtimeMs ?? 0)
+      }
+    }
+    return this.installTimes
+  }
+
+  /**
+   * Workspace venvs by the installed "<name>@<version>" they were created from.
+   */
+  private getVenvUsage(): Promise<Map<string, VenvConfig[]>> {
+    this.venvUsage ??= this.packageService.getPackages()
+      .then(packages => mapPackagesToVenvs(packages))
+      .catch((err) => {
+        logger.error('Failed to map packages to venvs:', err)
+        return new Map()
+      })
+    return this.venvUsage
+  }
+
+  /**
+   * Re-read which venvs use which packages, e.g. after a venv was created
+   * or deleted, and update the rendered versions.
+   */
+  refreshVenvUsage(): void {
+    this.venvUsage = null
+    for (const item of this.packageItems.values()) {
+      this._onDidChangeTreeData.fire(item)
+    }
   }
 
   async getChildren(element?: TreeElement): Promise<TreeElement[]> {
@@ -134,8 +381,12 @@ export class PackagesTreeProvider implements
           return []
         }
 
-        // If searching, filter categories that have matching packages
-        if (this.searchQuery) {
+        const updates = await this.loadUpdates()
+        this.updatesItem = updates.length > 0 && !hasActiveFilters(this.filters) ? new UpdatesItem(updates.length) : undefined
+        const top: TreeElement[] = this.updatesItem ? [this.updatesItem] : []
+
+        // If filtering, only show categories that have matching packages
+        if (hasActiveFilters(this.filters)) {
           const categoriesWithMatches: typeof categories = []
           for (const catInfo of categories) {
             const packages = await this.getPackagesForCategory(catInfo.category)
@@ -146,10 +397,10 @@ export class PackagesTreeProvider implements
               })
             }
           }
-          return categoriesWithMatches.map(c => new PackageCategoryItem(c.category, c.count))
+          return categoriesWithMatches.map(c => this.trackCategory(new PackageCategoryItem(c.category, c.count)))
         }
 
-        return categories.map(c => new PackageCategoryItem(c.category, c.count))
+        return [...top, ...categories.map(c => this.trackCategory(new PackageCategoryItem(c.category, c.count)))]
       }
       catch (err) {
         logger.error('Failed to get categories:', err)
@@ -157,13 +408,20 @@ export class PackagesTreeProvider implements
       }
     }
 
+    if (element instanceof UpdatesItem) {
+      return this.updates.map(update => new UpdateItem(update))
+    }
+
     if (element instanceof PackageCategoryItem) {
       // Category node: lazy load packages for this category
       try {
         const packages = await this.getPackagesForCategory(element.category)
         return packages
-          .sort((a, b) => a.name.localeCompare(b.name))
-          .map(p => new PackageItem(p))
+          .map((p) => {
+            const item = new PackageItem(p)
+            this.packageItems.set(p.name, item)
+            return item
+          })
       }
       catch (err) {
         logger.error(`Failed to get packages for category ${element.category}:`, err)
@@ -173,25 +431,63 @@ export class PackagesTreeProvider implements
 
     if (element instanceof PackageItem) {
       // Package node: show versions
-      return element.pkg.versions.map(v => new VersionItem(element.pkg, v, this.isPackageInstalling(element.pkg.name, v)))
+      const usage = await this.getVenvUsage()
+      return element.pkg.versions.map(v => new VersionItem(
+        element.pkg,
+        v,
+        this.isPackageInstalling(element.pkg.name, v),
+        usage.get(`${element.pkg.name}@${v.version}`)?.map(config => config.venv.path),
+        this.host,
+      ))
+    }
+
+    if (element instanceof VersionItem) {
+      return this.getPackageContents(element)
+    }
+
+    if (element instanceof PackageBinariesItem) {
+      // Binaries built for another host cannot run here, and binaries of a
+      // remote executor's target must not run on this machine
+      const probe = element.host === currentHost() && getExecutor().kind === 'local'
+      return Promise.all(element.binaries.map(async binary =>
+        new PackageBinaryItem(binary, probe ? await probeBinaryVersion(binary.path) : null)))
+    }
+
+    if (element instanceof PackageFileItem && element.entry.isDirectory) {
+      try {
+        return (await listPackageDir(element.entry.path)).map(entry => new PackageFileItem(entry))
+      }
+      catch (err) {
+        logger.error(`Failed to list ${element.entry.path}:`, err)
+        return []
+      }
     }
 
     return []
   }
 
   /**
-   * Check if a package matches the current search query.
+   * Files of an installed version, with its executables summarized first.
    */
-  private matchesSearch(pkg: RuyiPackage): boolean {
-    if (!this.searchQuery) {
-      return true
+  private async getPackageContents(element: VersionItem): Promise<TreeElement[]> {
+    const installDir = await findInstallDir(element.pkg.name, element.versionInfo.version, this.host)
+    if (!installDir) {
+      return []
     }
+    try {
+      const binaries = await findPackageBinaries(installDir)
+      const files = (await listPackageDir(installDir)).map(entry => new PackageFileItem(entry))
+      return binaries.length > 0 ? [new PackageBinariesItem(installDir, binaries, this.host), ...files] : files
+    }
+    catch (err) {
+      logger.error(`Failed to list the contents of ${installDir}:`, err)
+      return []
+    }
+  }
 
-    const query = this.searchQuery.toLowerCase()
-    const name = pkg.name.toLowerCase()
-    const category = pkg.category.toLowerCase()
-
-    return name.includes(query) || category.includes(query)
+  private trackCategory(item: PackageCategoryItem): PackageCategoryItem {
+    this.categoryItems.set(item.category, item)
+    return item
   }
 
   markPackageInstalling(pkg: string, version: string): void {
@@ -211,13 +507,51 @@ export class PackagesTreeProvider implements
   }
 }
 
+/**
+ * Virtual node listing the installed packages that have updates
+ */
+export class UpdatesItem extends vscode.TreeItem {
+  constructor(count: number) {
+    super(vscode.l10n.t('Updates available'), vscode.TreeItemCollapsibleState.Expanded)
+    this.iconPath = new vscode.ThemeIcon('arrow-circle-up', new vscode.ThemeColor('notificationsInfoIcon.foreground'))
+    this.contextValue = 'ruyiPackage.updates'
+    this.setCount(count)
+  }
+
+  setCount(count: number): void {
+    this.description = vscode.l10n.t('{0} package(s)', count)
+  }
+}
+
+/**
+ * A package that can be upgraded
+ */
+export class UpdateItem extends vscode.TreeItem {
+  constructor(public readonly update: PackageUpdate) {
+    super(update.pkg.name.split('/').slice(1).join('/') || update.pkg.name, vscode.TreeItemCollapsibleState.None)
+
+    const current = update.installed[0]?.version
+    this.description = `${current} → ${update.latest.version}`
+    this.tooltip = update.latest.downloadSize
+      ? `${update.pkg.name}\n${vscode.l10n.t('Download size: {0}', formatSize(update.latest.downloadSize))}`
+      : update.pkg.name
+    this.iconPath = new vscode.ThemeIcon('package')
+    this.contextValue = 'ruyiPackage.update'
+    this.command = {
+      command: 'ruyi.packages.showDetails',
+      title: vscode.l10n.t('Show Package Details'),
+      arguments: [update.pkg.name],
+    }
+  }
+}
+
 /**
  * Category node
  */
 class PackageCategoryItem extends vscode.TreeItem {
   constructor(
     public readonly category: string,
-    private readonly count?: number,
+    count?: number,
   ) {
     let categoryDisplayName = category
     if (!vscode.env.language.startsWith('en')) {
@@ -246,19 +580,35 @@ class PackageCategoryItem extends vscode.TreeItem {
     this.contextValue = 'ruyiPackage.category'
     // Show package count in description
     if (count !== undefined) {
-      this.description = vscode.l10n.t('{0} package(s)', count)
+      this.setCount(count)
     }
   }
+
+  setCount(count: number): void {
+    this.description = vscode.l10n.t('{0} package(s)', count)
+  }
 }
 
 /**
  * Package node
  */
-class PackageItem extends vscode.TreeItem {
-  constructor(public readonly pkg: RuyiPackage) {
+export class PackageItem extends vscode.TreeItem {
+  constructor(public pkg: RuyiPackage) {
     const displayName = pkg.name.split('/').slice(1).join('/') || pkg.name
     super(displayName, vscode.TreeItemCollapsibleState.Collapsed)
 
+    this.iconPath = new vscode.ThemeIcon('package')
+    this.contextValue = 'ruyiPackage.package'
+    this.tooltip = pkg.name
+    this.update(pkg)
+  }
+
+  /**
+   * Replace the package data, e.g. after its install state changed.
+   */
+  update(pkg: RuyiPackage): void {
+    this.pkg = pkg
+
     const installedCount
       = pkg.versions.filter(v => v.isInstalled).length
     if (installedCount > 0) {
@@ -267,10 +617,6 @@ class PackageItem extends vscode.TreeItem {
     else {
       this.description = vscode.l10n.t('({0} version[s])', pkg.versions.length)
     }
-
-    this.iconPath = new vscode.ThemeIcon('package')
-    this.contextValue = 'ruyiPackage.package'
-    this.tooltip = pkg.name
   }
 }
 
@@ -281,14 +627,29 @@ export class VersionItem extends vscode.TreeItem {
   constructor(
     public readonly pkg: RuyiPackage,
     public readonly versionInfo: RuyiPackageVersion,
-    public readonly isInstalling: boolean) {
-    super(versionInfo.version, vscode.TreeItemCollapsibleState.None)
+    public readonly isInstalling: boolean,
+    /** Paths of the workspace venvs created from this version */
+    public readonly usedBy: string[] = [],
+    /** Host the version is shown for */
+    public readonly host: string = currentHost()) {
+    // Installed versions expand into their files
+    super(versionInfo.version, versionInfo.isInstalled ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None)
 
     // Set different icons and context menus according to the version status
     this.description = this.buildDescription()
     this.tooltip = this.buildTooltip()
+    this.command = {
+      command: 'ruyi.packages.showDetails',
+      title: vscode.l10n.t('Show Package Details'),
+      arguments: [this],
+    }
 
-    if (versionInfo.isInstalled) {
+    if (versionInfo.isInstalled && host !== currentHost()) {
+      // `ruyi uninstall` only acts on the current host
+      this.iconPath = new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed'))
+      this.contextValue = 'ruyiPackage.hostInstalled'
+    }
+    else if (versionInfo.isInstalled) {
       this.iconPath = new vscode.ThemeIcon('check', new vscode.ThemeColor('testing.iconPassed'))
       this.contextValue = 'ruyiPackage.installed'
     }
@@ -328,6 +689,9 @@ export class VersionItem extends vscode.TreeItem {
 
   private buildTooltip(): string {
     let tooltip = `${this.pkg.name}@${this.versionInfo.version}\n`
+    if (this.host !== currentHost()) {
+      tooltip += '🖥️ ' + vscode.l10n.t('Host: {0}', this.host) + '\n'
+    }
 
     if (this.versionInfo.isInstalled) {
       tooltip += '✓ ' + vscode.l10n.t('Installed')
@@ -343,7 +707,9 @@ export class VersionItem extends vscode.TreeItem {
       tooltip += '🚧 ' + vscode.l10n.t('Prerelease version') + '\n'
     }
     if (!this.versionInfo.isBinaryAvailable) {
-      tooltip += '⚠️ ' + vscode.l10n.t('No binary available for current platform') + '\n'
+      tooltip += '⚠️ ' + (this.host === currentHost()
+        ? vscode.l10n.t('No binary available for current platform')
+        : vscode.l10n.t('No binary available for {0}', this.host)) + '\n'
     }
     if (this.versionInfo.downloadSize) {
       tooltip += '⬇️ ' + vscode.l10n.t('Download size: {0}', formatSize(this.versionInfo.downloadSize)) + '\n'
@@ -351,6 +717,9 @@ export class VersionItem extends vscode.TreeItem {
     if (this.isInstalling) {
       tooltip += '🕙 ' + vscode.l10n.t('Installing...') + '\n'
     }
+    if (this.usedBy.length > 0) {
+      tooltip += '\n' + vscode.l10n.t('Used by:') + '\n' + this.usedBy.map(venv => `  • ${venv}`).join('\n') + '\n'
+    }
 
     return tooltip.trim()
   }
@@ -362,3 +731,66 @@ export class VersionItem extends vscode.TreeItem {
     return `${this.pkg.name}(${this.versionInfo.version})`
   }
 }
+
+/**
+ * Summary of the executables an installed version ships in `bin`
+ */
+export class PackageBinariesItem extends vscode.TreeItem {
+  constructor(
+    public readonly installDir: string,
+    public readonly binaries: PackageFileEntry[],
+    public readonly host: string,
+  ) {
+    super(vscode.l10n.t('Binaries'), vscode.TreeItemCollapsibleState.Collapsed)
+    this.description = vscode.l10n.t('{0} executable(s)', binaries.length)
+    this.tooltip = path.join(installDir, 'bin')
+    this.iconPath = new vscode.ThemeIcon('terminal')
+    this.contextValue = 'ruyiPackage.binaries'
+  }
+
+  get fsPath(): string {
+    return path.join(this.installDir, 'bin')
+  }
+}
+
+/**
+ * An executable with the first line of its `--version` output
+ */
+export class PackageBinaryItem extends vscode.TreeItem {
+  constructor(public readonly entry: PackageFileEntry, version: string | null) {
+    super(entry.name, vscode.TreeItemCollapsibleState.None)
+    this.description = version ?? vscode.l10n.t('no version information')
+    this.tooltip = entry.linkTarget ? `${entry.path} → ${entry.linkTarget}` : entry.path
+    this.iconPath = new vscode.ThemeIcon('gear')
+    this.contextValue = 'ruyiPackage.binary'
+  }
+
+  get fsPath(): string {
+    return this.entry.path
+  }
+}
+
+/**
+ * A file or directory below the install directory of a version
+ */
+export class PackageFileItem extends vscode.TreeItem {
+  constructor(public readonly entry: PackageFileEntry) {
+    super(entry.name, entry.isDirectory ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None)
+    // Lets the file icon theme pick the icon
+    this.resourceUri = vscode.Uri.file(entry.path)
+    this.description = entry.linkTarget ? `→ ${entry.linkTarget}` : undefined
+    this.tooltip = entry.path
+    this.contextValue = entry.isDirectory ? 'ruyiPackage.dir' : 'ruyiPackage.file'
+    if (!entry.isDirectory) {
+      this.command = {
+        command: 'vscode.open',
+        title: vscode.l10n.t('Open File'),
+        arguments: [this.resourceUri],
+      }
+    }
+  }
+
+  get fsPath(): string {
+    return this.entry.path
+  }
+}
@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Packages Module - Usage Guard
+ *
+ * Warns before uninstalling package versions that workspace venvs were
+ * created from, and deletes or recreates those venvs once the uninstall
+ * went through.
+ */
+
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { logger } from '../common/logger'
+import { VenvService } from '../venv/venv.service'
+
+import { findVenvsUsingPackage, type PackageUsage } from './package-details.helper'
+import type { PackageJobTarget } from './package-jobs.service'
+
+/**
+ * A workspace venv that breaks when some package versions are uninstalled.
+ */
+export interface AffectedVenv {
+  usage: PackageUsage
+  /** The versions being uninstalled that the venv uses */
+  packages: PackageJobTarget[]
+}
+
+export type VenvFollowUp = 'recreate' | 'delete' | 'keep'
+
+/**
+ * Find the workspace venvs using any of the package versions.
+ */
+export async function findAffectedVenvs(targets: PackageJobTarget[]): Promise<AffectedVenv[]> {
+  const affected = new Map<string, AffectedVenv>()
+  const names = [...new Set(targets.map(target => target.name))]
+
+  for (const name of names) {
+    const versions = targets.filter(target => target.name === name).map(target => target.version)
+    for (const usage of await findVenvsUsingPackage(name, versions)) {
+      const entry = affected.get(usage.venv.path) ?? { usage, packages: [] }
+      entry.packages.push(...usage.versions.map(version => ({ name, version })))
+      affected.set(usage.venv.path, entry)
+    }
+  }
+  return [...affected.values()]
+}
+
+/**
+ * Ask whether to uninstall package versions that venvs still use, and what
+ * to do with those venvs afterwards.
+ * @returns The follow-up for the venvs, or undefined if cancelled
+ */
+export async function confirmUninstallUsed(targets: PackageJobTarget[], affected: AffectedVenv[]): Promise<VenvFollowUp | undefined> {
+  const detail = [
+    ...targets.map(target => `${target.name} ${target.version}`),
+    '',
+    vscode.l10n.t('Affected venvs:'),
+    ...affected.map(({ usage, packages }) => `${usage.venv.path}: ${packages.map(pkg => `${pkg.name.split('/').pop()} ${pkg.version}`).join(', ')}`),
+    '',
+    vscode.l10n.t('Recreating deletes each venv and opens the venv wizard for its profile.'),
+  ]
+
+  const recreate = vscode.l10n.t('Uninstall and Recreate Venvs')
+  const remove = vscode.l10n.t('Uninstall and Delete Venvs')
+  const keep = vscode.l10n.t('Uninstall Anyway')
+  const choice = await vscode.window.showWarningMessage(
+    vscode.l10n.t('{0} workspace venv(s) were created from the packages being uninstalled and will stop working.', affected.length),
+    { modal: true, detail: detail.join('\n') },
+    recreate,
+    remove,
+    keep,
+  )
+  switch (choice) {
+    case recreate:
+      return 'recreate'
+    case remove:
+      return 'delete'
+    case keep:
+      return 'keep'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Delete or recreate the venvs broken by an uninstall.
+ * @param affected The venvs whose packages were all uninstalled
+ */
+export async function applyVenvFollowUp(affected: AffectedVenv[], followUp: VenvFollowUp): Promise<void> {
+  if (followUp === 'keep' || affected.length === 0) {
+    return
+  }
+
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? ''
+  for (const { usage } of affected) {
+    try {
+      await VenvService.instance.removeVenv(path.join(workspaceRoot, usage.venv.path))
+    }
+    catch (error) {
+      logger.error(`Failed to remove venv ${usage.venv.path}:`, error)
+      vscode.window.showErrorMessage(vscode.l10n.t('Failed to delete the venv {0}.', usage.venv.path))
+      continue
+    }
+    if (followUp === 'recreate') {
+      await vscode.commands.executeCommand('ruyi.venv.create', usage.profile)
+    }
+  }
+  if (followUp === 'delete') {
+    vscode.window.showInformationMessage(vscode.l10n.t('Deleted {0} venv(s) that used the uninstalled packages.', affected.length))
+  }
+}
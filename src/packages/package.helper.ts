@@ -1,4 +1,28 @@
 // SPDX-License-Identifier: Apache-2.0
+import * as fs from 'fs'
+import * as path from 'path'
+
+import * as semver from 'semver'
+
+import { getExecutor } from '../common/executor'
+import ruyi from '../ruyi'
+import { parsePorcelain } from '../ruyi/schema'
+import { ruyiDataDir } from '../ruyi/state'
+import type { RuyiListOutput } from '../ruyi/types'
+
+import type { RuyiPackage, RuyiPackageVersion } from './package.service'
+
+/** Host names as used by ruyi for binary packages */
+export function currentHost(): string {
+  switch (process.arch) {
+    case 'x64':
+      return 'x86_64'
+    case 'arm64':
+      return 'aarch64'
+    default:
+      return process.arch
+  }
+}
 
 export function formatSize(bytes: number): string {
   if (!isFinite(bytes)) return String(bytes)
@@ -10,3 +34,204 @@ export function formatSize(bytes: number): string {
   const rounded = Math.round(value) === value ? value.toFixed(0) : value.toFixed(2).replace(/\.?(0+)$/, '')
   return `${rounded} ${units[idx]}`
 }
+
+/**
+ * Compare package versions, falling back to a numeric-aware string
+ * comparison for versions that are not valid semver.
+ */
+export function compareVersions(a: string, b: string): number {
+  const validA = semver.valid(a)
+  const validB = semver.valid(b)
+  if (validA && validB) {
+    return semver.compare(validA, validB)
+  }
+  return a.localeCompare(b, undefined, { numeric: true })
+}
+
+/**
+ * An installed package with a newer version available.
+ */
+export interface PackageUpdate {
+  pkg: RuyiPackage
+  /** Installed versions older than `latest`, newest first */
+  installed: RuyiPackageVersion[]
+  latest: RuyiPackageVersion
+}
+
+/**
+ * Find the installed packages whose newest installable version is not
+ * installed yet.
+ * @param includePrereleases Whether a prerelease counts as an update
+ */
+export function findPackageUpdates(packages: RuyiPackage[], includePrereleases: boolean): PackageUpdate[] {
+  const updates: PackageUpdate[] = []
+
+  for (const pkg of packages) {
+    const installed = pkg.versions.filter(v => v.isInstalled)
+    const candidates = pkg.versions.filter(v => v.isBinaryAvailable && (includePrereleases || !v.isPrerelease))
+    if (installed.length === 0 || candidates.length === 0) continue
+
+    const latest = candidates.reduce((a, b) => compareVersions(a.version, b.version) >= 0 ? a : b)
+    if (latest.isInstalled) continue
+
+    const older = installed
+      .filter(v => compareVersions(v.version, latest.version) < 0)
+      .sort((a, b) => compareVersions(b.version, a.version))
+    // Only an update if nothing newer is installed already
+    if (older.length === installed.length) {
+      updates.push({ pkg, installed: older, latest })
+    }
+  }
+
+  return updates.sort((a, b) => a.pkg.name.localeCompare(b.pkg.name))
+}
+
+/**
+ * Locate the directory ruyi extracted a package version into. Binary
+ * packages live in `binaries/<host>/<name>-<version>` and blobs in
+ * `blobs/<name>-<version>` under ruyi's data directory.
+ * @param name Full package name, "<category>/<name>"
+ * @param host Host whose binary install to look for; installs for other
+ * hosts are not considered
+ * @returns The local path, or null if the version is not installed there
+ */
+export async function findInstallDir(name: string, version: string, host: string = currentHost()): Promise<string | null> {
+  const dirName = `${name.split('/').pop() || name}-${version}`
+  const dataDir = ruyiDataDir()
+
+  const candidates = [
+    path.join(dataDir, 'binaries', host, dirName),
+    path.join(dataDir, 'blobs', dirName),
+  ]
+  for (const candidate of candidates) {
+    try {
+      if ((await fs.promises.stat(candidate)).isDirectory()) {
+        return candidate
+      }
+    }
+    catch {
+      // Try the next location
+    }
+  }
+  return null
+}
+
+/**
+ * The installed package version a file belongs to, judging by the
+ * "<name>-<version>" install directory it is in.
+ * @returns The short package name and version, or null outside ruyi's installs
+ */
+export function packageOfPath(file: string): { name: string, version: string } | null {
+  const parts = path.relative(ruyiDataDir(), file).split(path.sep)
+  const dirName = parts[0] === 'binaries' ? parts[2] : parts[0] === 'blobs' ? parts[1] : undefined
+  if (!dirName) {
+    return null
+  }
+  // Both names and versions may contain dashes, e.g. "qemu-user-riscv-upstream-8.2.0-ruyi.20240222"
+  for (let dash = dirName.indexOf('-'); dash !== -1; dash = dirName.indexOf('-', dash + 1)) {
+    const version = dirName.slice(dash + 1)
+    if (semver.valid(version)) {
+      return { name: dirName.slice(0, dash), version }
+    }
+  }
+  return null
+}
+
+/**
+ * Versions of a package installed for a host, judging by the
+ * "<name>-<version>" install directories.
+ * @returns The versions, newest first
+ */
+export async function findInstalledVersions(name: string, host: string = currentHost()): Promise<string[]> {
+  const prefix = `${name.split('/').pop() || name}-`
+  const dataDir = ruyiDataDir()
+  const versions = new Set<string>()
+  for (const dir of [path.join(dataDir, 'binaries', host), path.join(dataDir, 'blobs')]) {
+    const entries = await fs.promises.readdir(dir).catch(() => [])
+    for (const entry of entries) {
+      // "gnu-plct-xthead-<version>" also starts with "gnu-plct-"
+      const version = entry.startsWith(prefix) ? entry.slice(prefix.length) : null
+      if (version && semver.valid(version)) {
+        versions.add(version)
+      }
+    }
+  }
+  return [...versions].sort((a, b) => compareVersions(b, a))
+}
+
+/**
+ * Versions of a package installed where ruyi runs. A remote executor's ruyi
+ * is asked through `ruyi list`, as the local data directory is not its own.
+ * @param host Host of the installs; remote executors only know their own
+ * @returns The versions, newest first, or null if they could not be determined
+ */
+export async function findTargetInstalledVersions(name: string, host?: string): Promise<string[] | null> {
+  if (getExecutor().kind === 'local') {
+    return findInstalledVersions(name, host)
+  }
+  if (host) {
+    return null
+  }
+
+  const result = await ruyi.timeout(60_000).list({ isInstalled: true, nameContains: name.split('/').pop() || name })
+  if (result.code !== 0) {
+    return null
+  }
+  try {
+    return parsePorcelain<RuyiListOutput>(result.stdout, 'pkglistoutput-v1')
+      .filter(item => `${item.category}/${item.name}` === name)
+      .flatMap(item => item.vers.filter(v => v.is_installed).map(v => v.semver))
+      .sort((a, b) => compareVersions(b, a))
+  }
+  catch {
+    return null
+  }
+}
+
+/**
+ * View packages as seen from another host. Binary availability and download
+ * sizes come from the manifest's per-host binaries, and a version counts as
+ * installed if ruyi has an install of it for that host.
+ * @param host A ruyi host name, e.g. "riscv64"
+ */
+export async function packagesForHost(packages: RuyiPackage[], host: string): Promise<RuyiPackage[]> {
+  if (host === currentHost()) {
+    return packages
+  }
+
+  let installed = new Set<string>()
+  try {
+    installed = new Set(await fs.promises.readdir(path.join(ruyiDataDir(), 'binaries', host)))
+  }
+  catch {
+    // Nothing installed for this host yet
+  }
+
+  return packages.map((pkg) => {
+    const shortName = pkg.name.split('/').pop() || pkg.name
+    return {
+      ...pkg,
+      versions: pkg.versions.map((version) => {
+        // Blobs are the same on every host
+        if (!version.binaryHosts) {
+          return version
+        }
+        return {
+          ...version,
+          isBinaryAvailable: host in version.binaryHosts,
+          isInstalled: installed.has(`${shortName}-${version.version}`),
+          downloadSize: version.binaryHosts[host],
+        }
+      }),
+    }
+  })
+}
+
+/**
+ * Hosts any package has binaries for, with the current host first.
+ */
+export function knownHosts(packages: RuyiPackage[]): string[] {
+  const hosts = new Set(packages.flatMap(pkg => pkg.versions.flatMap(version => Object.keys(version.binaryHosts ?? {}))))
+  hosts.delete(currentHost())
+  return [currentHost(), ...[...hosts].sort()]
+}
@@ -1,7 +1,16 @@
 // SPDX-License-Identifier: Apache-2.0
-import { parseNDJSON } from '../common/helpers'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { getExecutor } from '../common/executor'
 import { logger } from '../common/logger'
-import ruyi, { PACKAGE_CATEGORIES, type PackageCategory } from '../ruyi'
+import { configChangeAffects } from '../config/config.helper'
+import { getRepoList } from '../repo/repo.helper'
+import ruyi, { PACKAGE_CATEGORIES, onDidChangeRuyiState, type PackageCategory } from '../ruyi'
+import { ruyiCapabilities } from '../ruyi/capabilities'
+import { parsePorcelain } from '../ruyi/schema'
+import { onDidChangeRuyiStateDirs, stateScopedFileName } from '../ruyi/state'
 import type { RuyiListOutput } from '../ruyi/types'
 
 export interface RuyiPackageVersion {
@@ -14,6 +23,11 @@ export interface RuyiPackageVersion {
   downloadSize?: number
   installSize?: number
   slug?: string
+  /** Toolchain quirks the version provides */
+  quirks: string[]
+  includedSysroot?: string
+  /** Download size by host for binary packages, undefined for blobs */
+  binaryHosts?: Record<string, number>
 }
 
 export interface RuyiPackage {
@@ -22,48 +36,268 @@ export interface RuyiPackage {
   versions: RuyiPackageVersion[]
 }
 
-export class PackageService {
+export type PackageIndexCache = {
+  data: RuyiPackage[]
+  /** Fingerprint of the package repos the index was built from */
+  key: string | null
+  timestamp: number
+  version: string
+}
+
+/**
+ * Changes between two package indexes.
+ */
+export interface PackageIndexDiff {
+  added: RuyiPackage[]
+  removed: RuyiPackage[]
+  changed: RuyiPackage[]
+}
+
+/** Subcommands after which the package index must be reloaded */
+const INDEX_MUTATING_COMMANDS = new Set(['install', 'uninstall', 'update', 'repo', 'self'])
+
+export class PackageService implements vscode.Disposable {
   private packages: RuyiPackage[] = []
   private categoryCounts: Map<PackageCategory, number> = new Map()
   private hasLoaded = false
-  private loadingPromise: Promise<void> | null = null
+  private isStale = true
+  private cachedIndex: Pick<PackageIndexCache, 'key' | 'timestamp'> | null = null
+  private loadingPromise: Promise<PackageIndexDiff | null> | null = null
+  private readonly storageUri: vscode.Uri | undefined
+  private readonly CACHE_VERSION = '1.2.0'
+  /** A cache built from the same repo commits is trusted without revalidation for this long */
+  private readonly CACHE_FRESH_MS = 10 * 60 * 1000
+  private readonly _onDidInvalidate = new vscode.EventEmitter<void>()
+  private readonly disposables: vscode.Disposable[] = []
+
+  /**
+   * Fired when the package index became outdated, e.g. after an install.
+   */
+  readonly onDidInvalidate = this._onDidInvalidate.event
+
+  /**
+   * The index depends on the ruyi state in use, so each isolated state gets
+   * its own cache file.
+   */
+  private get cachePath(): string | undefined {
+    return this.storageUri
+      ? path.join(this.storageUri.fsPath, stateScopedFileName('package-index-cache.json'))
+      : undefined
+  }
+
+  constructor(storageUri?: vscode.Uri) {
+    this.storageUri = storageUri
+
+    this.disposables.push(
+      this._onDidInvalidate,
+      // The other state keeps its own cache file, which is revalidated on load
+      onDidChangeRuyiStateDirs(() => this.markStale()),
+      onDidChangeRuyiState(({ command, args }) => {
+        if (INDEX_MUTATING_COMMANDS.has(command) || configChangeAffects(args, 'packages')) {
+          void this.invalidate()
+        }
+      }),
+    )
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose())
+  }
+
+  /**
+   * Whether the loaded index may be outdated and should be revalidated.
+   * An index restored from cache is trusted only if it is recent and was
+   * built from the commits the repos are currently checked out at.
+   */
+  async needsRevalidation(): Promise<boolean> {
+    if (this.isStale && this.cachedIndex) {
+      const { key, timestamp } = this.cachedIndex
+      this.cachedIndex = null
+      this.isStale = Date.now() - timestamp > this.CACHE_FRESH_MS
+        || key === null
+        || key !== await this.computeIndexKey()
+    }
+    return this.isStale
+  }
 
-  private async loadPackages(forceRefresh: boolean = false): Promise<void> {
+  /**
+   * Mark the index as outdated and drop the persisted copy.
+   */
+  async invalidate(): Promise<void> {
+    this.markStale()
+    await this.clearCache()
+  }
+
+  private markStale(): void {
+    this.isStale = true
+    this.cachedIndex = null
+    this._onDidInvalidate.fire()
+  }
+
+  private async loadPackages(forceRefresh: boolean = false): Promise<PackageIndexDiff | null> {
     if (this.loadingPromise) {
-      await this.loadingPromise
+      const diff = await this.loadingPromise
       if (!forceRefresh || this.hasLoaded) {
-        return
+        return diff
       }
     }
 
     if (!forceRefresh && this.hasLoaded) {
-      return
+      return null
+    }
+
+    // Render the persisted index right away; the caller revalidates it
+    if (!forceRefresh && await this.loadFromCache()) {
+      return null
     }
 
     this.loadingPromise = this.fetchPackagesFromCli()
     try {
-      await this.loadingPromise
+      return await this.loadingPromise
     }
     finally {
       this.loadingPromise = null
     }
   }
 
-  private async fetchPackagesFromCli(): Promise<void> {
+  /**
+   * Reload the index from the CLI.
+   * @returns The changes against the previously loaded index, or null if
+   *   nothing was loaded before or the reload failed
+   */
+  public async revalidate(): Promise<PackageIndexDiff | null> {
+    return this.loadPackages(true)
+  }
+
+  private async fetchPackagesFromCli(): Promise<PackageIndexDiff | null> {
     try {
+      const key = await this.computeIndexKey()
       const listResult = await ruyi.list()
       if (listResult.code !== 0) {
         logger.error('Failed to list packages:', listResult.stderr)
-        return
+        return null
       }
 
       const parsedPackages = this.parsePorcelainListOutput(listResult.stdout)
+      const diff = this.hasLoaded ? diffPackages(this.packages, parsedPackages) : null
       this.packages = parsedPackages
       this.categoryCounts = this.buildCategoryCounts(parsedPackages)
       this.hasLoaded = true
+      this.isStale = false
+      this.cachedIndex = null
+      await this.saveCache(parsedPackages, key)
+      return diff
     }
     catch (error) {
       logger.error('Error fetching packages:', error)
+      return null
+    }
+  }
+
+  private async loadFromCache(): Promise<boolean> {
+    const cache = await this.loadCache()
+    if (!cache) {
+      return false
+    }
+
+    this.packages = cache.data
+    this.categoryCounts = this.buildCategoryCounts(cache.data)
+    this.hasLoaded = true
+    this.isStale = true
+    this.cachedIndex = { key: cache.key, timestamp: cache.timestamp }
+    logger.info(`Loaded ${cache.data.length} packages from cache`)
+    return true
+  }
+
+  private async loadCache(): Promise<PackageIndexCache | null> {
+    if (!this.cachePath) {
+      return null
+    }
+
+    try {
+      const cacheUri = vscode.Uri.file(this.cachePath)
+
+      try {
+        await vscode.workspace.fs.stat(cacheUri)
+      }
+      catch {
+        return null
+      }
+
+      const cacheData = await vscode.workspace.fs.readFile(cacheUri)
+      const cache: PackageIndexCache = JSON.parse(cacheData.toString())
+      if (cache.version !== this.CACHE_VERSION) {
+        return null
+      }
+
+      return cache
+    }
+    catch (error) {
+      logger.warn('Failed to load package index cache:', error)
+      return null
+    }
+  }
+
+  private async saveCache(data: RuyiPackage[], key: string | null): Promise<void> {
+    if (!this.cachePath) {
+      return
+    }
+
+    try {
+      const cacheUri = vscode.Uri.file(this.cachePath)
+      const cacheDir = vscode.Uri.joinPath(cacheUri, '..')
+
+      try {
+        await vscode.workspace.fs.stat(cacheDir)
+      }
+      catch {
+        await vscode.workspace.fs.createDirectory(cacheDir)
+      }
+
+      const cache: PackageIndexCache = {
+        data,
+        key,
+        timestamp: Date.now(),
+        version: this.CACHE_VERSION,
+      }
+
+      await vscode.workspace.fs.writeFile(cacheUri, Buffer.from(JSON.stringify(cache), 'utf8'))
+    }
+    catch (error) {
+      logger.warn('Failed to save package index cache:', error)
+    }
+  }
+
+  private async clearCache(): Promise<void> {
+    if (!this.cachePath) {
+      return
+    }
+
+    try {
+      await vscode.workspace.fs.delete(vscode.Uri.file(this.cachePath))
+    }
+    catch {
+      // No cache to delete
+    }
+  }
+
+  /**
+   * Fingerprint the package repos by the commit each active repo is checked
+   * out at. Returns null if the repos cannot be inspected.
+   */
+  private async computeIndexKey(): Promise<string | null> {
+    try {
+      if (!await ruyiCapabilities.has('hasRepoCommand')) {
+        return null
+      }
+      const repos = await getRepoList()
+      const parts = await Promise.all(repos
+        .filter(repo => repo.active)
+        .map(async repo => `${repo.id}@${repo.local_path ? await readGitHead(getExecutor().toLocalPath(repo.local_path)) : null}`))
+      return parts.join(',')
+    }
+    catch {
+      return null
     }
   }
 
@@ -128,8 +362,7 @@ export class PackageService {
   * @param output The raw NDJSON output
    */
   private parsePorcelainListOutput(output: string): RuyiPackage[] {
-    return parseNDJSON<RuyiListOutput>(output)
-      .filter(item => item.ty === 'pkglistoutput-v1')
+    return parsePorcelain<RuyiListOutput>(output, 'pkglistoutput-v1')
       // Exclude 'source' category
       .filter(item => item.category !== 'source')
       .filter(item => PACKAGE_CATEGORIES.includes(item.category as PackageCategory))
@@ -143,6 +376,13 @@ export class PackageService {
           const slugRemark = v.remarks.find(r => r.startsWith('slug:'))
           const slug = v.pm?.metadata?.slug
             || (slugRemark ? slugRemark.substring(5).trim() : undefined)
+          const distfileSizes = new Map((v.pm?.distfiles ?? []).map(distfile => [distfile.name, distfile.size]))
+          const binaryHosts = v.pm?.binary
+            ? Object.fromEntries(v.pm.binary.map(binary => [
+                binary.host,
+                binary.distfiles.reduce((sum, name) => sum + (distfileSizes.get(name) ?? 0), 0),
+              ]))
+            : undefined
 
           return {
             version: v.semver,
@@ -154,6 +394,9 @@ export class PackageService {
             downloadSize: v.download_size_host_bytes,
             installSize: v.install_size,
             slug,
+            quirks: v.pm?.toolchain?.quirks ?? [],
+            includedSysroot: v.pm?.toolchain?.included_sysroot,
+            binaryHosts,
           }
         })
 
@@ -165,3 +408,46 @@ export class PackageService {
       })
   }
 }
+
+/**
+ * Compare two package indexes by package name.
+ */
+export function diffPackages(before: RuyiPackage[], after: RuyiPackage[]): PackageIndexDiff {
+  const previous = new Map(before.map(pkg => [pkg.name, pkg]))
+  const next = new Map(after.map(pkg => [pkg.name, pkg]))
+
+  return {
+    added: after.filter(pkg => !previous.has(pkg.name)),
+    removed: before.filter(pkg => !next.has(pkg.name)),
+    changed: after.filter((pkg) => {
+      const old = previous.get(pkg.name)
+      return old !== undefined && JSON.stringify(old.versions) !== JSON.stringify(pkg.versions)
+    }),
+  }
+}
+
+/**
+ * Resolve the commit a git checkout is at, without spawning git.
+ */
+export async function readGitHead(repoDir: string): Promise<string | null> {
+  const gitDir = path.join(repoDir, '.git')
+  try {
+    const head = (await fs.promises.readFile(path.join(gitDir, 'HEAD'), 'utf8')).trim()
+    if (!head.startsWith('ref:')) {
+      return head
+    }
+
+    const ref = head.slice(4).trim()
+    try {
+      return (await fs.promises.readFile(path.join(gitDir, ref), 'utf8')).trim()
+    }
+    catch {
+      // The ref may only exist in packed-refs
+      const packedRefs = await fs.promises.readFile(path.join(gitDir, 'packed-refs'), 'utf8')
+      return packedRefs.split('\n').find(line => line.endsWith(` ${ref}`))?.split(' ')[0] ?? null
+    }
+  }
+  catch {
+    return null
+  }
+}
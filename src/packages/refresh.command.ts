@@ -1,7 +1,8 @@
 // SPDX-License-Identifier: Apache-2.0
 import * as vscode from 'vscode'
 
-import ruyi from '../ruyi'
+import { createQueueReporter } from '../common/helpers'
+import ruyi, { RuyiError, showRuyiError } from '../ruyi'
 
 import { PackagesTreeProvider } from './package-tree.provider'
 
@@ -15,10 +16,16 @@ export default function registerRefreshCommand(ctx: vscode.ExtensionContext, pro
           title: vscode.l10n.t('Updating package index...'),
           cancellable: false,
         },
-        async () => {
-          const result = await ruyi.update()
+        async (progress) => {
+          const result = await ruyi
+            .onQueued(createQueueReporter(progress))
+            .update()
           if (result.code !== 0) {
-            vscode.window.showErrorMessage(vscode.l10n.t('Failed to update package index.'))
+            void showRuyiError(
+              vscode.l10n.t('Failed to update package index.'),
+              new RuyiError(result),
+              () => vscode.commands.executeCommand('ruyi.packages.refresh'),
+            )
             return
           }
           vscode.window.showInformationMessage(vscode.l10n.t('Package index updated successfully.'))
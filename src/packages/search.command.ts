@@ -1,8 +1,63 @@
 // SPDX-License-Identifier: Apache-2.0
 import * as vscode from 'vscode'
 
+import {
+  DEFAULT_FILTERS,
+  SIZE_RANGES,
+  describeSizeRange,
+  describeSortMode,
+  type PackageFilters,
+  type PackageSizeRange,
+  type PackageSortMode,
+} from './package-filter.helper'
 import { PackagesTreeProvider } from './package-tree.provider'
 
+type FacetPick = vscode.QuickPickItem & { apply?: (filters: PackageFilters) => void }
+
+/**
+ * Let the user toggle the facets of the package filter in one multi-select
+ * quick pick.
+ */
+async function pickFilters(provider: PackagesTreeProvider, quirks: string[]): Promise<PackageFilters | undefined> {
+  const current = provider.getFilters()
+
+  const toggles: FacetPick[] = [
+    { label: vscode.l10n.t('Installed only'), picked: current.installedOnly, apply: f => f.installedOnly = true },
+    { label: vscode.l10n.t('Has binary for this host'), picked: current.binaryOnly, apply: f => f.binaryOnly = true },
+    { label: vscode.l10n.t('Hide prereleases'), picked: current.hidePrereleases, apply: f => f.hidePrereleases = true },
+    { label: vscode.l10n.t('Includes a sysroot'), picked: current.sysrootOnly, apply: f => f.sysrootOnly = true },
+  ]
+  const quirkItems: FacetPick[] = quirks.map(quirk => ({
+    label: quirk,
+    description: vscode.l10n.t('toolchain quirk'),
+    picked: current.quirks.includes(quirk),
+    apply: f => f.quirks.push(quirk),
+  }))
+  const sizeItems: FacetPick[] = (Object.keys(SIZE_RANGES) as PackageSizeRange[]).map(range => ({
+    label: describeSizeRange(range),
+    picked: current.sizes.includes(range),
+    apply: f => f.sizes.push(range),
+  }))
+
+  const picked = await vscode.window.showQuickPick<FacetPick>([
+    ...toggles,
+    ...quirkItems.length > 0 ? [{ label: vscode.l10n.t('Toolchain quirks'), kind: vscode.QuickPickItemKind.Separator }, ...quirkItems] : [],
+    { label: vscode.l10n.t('Size'), kind: vscode.QuickPickItemKind.Separator },
+    ...sizeItems,
+  ], {
+    title: vscode.l10n.t('Filter Packages'),
+    placeHolder: vscode.l10n.t('Select the filters to apply'),
+    canPickMany: true,
+  })
+  if (!picked) {
+    return undefined
+  }
+
+  const filters: PackageFilters = { ...DEFAULT_FILTERS, query: current.query, quirks: [], sizes: [] }
+  picked.forEach(item => item.apply?.(filters))
+  return filters
+}
+
 export default function registerSearchCommand(
   ctx: vscode.ExtensionContext,
   provider: PackagesTreeProvider,
@@ -40,4 +95,43 @@ export default function registerSearchCommand(
       provider.clearSearch()
     }),
   )
+
+  ctx.subscriptions.push(
+    // Used by other views to point at a package, e.g. a venv's toolchain
+    vscode.commands.registerCommand('ruyi.packages.showPackage', async (name: string) => {
+      if (typeof name !== 'string') {
+        return
+      }
+      provider.setSearchQuery(name.split('/').pop() || name)
+      await vscode.commands.executeCommand('ruyiPackagesView.focus')
+    }),
+  )
+
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.packages.filter', async () => {
+      const packages = await provider.prepareForSearch()
+      const quirks = [...new Set(packages.flatMap(pkg => pkg.versions.flatMap(v => v.quirks)))].sort()
+      const filters = await pickFilters(provider, quirks)
+      if (filters) {
+        provider.setFilters(filters)
+      }
+    }),
+  )
+
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.packages.sort', async () => {
+      const modes: PackageSortMode[] = ['name', 'version', 'size', 'installed']
+      const picked = await vscode.window.showQuickPick(
+        modes.map(mode => ({
+          label: describeSortMode(mode),
+          description: mode === provider.getSortMode() ? vscode.l10n.t('current') : undefined,
+          mode,
+        })),
+        { title: vscode.l10n.t('Sort Packages By') },
+      )
+      if (picked) {
+        provider.setSortMode(picked.mode)
+      }
+    }),
+  )
 }
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { PackageDetailsWebviewProvider } from './package-details-webview.provider'
+import { PackageItem, VersionItem } from './package-tree.provider'
+
+export default function registerShowDetailsCommand(ctx: vscode.ExtensionContext, detailsProvider: PackageDetailsWebviewProvider) {
+  const showDetailsDisposable = vscode.commands.registerCommand(
+    'ruyi.packages.showDetails',
+    async (item: VersionItem | PackageItem | string) => {
+      if (item instanceof VersionItem) {
+        await detailsProvider.show(item.pkg.name, item.versionInfo.version)
+      }
+      else if (item instanceof PackageItem) {
+        await detailsProvider.show(item.pkg.name)
+      }
+      else if (typeof item === 'string') {
+        await detailsProvider.show(item)
+      }
+      else {
+        vscode.window.showErrorMessage(vscode.l10n.t('Invalid package selection.'))
+      }
+    },
+  )
+
+  ctx.subscriptions.push(showDetailsDisposable)
+}
@@ -1,9 +1,13 @@
 // SPDX-License-Identifier: Apache-2.0
 import * as vscode from 'vscode'
 
-import ruyi from '../ruyi'
+import { createQueueReporter } from '../common/helpers'
+import ruyi, { RuyiError, showRuyiError } from '../ruyi'
 
+import { batchUninstall, getBatchSelection } from './batch.command'
+import type { PackageJobsService } from './package-jobs.service'
 import { PackagesTreeProvider, VersionItem } from './package-tree.provider'
+import { applyVenvFollowUp, confirmUninstallUsed, findAffectedVenvs, type VenvFollowUp } from './package-usage.helper'
 
 /**
  * Uninstall a package by name and version
@@ -16,14 +20,26 @@ export async function uninstallPackage(name: string, version?: string): Promise<
   const displayVersion = version || 'latest'
   const packageSpec = version ? `${name}(==${version})` : name
 
-  const choice = await vscode.window.showWarningMessage(
-    vscode.l10n.t('Uninstall {0} {1}?', packageName, displayVersion),
-    { modal: true },
-    vscode.l10n.t('Uninstall'),
-  )
+  // Venvs created from this version break once it is gone
+  const affected = version ? await findAffectedVenvs([{ name, version }]) : []
+  let followUp: VenvFollowUp = 'keep'
+  if (affected.length > 0) {
+    const choice = await confirmUninstallUsed([{ name, version: displayVersion }], affected)
+    if (!choice) {
+      return false
+    }
+    followUp = choice
+  }
+  else {
+    const choice = await vscode.window.showWarningMessage(
+      vscode.l10n.t('Uninstall {0} {1}?', packageName, displayVersion),
+      { modal: true },
+      vscode.l10n.t('Uninstall'),
+    )
 
-  if (choice !== vscode.l10n.t('Uninstall')) {
-    return false
+    if (choice !== vscode.l10n.t('Uninstall')) {
+      return false
+    }
   }
 
   const confirmation = await vscode.window.showWarningMessage(
@@ -46,7 +62,11 @@ export async function uninstallPackage(name: string, version?: string): Promise<
     async (progress) => {
       progress.report({ message: vscode.l10n.t('Running ruyi remove...') })
 
-      const result = await ruyi.timeout(60_000).uninstall(packageSpec)
+      const result = await ruyi
+        .timeout(60_000)
+        .initiator('tree')
+        .onQueued(createQueueReporter(progress, vscode.l10n.t('Running ruyi remove...')))
+        .uninstall(packageSpec)
       if (result.code === 0) {
         vscode.window.showInformationMessage(
           '✓ ' + vscode.l10n.t('Successfully uninstalled {0} {1}', packageName, displayVersion),
@@ -54,25 +74,39 @@ export async function uninstallPackage(name: string, version?: string): Promise<
         success = true
       }
       else {
-        const errorMsg = result.stderr || result.stdout || vscode.l10n.t('Unknown error')
-        vscode.window.showErrorMessage(vscode.l10n.t('Failed to uninstall {0}: {1}', packageName, errorMsg))
+        const error = new RuyiError(result)
+        void showRuyiError(vscode.l10n.t('Failed to uninstall {0}: {1}', packageName, error.message), error)
       }
     },
   )
 
+  if (success) {
+    await applyVenvFollowUp(affected, followUp)
+  }
   return success
 }
 
-export default function registerUninstallCommand(ctx: vscode.ExtensionContext, provider: PackagesTreeProvider) {
+export default function registerUninstallCommand(ctx: vscode.ExtensionContext, provider: PackagesTreeProvider, jobsService: PackageJobsService) {
   const uninstallDisposable = vscode.commands.registerCommand(
     'ruyi.packages.uninstall',
-    async (item: VersionItem) => {
-      if (!(item instanceof VersionItem)) {
-        vscode.window.showErrorMessage(vscode.l10n.t('Invalid package selection.'))
+    async (item: VersionItem | [string, string?], selection?: unknown) => {
+      const batch = getBatchSelection(item, selection)
+      if (batch) {
+        await batchUninstall(batch, provider, jobsService)
         return
       }
 
-      const success = await uninstallPackage(item.pkg.name, item.versionInfo.version)
+      let success: boolean
+      if (item instanceof VersionItem) {
+        success = await uninstallPackage(item.pkg.name, item.versionInfo.version)
+      }
+      else if (Array.isArray(item)) {
+        success = await uninstallPackage(item[0], item[1])
+      }
+      else {
+        vscode.window.showErrorMessage(vscode.l10n.t('Invalid package selection.'))
+        return
+      }
 
       if (success) {
         await provider.shallowRefresh()
@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import type { RuyiInitiator } from '../ruyi'
+
+import { runBatch } from './batch.command'
+import { findVenvsUsingPackage } from './package-details.helper'
+import type { PackageJobsService, PackageJobTarget } from './package-jobs.service'
+import { PackagesTreeProvider, UpdateItem } from './package-tree.provider'
+import type { PackageUpdate } from './package.helper'
+
+/**
+ * Offer to uninstall the versions replaced by an upgrade, except those a
+ * workspace venv still refers to.
+ */
+async function offerRemoveOldVersions(
+  upgraded: PackageUpdate[],
+  provider: PackagesTreeProvider,
+  service: PackageJobsService,
+  initiator: RuyiInitiator,
+): Promise<void> {
+  const removable: PackageJobTarget[] = []
+  const kept: string[] = []
+
+  for (const { pkg, installed } of upgraded) {
+    const usages = await findVenvsUsingPackage(pkg.name, installed.map(v => v.version))
+    for (const { version } of installed) {
+      const venvs = usages.filter(usage => usage.versions.includes(version)).map(usage => usage.venv.path)
+      if (venvs.length > 0) {
+        kept.push(vscode.l10n.t('{0} {1} (used by {2})', pkg.name, version, venvs.join(', ')))
+      }
+      else {
+        removable.push({ name: pkg.name, version })
+      }
+    }
+  }
+
+  if (removable.length === 0) {
+    if (kept.length > 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('Old versions were kept because workspace venvs still use them: {0}', kept.join('; ')))
+    }
+    return
+  }
+
+  const detail = [
+    ...removable.map(target => `${target.name} ${target.version}`),
+    ...kept.length > 0 ? ['', vscode.l10n.t('Kept because workspace venvs still use them:'), ...kept] : [],
+  ].join('\n')
+  const remove = vscode.l10n.t('Remove Old Versions')
+  const choice = await vscode.window.showInformationMessage(
+    vscode.l10n.t('Remove {0} old version(s) that no workspace venv uses?', removable.length),
+    { modal: true, detail },
+    remove,
+  )
+  if (choice === remove) {
+    await runBatch('uninstall', removable, provider, service, { skipConfirm: true, initiator })
+  }
+}
+
+async function upgradePackages(
+  updates: PackageUpdate[],
+  provider: PackagesTreeProvider,
+  service: PackageJobsService,
+  initiator: RuyiInitiator,
+): Promise<void> {
+  if (updates.length === 0) {
+    vscode.window.showInformationMessage(vscode.l10n.t('All installed packages are up to date.'))
+    return
+  }
+
+  const targets = updates.map(({ pkg, latest }) => ({ name: pkg.name, version: latest.version, downloadSize: latest.downloadSize }))
+  const summary = await runBatch('install', targets, provider, service, {
+    confirmMessage: vscode.l10n.t('Upgrade {0} package(s) to the newest version?', updates.length),
+    initiator,
+  })
+  if (!summary) {
+    return
+  }
+
+  const upgraded = updates.filter(({ pkg, latest }) => summary.succeeded.some(job => job.name === pkg.name && job.version === latest.version))
+  await offerRemoveOldVersions(upgraded, provider, service, initiator)
+}
+
+export default function registerUpgradeCommands(ctx: vscode.ExtensionContext, provider: PackagesTreeProvider, service: PackageJobsService) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.packages.upgrade', async (item: UpdateItem, selection?: unknown) => {
+      if (!(item instanceof UpdateItem)) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Invalid package selection.'))
+        return
+      }
+      const selected = Array.isArray(selection) && selection.includes(item)
+        ? selection.filter((selected): selected is UpdateItem => selected instanceof UpdateItem)
+        : [item]
+      await upgradePackages(selected.map(selected => selected.update), provider, service, 'upgrade')
+    }),
+
+    vscode.commands.registerCommand('ruyi.packages.upgradeAll', () => upgradePackages(provider.getUpdates(), provider, service, 'upgrade-all')),
+  )
+}
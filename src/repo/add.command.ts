@@ -1,8 +1,13 @@
 import * as vscode from 'vscode'
 
-import ruyi from '../ruyi'
+import ruyi, { RuyiError, showRuyiError } from '../ruyi'
+import { requireCapability } from '../ruyi/capabilities'
 
 export async function addRepoCommand(): Promise<void> {
+  if (!await requireCapability('hasRepoCommand', vscode.l10n.t('Repository management'))) {
+    return
+  }
+
   // 1. Ask the user for repo ID
   const id = await vscode.window.showInputBox({
     prompt: vscode.l10n.t('Enter the repository ID'),
@@ -74,10 +79,11 @@ export async function addRepoCommand(): Promise<void> {
     vscode.window.showInformationMessage(vscode.l10n.t('Repository {0} added successfully', id))
   }
   else {
-    vscode.window.showErrorMessage(vscode.l10n.t(
+    const error = new RuyiError(result)
+    await showRuyiError(vscode.l10n.t(
       'Failed to add repository {0}: {1}',
-      id, result.stderr || 'Unknown error',
-    ))
+      id, error.message,
+    ), error)
   }
 }
 
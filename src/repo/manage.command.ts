@@ -2,6 +2,7 @@
 
 import * as vscode from 'vscode'
 
+import { requireCapability } from '../ruyi/capabilities'
 import { RuyiRepoListOutput } from '../ruyi/types'
 
 import { getRepoList } from './repo.helper'
@@ -9,6 +10,10 @@ import { getRepoList } from './repo.helper'
 type RepoListQuickPickItem = vscode.QuickPickItem & { ty: 'addNewRepo' | 'repo', repo?: RuyiRepoListOutput }
 
 async function manageRepoCommand(): Promise<void> {
+  if (!await requireCapability('hasRepoCommand', vscode.l10n.t('Repository management'))) {
+    return
+  }
+
   const items = await repoListForQuickPick()
   items.push({
     iconPath: new vscode.ThemeIcon('plus'),
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode'
 
-import ruyi from '../ruyi'
+import ruyi, { RuyiError, showRuyiError } from '../ruyi'
 
 export async function removeRepoCommand(repoId: string): Promise<void> {
   const result = await ruyi.repoRemove(repoId, false)
@@ -8,7 +8,8 @@ export async function removeRepoCommand(repoId: string): Promise<void> {
     vscode.window.showInformationMessage(vscode.l10n.t('Repository {0} removed successfully', repoId))
   }
   else {
-    vscode.window.showErrorMessage(vscode.l10n.t('Failed to remove repository {0}: {1}', repoId, result.stderr || 'Unknown error'))
+    const error = new RuyiError(result)
+    await showRuyiError(vscode.l10n.t('Failed to remove repository {0}: {1}', repoId, error.message), error)
   }
 }
 
@@ -1,8 +1,8 @@
 // SPDX-License-Identifier: Apache-2.0
 
-import { parseNDJSON } from '../common/helpers'
 import { logger } from '../common/logger'
 import ruyi from '../ruyi'
+import { parsePorcelain } from '../ruyi/schema'
 import { RuyiRepoListOutput } from '../ruyi/types'
 
 export async function getRepoList(): Promise<RuyiRepoListOutput[]> {
@@ -17,5 +17,5 @@ export async function getRepoList(): Promise<RuyiRepoListOutput[]> {
 }
 
 export function parseRepoList(output: string): RuyiRepoListOutput[] {
-  return parseNDJSON<RuyiRepoListOutput>(output)
+  return parsePorcelain<RuyiRepoListOutput>(output, 'repo-list')
 }
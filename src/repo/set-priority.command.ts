@@ -1,6 +1,6 @@
 import * as vscode from 'vscode'
 
-import ruyi from '../ruyi'
+import ruyi, { RuyiError, showRuyiError } from '../ruyi'
 
 export async function setPriorityCommand(repoId: string): Promise<void> {
   const input = await vscode.window.showInputBox({
@@ -24,10 +24,11 @@ export async function setPriorityCommand(repoId: string): Promise<void> {
     ))
   }
   else {
-    vscode.window.showErrorMessage(vscode.l10n.t(
+    const error = new RuyiError(result)
+    await showRuyiError(vscode.l10n.t(
       'Failed to set priority for repository {0}: {1}',
-      repoId, result.stderr || 'Unknown error',
-    ))
+      repoId, error.message,
+    ), error)
   }
 }
 
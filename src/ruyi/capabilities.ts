@@ -0,0 +1,240 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Ruyi Capabilities
+ *
+ * Probes the active ruyi once per session and exposes what it supports as a
+ * typed feature set. Features are also published as `ruyi.capabilities.*`
+ * context keys so that menus and the command palette can be gated on them.
+ * The registry is re-probed whenever `ruyi.ruyiPath` or the executor changes,
+ * after ruyi was detected, installed or upgraded, and on next use after a
+ * probe that could not run ruyi.
+ */
+
+import * as vscode from 'vscode'
+
+import { configuration } from '../common/configuration'
+import { CONFIG_KEYS } from '../common/constants'
+import { fullKey } from '../common/helpers'
+import { logger } from '../common/logger'
+
+import { setDetectedRuyiVersion } from './compat'
+
+import ruyi from './index'
+
+/**
+ * Features that depend on the installed ruyi
+ */
+export interface RuyiFeatures {
+  /** `ruyi repo` subcommands (add, remove, enable, ...) */
+  hasRepoCommand: boolean
+  /** `ruyi entity` subcommands */
+  hasEntityCommand: boolean
+  /** `profile-v1` entities, used to list venv profiles */
+  hasProfileEntities: boolean
+  /** `ruyi venv --project-sysroot-from-rootfs` */
+  hasProjectSysroot: boolean
+  /** `ruyi device provision` */
+  hasDeviceProvision: boolean
+  /** `ruyi config` subcommands */
+  hasConfigCommand: boolean
+}
+
+export type RuyiFeature = keyof RuyiFeatures
+
+const FEATURES: RuyiFeature[] = [
+  'hasRepoCommand',
+  'hasEntityCommand',
+  'hasProfileEntities',
+  'hasProjectSysroot',
+  'hasDeviceProvision',
+  'hasConfigCommand',
+]
+
+export interface RuyiCapabilities extends RuyiFeatures {
+  /** Parsed version of the active ruyi, null if unknown */
+  version: string | null
+  /** Top-level subcommands listed by `ruyi --help` */
+  subcommands: string[]
+  /** Entity types known to `ruyi entity list` */
+  entityTypes: string[]
+}
+
+/**
+ * Capabilities of a ruyi that could not be probed
+ */
+const NO_CAPABILITIES: RuyiCapabilities = {
+  version: null,
+  subcommands: [],
+  entityTypes: [],
+  hasRepoCommand: false,
+  hasEntityCommand: false,
+  hasProfileEntities: false,
+  hasProjectSysroot: false,
+  hasDeviceProvision: false,
+  hasConfigCommand: false,
+}
+
+/**
+ * Parse the subcommand choices of an argparse help text,
+ * e.g. "{list,install,venv}" -> ['list', 'install', 'venv'].
+ */
+export function parseSubcommands(helpText: string): string[] {
+  const choices = helpText.match(/\{([\w,-]+)\}/)
+  return choices ? choices[1].split(',') : []
+}
+
+/**
+ * Collect the entity types from `ruyi --porcelain entity list` output.
+ * Each record carries its payload keyed by the entity type.
+ */
+export function parseEntityTypes(output: string): string[] {
+  const types = new Set<string>()
+  for (const line of output.split(/\r?\n/)) {
+    try {
+      const data = JSON.parse(line)?.data
+      if (data && typeof data === 'object') {
+        Object.keys(data).forEach(type => types.add(type))
+      }
+    }
+    catch {
+      // Skip non-JSON lines
+    }
+  }
+  return [...types].sort()
+}
+
+async function probe(): Promise<RuyiCapabilities> {
+  const invoker = ruyi.timeout(30_000)
+  const [versionOutput, help, venvHelp] = await Promise.all([
+    invoker.version(),
+    invoker.help(),
+    invoker.help(['venv']),
+  ])
+
+  const { version } = setDetectedRuyiVersion(versionOutput)
+  const subcommands = help.code === 0 ? parseSubcommands(help.stdout) : []
+  const hasEntityCommand = subcommands.includes('entity')
+
+  let entityTypes: string[] = []
+  if (hasEntityCommand) {
+    const entities = await invoker.listEntities()
+    entityTypes = entities.code === 0 ? parseEntityTypes(entities.stdout) : []
+  }
+
+  let hasDeviceProvision = false
+  if (subcommands.includes('device')) {
+    const deviceHelp = await invoker.help(['device'])
+    hasDeviceProvision = parseSubcommands(deviceHelp.stdout).includes('provision')
+  }
+
+  return {
+    version,
+    subcommands,
+    entityTypes,
+    hasRepoCommand: subcommands.includes('repo'),
+    hasEntityCommand,
+    hasProfileEntities: entityTypes.includes('profile-v1'),
+    hasProjectSysroot: venvHelp.stdout.includes('--project-sysroot-from-rootfs'),
+    hasDeviceProvision,
+    hasConfigCommand: subcommands.includes('config'),
+  }
+}
+
+/**
+ * Whether a probe could not run ruyi at all, e.g. as it is not installed yet.
+ */
+function isFailedProbe(capabilities: RuyiCapabilities): boolean {
+  return capabilities.version === null && capabilities.subcommands.length === 0
+}
+
+class CapabilityRegistry implements vscode.Disposable {
+  private probing: Promise<RuyiCapabilities> | null = null
+  private readonly emitter = new vscode.EventEmitter<RuyiCapabilities>()
+  private readonly disposables: vscode.Disposable[] = [this.emitter]
+
+  /**
+   * Fired after the active ruyi has been (re-)probed.
+   */
+  readonly onDidChange = this.emitter.event
+
+  constructor() {
+    this.disposables.push(configuration.registerConfigChangeHandler((event) => {
+      if (event.affectsConfiguration(fullKey(CONFIG_KEYS.RUYI_PATH)) || event.affectsConfiguration('ruyi.executor')) {
+        void this.reprobe()
+      }
+    }))
+  }
+
+  /**
+   * Get the capabilities of the active ruyi, probing it on first use.
+   */
+  get(): Promise<RuyiCapabilities> {
+    return this.probing ?? this.reprobe()
+  }
+
+  /**
+   * Check a single feature of the active ruyi.
+   */
+  async has(feature: RuyiFeature): Promise<boolean> {
+    return (await this.get())[feature]
+  }
+
+  /**
+   * Probe the active ruyi again, e.g. after it was replaced.
+   */
+  reprobe(): Promise<RuyiCapabilities> {
+    const probing = probe()
+      .catch((error) => {
+        logger.error('Failed to probe ruyi capabilities:', error)
+        return NO_CAPABILITIES
+      })
+      .then(async (capabilities) => {
+        // A newer probe may have started meanwhile
+        if (this.probing === probing) {
+          await this.publish(capabilities)
+          // Without a working ruyi, probe again on next use instead of
+          // keeping everything disabled until the window is reloaded
+          if (this.probing === probing && isFailedProbe(capabilities)) {
+            this.probing = null
+          }
+        }
+        return capabilities
+      })
+    this.probing = probing
+    return probing
+  }
+
+  private async publish(capabilities: RuyiCapabilities): Promise<void> {
+    const enabled = FEATURES.filter(feature => capabilities[feature])
+    logger.info(`Ruyi ${capabilities.version ?? '(unknown version)'} capabilities: ${enabled.join(', ') || 'none'}`)
+
+    await Promise.all(FEATURES.map(feature =>
+      vscode.commands.executeCommand('setContext', `ruyi.capabilities.${feature}`, capabilities[feature])))
+
+    this.emitter.fire(capabilities)
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose())
+  }
+}
+
+export const ruyiCapabilities = new CapabilityRegistry()
+
+/**
+ * Ensure the active ruyi supports a feature, telling the user otherwise.
+ * @returns true if the feature is available
+ */
+export async function requireCapability(feature: RuyiFeature, featureName: string): Promise<boolean> {
+  const capabilities = await ruyiCapabilities.get()
+  if (capabilities[feature]) {
+    return true
+  }
+
+  vscode.window.showWarningMessage(vscode.l10n.t(
+    '{0} is not supported by the installed Ruyi ({1}). Please upgrade Ruyi to use it.',
+    featureName,
+    capabilities.version ?? vscode.l10n.t('unknown version'),
+  ))
+  return false
+}
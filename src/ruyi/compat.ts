@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Ruyi Compatibility
+ *
+ * Maps ruyi releases to the porcelain records they emit, so that the
+ * extension can adapt to older CLIs and warn when the installed ruyi is
+ * unsupported.
+ */
+
+import * as semver from 'semver'
+
+import type { PorcelainRecordType } from './schema'
+
+/**
+ * Oldest ruyi release the extension supports
+ */
+export const MIN_SUPPORTED_RUYI_VERSION = '0.19.0'
+
+/**
+ * Newest ruyi release line the extension has been tested against
+ */
+export const MAX_TESTED_RUYI_VERSION = '0.49.x'
+
+/**
+ * First ruyi release emitting each porcelain record type
+ */
+const RECORD_SINCE: Record<PorcelainRecordType, string> = {
+  'pkglistoutput-v1': '0.19.0',
+  'newsitem-v1': '0.19.0',
+  'profile-v1': '0.19.0',
+  'entity': '0.19.0',
+  'repo-list': '0.45.0',
+}
+
+export type RuyiSupportStatus
+  = | 'supported'
+    | 'too-old'
+    | 'newer-than-tested'
+    | 'unknown'
+
+export interface RuyiCompatibility {
+  /** Parsed version, null if it could not be determined */
+  version: string | null
+  status: RuyiSupportStatus
+  /** Porcelain record types this version emits */
+  records: PorcelainRecordType[]
+}
+
+let detectedVersion: string | null = null
+
+/**
+ * Parse the first semver out of `ruyi --version` output,
+ * e.g. "Ruyi 0.42.0" -> "0.42.0".
+ */
+export function parseRuyiVersion(versionOutput: string): string | null {
+  return semver.coerce(versionOutput, { includePrerelease: true })?.version ?? null
+}
+
+/**
+ * Determine what the given ruyi version supports.
+ * @param versionOutput Output of `ruyi --version`, or null if unknown
+ */
+export function checkRuyiCompatibility(versionOutput: string | null): RuyiCompatibility {
+  const version = versionOutput ? parseRuyiVersion(versionOutput) : null
+  if (!version) {
+    // Assume everything is available rather than disabling features
+    return { version: null, status: 'unknown', records: Object.keys(RECORD_SINCE) as PorcelainRecordType[] }
+  }
+
+  const records = (Object.entries(RECORD_SINCE) as Array<[PorcelainRecordType, string]>)
+    .filter(([, since]) => semver.gte(version, since))
+    .map(([type]) => type)
+
+  let status: RuyiSupportStatus = 'supported'
+  if (semver.lt(version, MIN_SUPPORTED_RUYI_VERSION)) {
+    status = 'too-old'
+  }
+  else if (semver.gtr(version, MAX_TESTED_RUYI_VERSION)) {
+    status = 'newer-than-tested'
+  }
+
+  return { version, status, records }
+}
+
+/**
+ * Record the version of the active ruyi, as reported by `ruyi --version`.
+ * Called whenever the active installation is (re-)detected.
+ */
+export function setDetectedRuyiVersion(versionOutput: string | null): RuyiCompatibility {
+  const compatibility = checkRuyiCompatibility(versionOutput)
+  detectedVersion = compatibility.version
+  return compatibility
+}
+
+/**
+ * Version of the active ruyi, or null if it has not been detected yet.
+ */
+export function getDetectedRuyiVersion(): string | null {
+  return detectedVersion
+}
+
+/**
+ * Whether the active ruyi emits the given record type.
+ * Returns true while the version is unknown.
+ */
+export function isRecordTypeSupported(type: PorcelainRecordType): boolean {
+  return checkRuyiCompatibility(detectedVersion).records.includes(type)
+}
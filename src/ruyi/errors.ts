@@ -0,0 +1,204 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Ruyi Errors
+ *
+ * Classifies failed Ruyi CLI invocations into a small set of error kinds so
+ * that UI surfaces can show a tailored message and relevant follow-up actions
+ * instead of pasting raw stderr into a message box.
+ */
+
+import * as vscode from 'vscode'
+
+import { CONFIG_KEYS } from '../common/constants'
+import { fullKey } from '../common/helpers'
+import { logger } from '../common/logger'
+
+import type { RuyiResult } from './index'
+
+export type RuyiErrorKind
+  = | 'cli-not-found'
+    | 'network'
+    | 'checksum-mismatch'
+    | 'package-not-found'
+    | 'no-binary-for-host'
+    | 'permission-denied'
+    | 'timeout'
+    | 'cancelled'
+    | 'unknown'
+
+/**
+ * Output patterns for each error kind, checked in order.
+ * Ruyi itself and the tools it drives (curl, wget, tar) produce these.
+ */
+const ERROR_PATTERNS: Array<[Exclude<RuyiErrorKind, 'timeout' | 'cancelled' | 'unknown'>, RegExp]> = [
+  ['cli-not-found', /No module named ruyi|spawn \S+ ENOENT|ruyi: (command )?not found/i],
+  // Anchored to ruyi's messages, as package names and paths may contain e.g. "sha256"
+  ['checksum-mismatch', /checksum mismatch|wrong \w+ checksum|wrong file size|digest mismatch|size mismatch/i],
+  ['no-binary-for-host', /no binary for (the )?(current )?host|no-binary-for-current-host/i],
+  ['package-not-found', /matches no package|no package (found|matches|matching)|package .* not found|no such package/i],
+  ['permission-denied', /permission denied|EACCES|EPERM|operation not permitted|read-only file system/i],
+  ['network', /could not resolve host|name resolution|network is unreachable|connection (refused|reset|timed out)|failed to connect|urlopen error|HTTP Error \d+|curl: \(\d+\)|failed to fetch|unable to access|\bSSLError\b|\[SSL: \w+\]|CERTIFICATE_VERIFY_FAILED|SSL certificate problem/i],
+]
+
+/**
+ * Determine the error kind of a failed Ruyi invocation.
+ */
+export function classifyRuyiFailure(result: RuyiResult): RuyiErrorKind {
+  if (result.cancelled) {
+    return 'cancelled'
+  }
+  if (result.timedOut) {
+    return 'timeout'
+  }
+
+  const output = `${result.stderr}\n${result.stdout}`
+  return ERROR_PATTERNS.find(([, pattern]) => pattern.test(output))?.[0] ?? 'unknown'
+}
+
+/**
+ * A failed Ruyi CLI invocation.
+ * Carries the error kind plus the complete stdout/stderr for diagnostics.
+ */
+export class RuyiError extends Error {
+  public readonly kind: RuyiErrorKind
+
+  constructor(public readonly result: RuyiResult) {
+    const kind = classifyRuyiFailure(result)
+    super(describeKind(kind, result))
+    this.name = 'RuyiError'
+    this.kind = kind
+  }
+
+  /**
+   * Complete output of the failed command, suitable for a log document.
+   */
+  get fullOutput(): string {
+    return [
+      `exit code: ${this.result.code}`,
+      `error kind: ${this.kind}`,
+      '',
+      '--- stdout ---',
+      this.result.stdout,
+      '',
+      '--- stderr ---',
+      this.result.stderr,
+    ].join('\n')
+  }
+}
+
+function describeKind(kind: RuyiErrorKind, result: RuyiResult): string {
+  switch (kind) {
+    case 'cli-not-found':
+      return vscode.l10n.t('Ruyi CLI was not found. Install RuyiSDK or set its path in the settings.')
+    case 'network':
+      return vscode.l10n.t('A network error occurred while downloading. Check your connection or proxy settings.')
+    case 'checksum-mismatch':
+      return vscode.l10n.t('A downloaded file failed checksum verification. Cleaning the download cache may help.')
+    case 'package-not-found':
+      return vscode.l10n.t('The package was not found. Updating the package index may help.')
+    case 'no-binary-for-host':
+      return vscode.l10n.t('The package has no binary for the current host.')
+    case 'permission-denied':
+      return vscode.l10n.t('Permission denied while writing files.')
+    case 'timeout':
+      return vscode.l10n.t('The command timed out.')
+    case 'cancelled':
+      return vscode.l10n.t('Command cancelled')
+    default:
+      return result.stderr || result.stdout || vscode.l10n.t('Unknown error')
+  }
+}
+
+/**
+ * Throw a RuyiError if the invocation failed, otherwise return the result.
+ */
+export function checkRuyiResult(result: RuyiResult): RuyiResult {
+  if (result.code !== 0) {
+    throw new RuyiError(result)
+  }
+  return result
+}
+
+/**
+ * Open the full output of a failed command in a read-only log document.
+ */
+async function showFullLog(error: RuyiError): Promise<void> {
+  const doc = await vscode.workspace.openTextDocument({ content: error.fullOutput, language: 'log' })
+  await vscode.window.showTextDocument(doc, { preview: true })
+}
+
+/**
+ * Show an error notification tailored to the error kind.
+ * Cancellations are not reported.
+ *
+ * @param message Message describing what failed, e.g. "Failed to install foo: {reason}"
+ * @param error The error raised by the failed invocation
+ * @param retry Optional callback offered as a "Retry" action
+ */
+export async function showRuyiError(
+  message: string,
+  error: RuyiError,
+  retry?: () => unknown,
+): Promise<void> {
+  if (error.kind === 'cancelled') {
+    return
+  }
+
+  logger.error(`${message}\n${error.fullOutput}`)
+
+  const retryAction = vscode.l10n.t('Retry')
+  const logAction = vscode.l10n.t('Show Full Log')
+  const settingsAction = vscode.l10n.t('Open Settings')
+  const installAction = vscode.l10n.t('Install RuyiSDK')
+  const updateIndexAction = vscode.l10n.t('Update Package Index')
+  const cleanAction = vscode.l10n.t('Clean Cache')
+
+  const actions: string[] = []
+  switch (error.kind) {
+    case 'cli-not-found':
+      actions.push(installAction, settingsAction)
+      break
+    case 'package-not-found':
+      actions.push(updateIndexAction)
+      break
+    case 'checksum-mismatch':
+      actions.push(cleanAction)
+      break
+    case 'network':
+    case 'timeout':
+    case 'unknown':
+      if (retry) {
+        actions.push(retryAction)
+      }
+      break
+    default:
+      break
+  }
+  if (error.kind !== 'cli-not-found') {
+    actions.push(logAction)
+  }
+
+  const choice = await vscode.window.showErrorMessage(message, ...actions)
+  switch (choice) {
+    case retryAction:
+      await retry?.()
+      break
+    case logAction:
+      await showFullLog(error)
+      break
+    case settingsAction:
+      await vscode.commands.executeCommand('workbench.action.openSettings', fullKey(CONFIG_KEYS.RUYI_PATH))
+      break
+    case installAction:
+      await vscode.commands.executeCommand('ruyi.setup.install')
+      break
+    case updateIndexAction:
+      await vscode.commands.executeCommand('ruyi.packages.refresh')
+      break
+    case cleanAction:
+      await vscode.commands.executeCommand('ruyi.clean')
+      break
+    default:
+      break
+  }
+}
@@ -0,0 +1,180 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Ruyi Progress Events
+ *
+ * Decodes the output of `ruyi --porcelain` commands into typed progress
+ * phases. Ruyi writes structured log records (log-v1) to stderr, interleaved
+ * with the raw progress meter of the downloader (curl/wget).
+ */
+
+import { parseDownloadProgress } from '../common/helpers'
+
+import type { RuyiLogOutput } from './types'
+
+/**
+ * A progress phase of a Ruyi command.
+ * `fetch` is emitted once when a download starts and again on every change of
+ * its percentage; `index`/`total` count downloads within the command.
+ */
+export type RuyiProgressEvent
+  = | { phase: 'resolve', message: string }
+    | { phase: 'fetch', message: string, file: string, index: number, total: number, percent?: number }
+    | { phase: 'verify', message: string, file?: string }
+    | { phase: 'extract', message: string, file?: string }
+    | { phase: 'done', success: boolean }
+
+export type RuyiProgressPhase = RuyiProgressEvent['phase']
+
+/**
+ * Progress event callback
+ */
+export type ProgressEventCallback = (event: RuyiProgressEvent) => void
+
+const FETCH_PATTERN = /^(?:downloading|fetching)\s+(\S+)/i
+const FETCH_SKIPPED_PATTERN = /^distfile\s+(\S+)\s+is already (?:present|downloaded)/i
+const VERIFY_PATTERN = /^(?:checking|verifying)\s+(\S+)|checksum/i
+const EXTRACT_PATTERN = /^(?:extracting|unpacking)\s+(\S+)/i
+
+/**
+ * Strip Rich console markup (e.g. "[yellow]foo[/]") from a log message.
+ */
+function stripMarkup(message: string): string {
+  return message.replace(/\[\/?[a-z0-9 _.#=:/-]*\]/gi, '')
+}
+
+/**
+ * Parse a single porcelain log record, or return null for any other line.
+ */
+export function parseLogRecord(line: string): RuyiLogOutput | null {
+  if (!line.startsWith('{')) {
+    return null
+  }
+  try {
+    const record = JSON.parse(line) as Partial<RuyiLogOutput>
+    if (record.ty === 'log-v1' && typeof record.msg === 'string') {
+      return { ...record, msg: stripMarkup(record.msg) } as RuyiLogOutput
+    }
+  }
+  catch {
+    // Not a JSON line
+  }
+  return null
+}
+
+/**
+ * Render porcelain log records as plain text, leaving other lines untouched.
+ * Used to keep the captured stderr of a porcelain command human-readable.
+ */
+export function renderPorcelainLog(output: string): string {
+  return output
+    .split('\n')
+    .map(line => parseLogRecord(line.trim())?.msg ?? line)
+    .join('\n')
+}
+
+/**
+ * Stateful decoder turning output lines of a porcelain command into
+ * progress events.
+ *
+ * @example
+ * ```typescript
+ * const decoder = new ProgressEventDecoder(packages.length)
+ * for await (const { line } of streamRuyi(['--porcelain', 'install', ...packages])) {
+ *   decoder.push(line).forEach(handleEvent)
+ * }
+ * ```
+ */
+export class ProgressEventDecoder {
+  private fetchIndex = 0
+  private currentFile: string | undefined
+  private lastPercent: number | undefined
+
+  /**
+   * @param expectedFetches Number of downloads the command is expected to
+   *   perform (e.g. the number of requested packages), used as the initial
+   *   `total` of fetch events
+   */
+  constructor(private readonly expectedFetches = 0) { }
+
+  /**
+   * Decode one output line.
+   * @returns The events described by the line, possibly none
+   */
+  push(line: string): RuyiProgressEvent[] {
+    const trimmed = line.trim()
+    if (!trimmed) {
+      return []
+    }
+
+    const record = parseLogRecord(trimmed)
+    if (!record) {
+      return this.pushDownloadMeter(trimmed)
+    }
+    if (record.lvl === 'D') {
+      return []
+    }
+
+    const message = record.msg.trim()
+
+    const fetch = message.match(FETCH_PATTERN)
+    if (fetch) {
+      return [this.startFetch(message, fetch[1])]
+    }
+
+    const skipped = message.match(FETCH_SKIPPED_PATTERN)
+    if (skipped) {
+      return [{ ...this.startFetch(message, skipped[1]), percent: 100 }]
+    }
+
+    const extract = message.match(EXTRACT_PATTERN)
+    if (extract) {
+      return [{ phase: 'extract', message, file: extract[1] }]
+    }
+
+    const verify = message.match(VERIFY_PATTERN)
+    if (verify) {
+      return [{ phase: 'verify', message, file: verify[1] ?? this.currentFile }]
+    }
+
+    // Anything reported before the first download is dependency/package
+    // resolution; later informational messages carry no phase change.
+    if (this.fetchIndex === 0) {
+      return [{ phase: 'resolve', message }]
+    }
+    return []
+  }
+
+  /**
+   * Final event of the command.
+   */
+  finish(success: boolean): RuyiProgressEvent {
+    return { phase: 'done', success }
+  }
+
+  private get total(): number {
+    return Math.max(this.expectedFetches, this.fetchIndex)
+  }
+
+  private startFetch(message: string, url: string): Extract<RuyiProgressEvent, { phase: 'fetch' }> {
+    this.fetchIndex++
+    this.currentFile = url.split('/').pop() || url
+    this.lastPercent = undefined
+    return { phase: 'fetch', message, file: this.currentFile, index: this.fetchIndex, total: this.total }
+  }
+
+  private pushDownloadMeter(line: string): RuyiProgressEvent[] {
+    const percent = parseDownloadProgress(line)
+    if (percent === null || this.currentFile === undefined || percent === this.lastPercent) {
+      return []
+    }
+    this.lastPercent = percent
+    return [{
+      phase: 'fetch',
+      message: line,
+      file: this.currentFile,
+      index: this.fetchIndex,
+      total: this.total,
+      percent,
+    }]
+  }
+}
@@ -3,18 +3,28 @@
  * RuyiSDK VS Code Extension - Ruyi Invoker
  *
  * Provides cross-platform helpers for executing the Ruyi CLI with unified
- * result handling and high-level command wrappers.
+ * result handling and high-level command wrappers. Commands that mutate Ruyi
+ * state are serialized through the shared operation queue (./queue).
  */
 
-import { spawn } from 'child_process'
-import type { SpawnOptions } from 'child_process'
+import type { ChildProcess, SpawnOptions } from 'child_process'
 import { access, constants } from 'fs/promises'
 import * as path from 'path'
 import * as vscode from 'vscode'
 
 import { configuration } from '../common/configuration'
+import { getExecutor } from '../common/executor'
+import { killProcessTree, shellQuote, toAbortSignal } from '../common/helpers'
 import { logger } from '../common/logger'
 
+import { ProgressEventDecoder, renderPorcelainLog, type ProgressEventCallback } from './events'
+import { operationQueue, type QueuePositionCallback } from './queue'
+import { ruyiStateEnv } from './state'
+
+export type { ProgressEventCallback, RuyiProgressEvent, RuyiProgressPhase } from './events'
+export { operationQueue, type QueuePositionCallback } from './queue'
+export { RuyiError, checkRuyiResult, classifyRuyiFailure, showRuyiError, type RuyiErrorKind } from './errors'
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -27,6 +37,12 @@ export interface RuyiResult {
   stdout: string
   stderr: string
   code: number
+  /** Set when the command was aborted through its cancellation signal */
+  cancelled?: boolean
+  /** Set when the command was cancelled before its process was started */
+  notStarted?: boolean
+  /** Set when the command was killed after exceeding its timeout */
+  timedOut?: boolean
 }
 
 /**
@@ -35,15 +51,107 @@ export interface RuyiResult {
  */
 export type ProgressCallback = (lastLine: string) => void
 
+/**
+ * A single line of command output
+ */
+export interface RuyiOutputLine {
+  stream: 'stdout' | 'stderr'
+  line: string
+}
+
+/**
+ * Line-by-line output of a running command.
+ * Iterate it with `for await`; `result` settles once the command exits.
+ */
+export interface RuyiOutputStream extends AsyncIterable<RuyiOutputLine> {
+  readonly result: Promise<RuyiResult>
+}
+
 /**
  * Options for running Ruyi commands.
- * Includes working directory, environment variables, and optional timeout.
+ * Includes working directory, environment variables, optional timeout and
+ * an abort signal that terminates the whole process tree when triggered.
  */
 export interface RuyiRunOptions {
   cwd?: string
   env?: NodeJS.ProcessEnv
   timeout?: number
   onProgress?: ProgressCallback
+  signal?: AbortSignal
+  /** Called with the queue position while a mutating command waits its turn */
+  onQueued?: QueuePositionCallback
+  /** Called with decoded progress phases; runs the command in porcelain mode */
+  onEvent?: ProgressEventCallback
+  /** Who started a mutating command, reported with its state change */
+  initiator?: RuyiInitiator
+}
+
+/**
+ * An interactive Ruyi CLI process whose stdin is driven by the caller.
+ */
+export interface RuyiInteractiveSession {
+  /**
+   * The running process, spawned with piped stdio. Outside Windows it runs
+   * ruyi under a pseudoterminal, which echoes and edits the input itself.
+   */
+  readonly process: ChildProcess
+  /** Settles with the exit code once the process has exited */
+  readonly exit: Promise<number>
+}
+
+/**
+ * The part of the extension that started a mutating command.
+ * Commands without an initiator were started by other means, e.g. re-run
+ * from the activity log.
+ */
+export type RuyiInitiator
+  = | 'tree'
+    | 'upgrade'
+    | 'upgrade-all'
+    | 'venv-wizard'
+    | 'storage'
+    | 'host'
+    | 'rollback'
+    | 'cleanup'
+
+/**
+ * Fired when a command that mutates Ruyi state is about to run, once it is
+ * its turn in the operation queue.
+ */
+export interface RuyiWillChangeStateEvent {
+  /** Subcommand about to run, e.g. "install" or "repo" */
+  command: string
+  /** The same array as in the matching onDidChangeRuyiState event */
+  args: string[]
+  initiator?: RuyiInitiator
+  /** Delay the command until the promise settled, e.g. to snapshot state */
+  waitUntil(thenable: Promise<unknown>): void
+}
+
+/**
+ * Fired after a command that mutates Ruyi state has finished.
+ */
+export interface RuyiStateChangeEvent {
+  /** Subcommand that ran, e.g. "install" or "repo" */
+  command: string
+  args: string[]
+  result: RuyiResult
+  initiator?: RuyiInitiator
+}
+
+/**
+ * A finished Ruyi CLI invocation, as actually spawned.
+ */
+export interface RuyiInvocation {
+  /** Executable that was run (the ruyi path, or python3 for the fallback) */
+  command: string
+  args: string[]
+  cwd?: string
+  env: NodeJS.ProcessEnv
+  /** Start time in milliseconds since the epoch */
+  startedAt: number
+  durationMs: number
+  result: RuyiResult
 }
 
 // ----------------------------------------------------------------------------
@@ -131,6 +239,29 @@ export interface RepoAddOptions {
 // Core Execution
 // ============================================================================
 
+const willChangeStateEmitter = new vscode.EventEmitter<RuyiWillChangeStateEvent>()
+
+const stateChangeEmitter = new vscode.EventEmitter<RuyiStateChangeEvent>()
+
+const invocationEmitter = new vscode.EventEmitter<RuyiInvocation>()
+
+/**
+ * Event fired after every Ruyi CLI invocation, with its complete output.
+ */
+export const onDidRunRuyi = invocationEmitter.event
+
+/**
+ * Event fired before a mutating Ruyi command runs. Not fired for commands
+ * cancelled while queued.
+ */
+export const onWillChangeRuyiState = willChangeStateEmitter.event
+
+/**
+ * Event fired whenever a mutating Ruyi command (install, uninstall, update,
+ * repo/config changes, ...) finishes, whether or not it succeeded.
+ */
+export const onDidChangeRuyiState = stateChangeEmitter.event
+
 /**
  * Check if a file path is executable
  */
@@ -187,53 +318,93 @@ export async function resolveActiveRuyi(): Promise<string | null> {
 }
 
 /**
- * Execute a command with spawn and return the result
+ * Execute a command through the workspace executor and return the result
+ * @param onLine Called with every complete line of stdout and stderr
  */
 function executeCommand(
   command: string,
   args: string[],
   options?: RuyiRunOptions,
+  onLine?: (output: RuyiOutputLine) => void,
 ): Promise<RuyiResult> {
   return new Promise((resolve) => {
+    if (options?.signal?.aborted) {
+      resolve({
+        stdout: '',
+        stderr: vscode.l10n.t('Command cancelled'),
+        code: 1,
+        cancelled: true,
+        notStarted: true,
+      })
+      return
+    }
+
     const timeout = options?.timeout ?? 10_000
     const spawnOptions: SpawnOptions = {
       shell: false, // Don't use shell to avoid argument parsing issues
       cwd: options?.cwd,
       windowsHide: true,
       env: options?.env ?? process.env,
+      // Own process group so the whole tree can be killed on cancel/timeout
+      detached: process.platform !== 'win32',
     }
 
-    const child = spawn(command, args, spawnOptions)
+    const child = getExecutor().spawn(command, args, spawnOptions)
     let stdout = ''
     let stderr = ''
     let settled = false
     let timedOut = false
+    let cancelled = false
     let timer: NodeJS.Timeout | undefined
     let lastOutputLine = ''
+    const partialLines = { stdout: '', stderr: '' }
 
     // Setup timeout
     if (timeout > 0) {
       timer = setTimeout(() => {
         timedOut = true
-        child.kill()
+        killProcessTree(child)
       }, timeout)
     }
 
-    // Helper function to extract and report the last line
-    const updateLastLine = (newChunk: string) => {
-      if (!options?.onProgress) return
+    // Setup cancellation
+    const onAbort = () => {
+      cancelled = true
+      killProcessTree(child)
+    }
+    options?.signal?.addEventListener('abort', onAbort, { once: true })
+
+    const cleanup = () => {
+      if (timer) clearTimeout(timer)
+      options?.signal?.removeEventListener('abort', onAbort)
+    }
 
+    // Helper function to report a complete output line
+    const emitLine = (stream: RuyiOutputLine['stream'], line: string) => {
+      onLine?.({ stream, line })
+
+      // Only update progress if the line has changed to avoid redundant updates
+      const trimmed = line.trim()
+      if (options?.onProgress && trimmed && trimmed !== lastOutputLine) {
+        lastOutputLine = trimmed
+        options.onProgress(trimmed)
+      }
+    }
+
+    // Helper function to split a chunk into lines, keeping incomplete ones
+    const splitLines = (stream: RuyiOutputLine['stream'], chunk: string) => {
       // Split by both \n and \r to handle different line ending styles
       // curl uses \r for progress updates on the same line
-      const lines = newChunk.split(/[\r\n]+/).filter(line => line.trim())
-
-      if (lines.length > 0) {
-        // Get the last non-empty line from this chunk
-        const newLastLine = lines[lines.length - 1].trim()
-        // Only update if the line has changed to avoid redundant updates
-        if (newLastLine && newLastLine !== lastOutputLine) {
-          lastOutputLine = newLastLine
-          options.onProgress(newLastLine)
+      const lines = (partialLines[stream] + chunk).split(/\r\n|\r|\n/)
+      partialLines[stream] = lines.pop() ?? ''
+      lines.forEach(line => emitLine(stream, line))
+    }
+
+    const flushLines = () => {
+      for (const stream of ['stdout', 'stderr'] as const) {
+        if (partialLines[stream]) {
+          emitLine(stream, partialLines[stream])
+          partialLines[stream] = ''
         }
       }
     }
@@ -242,22 +413,21 @@ function executeCommand(
     child.stdout?.on('data', (chunk: Buffer | string) => {
       const text = chunk.toString()
       stdout += text
-      // Update with the new chunk, not the entire accumulated output
-      updateLastLine(text)
+      splitLines('stdout', text)
     })
 
     child.stderr?.on('data', (chunk: Buffer | string) => {
       const text = chunk.toString()
       stderr += text
       // Also check stderr for progress information
-      updateLastLine(text)
+      splitLines('stderr', text)
     })
 
     // Handle errors
     child.on('error', (err: Error) => {
       if (settled) return
       settled = true
-      if (timer) clearTimeout(timer)
+      cleanup()
 
       resolve({
         stdout,
@@ -270,12 +440,17 @@ function executeCommand(
     child.on('close', (code: number | null) => {
       if (settled) return
       settled = true
-      if (timer) clearTimeout(timer)
+      cleanup()
+      flushLines()
 
       let exitCode = code ?? 0
       let errorOutput = stderr
 
-      if (timedOut) {
+      if (cancelled) {
+        exitCode = exitCode || 1
+        errorOutput += (errorOutput ? '\n' : '') + vscode.l10n.t('Command cancelled')
+      }
+      else if (timedOut) {
         exitCode = exitCode || 1
         errorOutput += (errorOutput ? '\n' : '') + vscode.l10n.t('Command timed out')
       }
@@ -284,25 +459,73 @@ function executeCommand(
         stdout,
         stderr: errorOutput,
         code: exitCode,
+        ...(cancelled ? { cancelled } : {}),
+        ...(timedOut && !cancelled ? { timedOut } : {}),
       })
     })
   })
 }
 
+/**
+ * Resolve the executable and arguments that run ruyi with the given arguments.
+ * Falls back to `python3 -m ruyi` when no ruyi executable is found.
+ */
+async function resolveRuyiCommand(args: string[]): Promise<[command: string, args: string[]]> {
+  // On a remote executor the configured path refers to the target, defaulting to PATH
+  const ruyiPath = getExecutor().kind === 'local'
+    ? await resolveActiveRuyi()
+    : configuration.ruyiPath ?? 'ruyi'
+  return ruyiPath ? [ruyiPath, args] : ['python3', ['-m', 'ruyi', ...args]]
+}
+
+/**
+ * Size of the pseudoterminal an interactive command runs in.
+ */
+export interface TerminalSize {
+  columns: number
+  rows: number
+}
+
+/**
+ * Wrap a command in script(1) so that it runs under a pseudoterminal, e.g.
+ * for sudo to prompt for a password. Windows has no script(1).
+ */
+function withPseudoterminal(command: string, args: string[], size?: TerminalSize): [command: string, args: string[]] {
+  const local = getExecutor().kind === 'local'
+  if (local && process.platform === 'win32') {
+    return [command, args]
+  }
+  const sizeCommand = size ? `stty cols ${size.columns} rows ${size.rows} 2>/dev/null; ` : ''
+  const commandLine = `${sizeCommand}exec ${[command, ...args].map(shellQuote).join(' ')}`
+  // BSD script takes the command as arguments and has no -c
+  return local && process.platform === 'darwin'
+    ? ['script', ['-q', '/dev/null', 'sh', '-c', commandLine]]
+    : ['script', ['-qfec', commandLine, '/dev/null']]
+}
+
 /**
  * Execute Ruyi CLI command with automatic path resolution and result normalization
  */
 export async function runRuyi(
   args: string[],
   options?: RuyiRunOptions,
+  onLine?: (output: RuyiOutputLine) => void,
 ): Promise<RuyiResult> {
-  // Resolve ruyi executable or fallback to python3 -m ruyi
-  const ruyiPath = await resolveActiveRuyi()
-  const command = ruyiPath || 'python3'
-  const commandArgs = ruyiPath ? args : ['-m', 'ruyi', ...args]
+  const [command, commandArgs] = await resolveRuyiCommand(args)
 
   // Execute command
-  const result = await executeCommand(command, commandArgs, options)
+  const startedAt = Date.now()
+  const result = await executeCommand(command, commandArgs, options, onLine)
+
+  invocationEmitter.fire({
+    command,
+    args: commandArgs,
+    cwd: options?.cwd,
+    env: options?.env ?? process.env,
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    result,
+  })
 
   // Normalize output by trimming whitespace
   return {
@@ -312,6 +535,55 @@ export async function runRuyi(
   }
 }
 
+/**
+ * Execute Ruyi CLI command and stream its output line by line
+ *
+ * @example
+ * ```typescript
+ * const stream = streamRuyi(['--porcelain', 'install', 'gnu-upstream'])
+ * for await (const { stream: source, line } of stream) {
+ *   logger.debug(`[${source}] ${line}`)
+ * }
+ * const result = await stream.result
+ * ```
+ */
+export function streamRuyi(
+  args: string[],
+  options?: RuyiRunOptions,
+): RuyiOutputStream {
+  const buffered: RuyiOutputLine[] = []
+  let wakeUp: (() => void) | undefined
+  let finished = false
+
+  const result = runRuyi(args, options, (output) => {
+    buffered.push(output)
+    wakeUp?.()
+  }).finally(() => {
+    finished = true
+    wakeUp?.()
+  })
+
+  return {
+    result,
+    async* [Symbol.asyncIterator]() {
+      while (true) {
+        const next = buffered.shift()
+        if (next) {
+          yield next
+          continue
+        }
+        if (finished) {
+          return
+        }
+        await new Promise<void>((resolve) => {
+          wakeUp = resolve
+        })
+        wakeUp = undefined
+      }
+    },
+  }
+}
+
 // ============================================================================
 // High-level Command Wrappers - Builder Pattern
 // ============================================================================
@@ -323,6 +595,7 @@ export async function runRuyi(
  *   - Default: await Ruyi.list()
  *   - With timeout: await Ruyi.timeout(5000).list()
  *   - Chained: await Ruyi.cwd('/path').timeout(3000).install('pkg')
+ *   - Cancellable: await Ruyi.token(progressToken).install('pkg')
  */
 export class Ruyi {
   constructor(private readonly options: RuyiRunOptions = {}) { }
@@ -331,8 +604,134 @@ export class Ruyi {
     return new Ruyi({ ...this.options, ...options })
   }
 
+  /**
+   * Options for the next run, with the workspace state directories
+   * (see ./state) injected into the environment.
+   */
+  private get runOptions(): RuyiRunOptions {
+    return { ...this.options, env: { ...(this.options.env ?? process.env), ...ruyiStateEnv() } }
+  }
+
   private run(args: string[]): Promise<RuyiResult> {
-    return runRuyi(args, this.options)
+    if (this.options.onEvent) {
+      return this.runWithEvents(args, this.options.onEvent)
+    }
+    return runRuyi(args, this.runOptions)
+  }
+
+  /**
+   * Run a command in porcelain mode, decoding its log records into
+   * progress events as they arrive.
+   */
+  private async runWithEvents(args: string[], onEvent: ProgressEventCallback): Promise<RuyiResult> {
+    const porcelainArgs = args.includes('--porcelain') ? args : ['--porcelain', ...args]
+    const decoder = new ProgressEventDecoder(this.expectedFetches(args))
+
+    const stream = streamRuyi(porcelainArgs, this.runOptions)
+    for await (const { line } of stream) {
+      decoder.push(line).forEach(onEvent)
+    }
+
+    const result = await stream.result
+    onEvent(decoder.finish(result.code === 0))
+    return { ...result, stderr: renderPorcelainLog(result.stderr) }
+  }
+
+  /**
+   * Number of package atoms passed to install/extract, i.e. the number of
+   * distfiles the command is expected to fetch at least.
+   */
+  private expectedFetches(args: string[]): number {
+    const [command, ...rest] = args
+    if (command !== 'install' && command !== 'extract') {
+      return 0
+    }
+    // Skip flags and their values (e.g. "-d <dir>", "--host <arch>")
+    let count = 0
+    for (let i = 0; i < rest.length; i++) {
+      if (rest[i] === '-d' || rest[i] === '--host') {
+        i++
+      }
+      else if (!rest[i].startsWith('-')) {
+        count++
+      }
+    }
+    return count
+  }
+
+  /**
+   * Run a command that mutates Ruyi state (cache, repo, config).
+   * Such commands are serialized through the shared operation queue.
+   */
+  private async runExclusive(args: string[]): Promise<RuyiResult> {
+    const command = args.find(arg => !arg.startsWith('-')) ?? ''
+    const result = await operationQueue.enqueue(async () => {
+      if (!this.options.signal?.aborted) {
+        const waits: Promise<unknown>[] = []
+        willChangeStateEmitter.fire({
+          command,
+          args,
+          initiator: this.options.initiator,
+          waitUntil: thenable => waits.push(thenable),
+        })
+        await Promise.allSettled(waits)
+      }
+      return this.run(args)
+    }, {
+      label: args.filter(arg => !arg.startsWith('-')).slice(0, 2).join(' '),
+      onQueued: this.options.onQueued,
+      signal: this.options.signal,
+    })
+    if (!result.cancelled) {
+      stateChangeEmitter.fire({ command, args, result, initiator: this.options.initiator })
+    }
+    return result
+  }
+
+  /**
+   * Start an interactive command under a pseudoterminal once it is its turn
+   * in the operation queue. The queue stays blocked until the process exits.
+   */
+  private spawnExclusive(args: string[], size?: TerminalSize): Promise<RuyiInteractiveSession> {
+    return new Promise((resolveSession, rejectSession) => {
+      const finished = operationQueue.enqueue(async () => {
+        // Dequeued because the session was cancelled while waiting
+        if (this.options.signal?.aborted) {
+          throw new vscode.CancellationError()
+        }
+        const [command, commandArgs] = withPseudoterminal(...await resolveRuyiCommand(args), size)
+        const { cwd, env } = this.runOptions
+        const child = getExecutor().spawn(command, commandArgs, {
+          cwd,
+          // Prompts are written without a trailing newline, so disable buffering
+          env: { ...env, PYTHONUNBUFFERED: '1' },
+          stdio: 'pipe',
+          windowsHide: true,
+          detached: process.platform !== 'win32',
+        })
+
+        const exit = new Promise<number>((resolve) => {
+          child.on('error', (err) => {
+            logger.error(`Failed to start ruyi ${args.join(' ')}:`, err)
+            resolve(1)
+          })
+          child.on('close', code => resolve(code ?? 1))
+        })
+        resolveSession({ process: child, exit })
+
+        const result: RuyiResult = { stdout: '', stderr: '', code: await exit }
+        return result
+      }, {
+        label: args.join(' '),
+        onQueued: this.options.onQueued,
+        signal: this.options.signal,
+      })
+
+      finished.then(
+        result => stateChangeEmitter.fire({ command: args[0], args, result, initiator: this.options.initiator }),
+        rejectSession,
+      )
+    })
   }
 
   // ============================================================================
@@ -367,6 +766,42 @@ export class Ruyi {
     return this.with({ onProgress: callback })
   }
 
+  /**
+   * Set progress event callback for command execution.
+   * The command runs in porcelain mode so that its log records can be decoded.
+   */
+  onEvent(callback: ProgressEventCallback): Ruyi {
+    return this.with({ onEvent: callback })
+  }
+
+  /**
+   * Set abort signal for command execution
+   */
+  signal(signal: AbortSignal): Ruyi {
+    return this.with({ signal })
+  }
+
+  /**
+   * Bind command execution to a VS Code cancellation token
+   */
+  token(token: vscode.CancellationToken): Ruyi {
+    return this.signal(toAbortSignal(token))
+  }
+
+  /**
+   * Set queue position callback for mutating commands
+   */
+  onQueued(callback: QueuePositionCallback): Ruyi {
+    return this.with({ onQueued: callback })
+  }
+
+  /**
+   * Tag mutating commands with the part of the extension that started them
+   */
+  initiator(initiator: RuyiInitiator): Ruyi {
+    return this.with({ initiator })
+  }
+
   // ============================================================================
   // Version Command
   // ============================================================================
@@ -408,11 +843,37 @@ export class Ruyi {
     return this.run(args)
   }
 
+  /**
+   * Run arbitrary ruyi arguments, e.g. to repeat a recorded invocation.
+   * Serialized like mutating commands since the effect is not known.
+   */
+  async exec(args: string[]): Promise<RuyiResult> {
+    return this.runExclusive(args)
+  }
+
+  /**
+   * Show the help text of ruyi or one of its subcommands
+   */
+  async help(subcommand: string[] = []): Promise<RuyiResult> {
+    return this.run([...subcommand, '--help'])
+  }
+
+  /**
+   * List entities, optionally restricted to one entity type
+   */
+  async listEntities(type?: string): Promise<RuyiResult> {
+    const args = ['--porcelain', 'entity', 'list']
+    if (type) {
+      args.push('-t', type)
+    }
+    return this.run(args)
+  }
+
   /**
    * List all available profiles using entity command
    */
   async listProfiles(): Promise<RuyiResult> {
-    return this.run(['--porcelain', 'entity', 'list', '-t', 'profile-v1'])
+    return this.listEntities('profile-v1')
   }
 
   // ============================================================================
@@ -441,7 +902,7 @@ export class Ruyi {
     const pkgArray = Array.isArray(packages) ? packages : [packages]
     args.push(...pkgArray)
 
-    return this.run(args)
+    return this.runExclusive(args)
   }
 
   // ============================================================================
@@ -457,7 +918,7 @@ export class Ruyi {
     const pkgArray = Array.isArray(packages) ? packages : [packages]
     args.push(...pkgArray)
 
-    return this.run(args)
+    return this.runExclusive(args)
   }
 
   /**
@@ -475,7 +936,7 @@ export class Ruyi {
    * Update RuyiSDK repo and packages
    */
   async update(): Promise<RuyiResult> {
-    return this.run(['update'])
+    return this.runExclusive(['update'])
   }
 
   // ============================================================================
@@ -507,7 +968,7 @@ export class Ruyi {
     const pkgArray = Array.isArray(packages) ? packages : [packages]
     args.push(...pkgArray)
 
-    return this.run(args)
+    return this.runExclusive(args)
   }
 
   // ============================================================================
@@ -558,7 +1019,7 @@ export class Ruyi {
 
     args.push(profile, dest)
 
-    return this.run(args)
+    return this.runExclusive(args)
   }
 
   // ============================================================================
@@ -566,17 +1027,19 @@ export class Ruyi {
   // ============================================================================
 
   /**
-   * Interactively initialize a device for development
+   * Interactively initialize a device for development.
+   * The wizard reads its answers from the session's stdin.
+   * @param size Size of the terminal showing the wizard
    */
-  async deviceProvision(): Promise<RuyiResult> {
-    return this.run(['device', 'provision'])
+  async deviceProvision(size?: TerminalSize): Promise<RuyiInteractiveSession> {
+    return this.spawnExclusive(['device', 'provision'], size)
   }
 
   /**
    * Alias for deviceProvision
    */
-  async deviceFlash(): Promise<RuyiResult> {
-    return this.deviceProvision()
+  async deviceFlash(size?: TerminalSize): Promise<RuyiInteractiveSession> {
+    return this.deviceProvision(size)
   }
 
   // ============================================================================
@@ -638,7 +1101,7 @@ export class Ruyi {
    * Give consent to telemetry data uploads (enable telemetry)
    */
   async telemetryConsent(): Promise<TelemetryStatus> {
-    await this.run(['telemetry', 'consent'])
+    await this.runExclusive(['telemetry', 'consent'])
     return this.telemetryStatus()
   }
 
@@ -646,7 +1109,7 @@ export class Ruyi {
    * Set telemetry mode to local collection only
    */
   async telemetryLocal(): Promise<TelemetryStatus> {
-    await this.run(['telemetry', 'local'])
+    await this.runExclusive(['telemetry', 'local'])
     return this.telemetryStatus()
   }
 
@@ -654,7 +1117,7 @@ export class Ruyi {
    * Opt out of telemetry data collection (disable telemetry)
    */
   async telemetryOptout(): Promise<TelemetryStatus> {
-    await this.run(['telemetry', 'optout'])
+    await this.runExclusive(['telemetry', 'optout'])
     return this.telemetryStatus()
   }
 
@@ -696,21 +1159,21 @@ export class Ruyi {
    * Set a config value
    */
   async configSet(key: string, value: string): Promise<RuyiResult> {
-    return this.run(['config', 'set', key, value])
+    return this.runExclusive(['config', 'set', key, value])
   }
 
   /**
    * Unset a config option
    */
   async configUnset(key: string): Promise<RuyiResult> {
-    return this.run(['config', 'unset', key])
+    return this.runExclusive(['config', 'unset', key])
   }
 
   /**
    * Remove a section from the config
    */
   async configRemoveSection(section: string): Promise<RuyiResult> {
-    return this.run(['config', 'remove-section', section])
+    return this.runExclusive(['config', 'remove-section', section])
   }
 
   // ============================================================================
@@ -745,14 +1208,14 @@ export class Ruyi {
       args.push('--telemetry')
     }
 
-    return this.run(args)
+    return this.runExclusive(args)
   }
 
   /**
    * Uninstall Ruyi
    */
   async selfUninstall(): Promise<RuyiResult> {
-    return this.run(['self', 'uninstall'])
+    return this.runExclusive(['self', 'uninstall'])
   }
 
   // ============================================================================
@@ -783,7 +1246,7 @@ export class Ruyi {
     }
     args.push(id, url)
 
-    return this.run(args)
+    return this.runExclusive(args)
   }
 
   async repoRemove(id: string, purge: boolean): Promise<RuyiResult> {
@@ -794,19 +1257,19 @@ export class Ruyi {
     }
     args.push(id)
 
-    return this.run(args)
+    return this.runExclusive(args)
   }
 
   async repoEnable(id: string): Promise<RuyiResult> {
-    return this.run(['repo', 'enable', id])
+    return this.runExclusive(['repo', 'enable', id])
   }
 
   async repoDisable(id: string): Promise<RuyiResult> {
-    return this.run(['repo', 'disable', id])
+    return this.runExclusive(['repo', 'disable', id])
   }
 
   async repoSetPriority(id: string, priority: number): Promise<RuyiResult> {
-    return this.run(['repo', 'set-priority', id, String(priority)])
+    return this.runExclusive(['repo', 'set-priority', id, String(priority)])
   }
 }
 
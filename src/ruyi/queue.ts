@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Ruyi Operation Queue
+ *
+ * Serializes Ruyi CLI invocations that mutate shared on-disk state (package
+ * cache, repo checkout, config). Mutating jobs run strictly one at a time in
+ * FIFO order; read-only invocations bypass the queue entirely.
+ */
+
+import { logger } from '../common/logger'
+
+/**
+ * Queue position callback.
+ * Called with the number of operations ahead of the job (including the one
+ * currently running) whenever it changes, and with 0 once the job starts.
+ */
+export type QueuePositionCallback = (position: number) => void
+
+export interface QueueJobOptions {
+  /** Short human-readable label used for logging, e.g. "install" */
+  label: string
+  onQueued?: QueuePositionCallback
+  /** Aborting a waiting job dequeues it and starts it immediately */
+  signal?: AbortSignal
+}
+
+interface QueueJob {
+  options: QueueJobOptions
+  start: () => void
+}
+
+export class OperationQueue {
+  private readonly pending: QueueJob[] = []
+  private running: QueueJob | null = null
+
+  /**
+   * Number of jobs currently running or waiting.
+   */
+  get size(): number {
+    return this.pending.length + (this.running ? 1 : 0)
+  }
+
+  /**
+   * Run a job exclusively, after all previously enqueued jobs have finished.
+   */
+  enqueue<T>(run: () => Promise<T>, options: QueueJobOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      // A cancelled job must not keep waiting behind long-running ones:
+      // start it right away, the invoker short-circuits on aborted signals.
+      const onAbort = () => {
+        const index = this.pending.indexOf(job)
+        if (index !== -1) {
+          this.pending.splice(index, 1)
+          this.notifyPositions()
+          run().then(resolve, reject)
+        }
+      }
+      const job: QueueJob = {
+        options,
+        start: () => {
+          options.signal?.removeEventListener('abort', onAbort)
+          options.onQueued?.(0)
+          run()
+            .then(resolve, reject)
+            .finally(() => this.finish(job))
+        },
+      }
+
+      if (options.signal?.aborted && this.running) {
+        run().then(resolve, reject)
+        return
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true })
+
+      if (!this.running) {
+        this.running = job
+        job.start()
+        return
+      }
+
+      this.pending.push(job)
+      logger.info(`Queued ruyi ${options.label} (position ${this.pending.length})`)
+      options.onQueued?.(this.pending.length)
+    })
+  }
+
+  private finish(job: QueueJob): void {
+    if (this.running !== job) {
+      return
+    }
+
+    this.running = this.pending.shift() ?? null
+    this.notifyPositions()
+    this.running?.start()
+  }
+
+  private notifyPositions(): void {
+    this.pending.forEach((job, index) => job.options.onQueued?.(index + 1))
+  }
+}
+
+export const operationQueue = new OperationQueue()
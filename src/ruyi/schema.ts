@@ -0,0 +1,267 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Porcelain Schemas
+ *
+ * Runtime validation for the records printed by `ruyi --porcelain`. Records
+ * are checked against the shape the extension relies on; mismatches are
+ * reported to the log with their exact path so that a renamed or retyped
+ * field in a new ruyi release is noticed instead of silently emptying a view.
+ */
+
+import { parseNDJSON } from '../common/helpers'
+import { logger } from '../common/logger'
+
+import { getDetectedRuyiVersion, isRecordTypeSupported } from './compat'
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+/**
+ * A single schema mismatch, e.g. `vers[0].semver: expected string, got number`
+ */
+export interface SchemaIssue {
+  path: string
+  expected: string
+  actual: string
+}
+
+/**
+ * Validates a value and appends its mismatches to `issues`.
+ */
+export type Validator = (value: unknown, path: string, issues: SchemaIssue[]) => void
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function primitive(expected: 'string' | 'number' | 'boolean'): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== expected) {
+      issues.push({ path, expected, actual: describe(value) })
+    }
+  }
+}
+
+const string = primitive('string')
+const number = primitive('number')
+const boolean = primitive('boolean')
+
+function array(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', actual: describe(value) })
+      return
+    }
+    value.forEach((element, index) => item(element, `${path}[${index}]`, issues))
+  }
+}
+
+/** Accept undefined (a missing field) in addition to the given shape */
+function optional(validator: Validator): Validator {
+  return (value, path, issues) => {
+    if (value !== undefined) {
+      validator(value, path, issues)
+    }
+  }
+}
+
+function nullable(validator: Validator): Validator {
+  return (value, path, issues) => {
+    if (value !== null) {
+      validator(value, path, issues)
+    }
+  }
+}
+
+/** Validate the listed fields; unknown extra fields are allowed */
+function object(shape: Record<string, Validator>): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, expected: 'object', actual: describe(value) })
+      return
+    }
+    const record = value as Record<string, unknown>
+    for (const [key, validator] of Object.entries(shape)) {
+      validator(record[key], path ? `${path}.${key}` : key, issues)
+    }
+  }
+}
+
+// ============================================================================
+// Record Schemas
+// ============================================================================
+
+/**
+ * Porcelain record types consumed by the extension
+ */
+export type PorcelainRecordType
+  = | 'pkglistoutput-v1'
+    | 'repo-list'
+    | 'profile-v1'
+    | 'newsitem-v1'
+    | 'entity'
+
+interface RecordSpec {
+  /** Whether a parsed line is a record of this type */
+  matches: (record: Record<string, unknown>) => boolean
+  schema: Validator
+}
+
+const versionInfoSchema = object({
+  semver: string,
+  remarks: array(string),
+  is_downloaded: optional(boolean),
+  is_installed: boolean,
+  download_size_host_bytes: optional(number),
+  install_size: optional(number),
+  pm: optional(object({
+    metadata: optional(object({
+      desc: optional(string),
+      slug: optional(string),
+    })),
+    distfiles: optional(array(object({
+      name: string,
+      size: number,
+      checksums: object({}),
+      urls: optional(array(string)),
+      restrict: optional(array(string)),
+    }))),
+    binary: optional(array(object({
+      host: string,
+      distfiles: array(string),
+    }))),
+    toolchain: optional(object({
+      target: optional(string),
+      included_sysroot: optional(string),
+      quirks: optional(array(string)),
+    })),
+  })),
+})
+
+const RECORD_SPECS: Record<PorcelainRecordType, RecordSpec> = {
+  'pkglistoutput-v1': {
+    matches: record => record.ty === 'pkglistoutput-v1',
+    schema: object({
+      category: string,
+      name: string,
+      vers: array(versionInfoSchema),
+    }),
+  },
+  // `ruyi --porcelain repo list` prints one record per repo
+  'repo-list': {
+    matches: () => true,
+    schema: object({
+      id: string,
+      name: string,
+      remote: string,
+      branch: string,
+      local_path: nullable(string),
+      priority: number,
+      active: boolean,
+      is_system: boolean,
+    }),
+  },
+  // `ruyi --porcelain entity list -t profile-v1`: older releases only carry
+  // the id and display name on the entity itself, hence the optional fields
+  'profile-v1': {
+    matches: record => typeof record.data === 'object' && record.data !== null
+      && 'profile-v1' in record.data,
+    schema: object({
+      entity_id: optional(string),
+      display_name: optional(string),
+      data: object({
+        'profile-v1': object({
+          id: optional(string),
+          display_name: optional(string),
+          arch: optional(string),
+          needed_toolchain_quirks: optional(array(string)),
+          toolchain_common_flags_str: optional(string),
+        }),
+      }),
+    }),
+  },
+  // `ruyi --porcelain entity list`: every entity type, with the payload
+  // keyed by its type and references written as "<type>:<id>"
+  'entity': {
+    matches: record => typeof record.data === 'object' && record.data !== null,
+    schema: object({
+      entity_type: optional(string),
+      entity_id: optional(string),
+      display_name: optional(nullable(string)),
+      data: object({}),
+      related_refs: optional(array(string)),
+      reverse_refs: optional(array(string)),
+    }),
+  },
+  'newsitem-v1': {
+    matches: record => record.ty === 'newsitem-v1',
+    schema: object({
+      id: string,
+      ord: number,
+      is_read: boolean,
+      langs: array(object({
+        lang: string,
+        display_title: string,
+        content: string,
+      })),
+    }),
+  },
+}
+
+/**
+ * Validate a record against the schema of its type.
+ * @returns The mismatches, empty if the record is valid
+ */
+export function validateRecord(type: PorcelainRecordType, record: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  RECORD_SPECS[type].schema(record, '', issues)
+  return issues
+}
+
+// Report each distinct mismatch once per session to keep the log readable
+const reportedIssues = new Set<string>()
+
+function reportIssues(type: PorcelainRecordType, issues: SchemaIssue[]): void {
+  const version = getDetectedRuyiVersion() ?? 'unknown version'
+  for (const issue of issues) {
+    const key = `${type}:${issue.path.replace(/\[\d+\]/g, '[]')}:${issue.actual}`
+    if (reportedIssues.has(key)) {
+      continue
+    }
+    reportedIssues.add(key)
+    logger.warn(`Unexpected ${type} record from ruyi (${version}): `
+      + `${issue.path || '<root>'}: expected ${issue.expected}, got ${issue.actual}`)
+  }
+}
+
+/**
+ * Parse the NDJSON output of a porcelain command, keeping the records of the
+ * given type that match its schema. Mismatching records are logged and
+ * skipped.
+ *
+ * @example
+ * ```typescript
+ * const packages = parsePorcelain<RuyiListOutput>(result.stdout, 'pkglistoutput-v1')
+ * ```
+ */
+export function parsePorcelain<T>(output: string, type: PorcelainRecordType): T[] {
+  if (!isRecordTypeSupported(type)) {
+    logger.warn(`The detected ruyi (${getDetectedRuyiVersion()}) does not emit ${type} records`)
+  }
+
+  const spec = RECORD_SPECS[type]
+  return parseNDJSON<unknown>(output)
+    .filter((record): record is Record<string, unknown> =>
+      typeof record === 'object' && record !== null && spec.matches(record as Record<string, unknown>))
+    .filter((record) => {
+      const issues = validateRecord(type, record)
+      if (issues.length > 0) {
+        reportIssues(type, issues)
+        return false
+      }
+      return true
+    }) as T[]
+}
@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Ruyi State Directories
+ *
+ * Resolves where ruyi keeps its on-disk state (repos, downloads, installed
+ * packages, config) for the current workspace. By default ruyi uses the
+ * per-user XDG directories. Setting `ruyi.state.root` (or one of the
+ * individual `ruyi.state.*Dir` overrides) isolates the workspace; the
+ * directories are then passed to ruyi as XDG_CACHE_HOME, XDG_DATA_HOME and
+ * XDG_CONFIG_HOME by the `Ruyi` builder.
+ *
+ * Relative paths are resolved against the first workspace folder. The settings
+ * name local directories, so they only apply when ruyi runs locally; remote
+ * executors keep the target's per-user state.
+ */
+
+import { createHash } from 'crypto'
+import * as os from 'os'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { configuration } from '../common/configuration'
+import { CONFIG_KEYS } from '../common/constants'
+import { getExecutor } from '../common/executor'
+
+export interface RuyiStateDirs {
+  /** Isolated state root, null when the shared per-user state is used */
+  root: string | null
+  /** Whether any directory differs from the per-user default */
+  isolated: boolean
+  /** Base directories as passed to ruyi through XDG_* */
+  cacheHome: string
+  dataHome: string
+  configHome: string
+}
+
+type StateDirKey
+  = | typeof CONFIG_KEYS.STATE_CACHE_DIR
+    | typeof CONFIG_KEYS.STATE_DATA_DIR
+    | typeof CONFIG_KEYS.STATE_CONFIG_DIR
+
+const STATE_DIR_KEYS: StateDirKey[] = [CONFIG_KEYS.STATE_CACHE_DIR, CONFIG_KEYS.STATE_DATA_DIR, CONFIG_KEYS.STATE_CONFIG_DIR]
+
+const stateEmitter = new vscode.EventEmitter<RuyiStateDirs>()
+
+/**
+ * Fired when the workspace switches to different ruyi state directories.
+ */
+export const onDidChangeRuyiStateDirs = stateEmitter.event
+
+configuration.registerConfigChangeHandler((event) => {
+  if (event.affectsConfiguration('ruyi.state') || event.affectsConfiguration('ruyi.executor')) {
+    stateEmitter.fire(getRuyiStateDirs())
+  }
+})
+
+function resolveSetting(value: string): string | null {
+  const trimmed = value.trim()
+  if (!trimmed) {
+    return null
+  }
+  const expanded = trimmed.replace(/^~(?=$|\/)/, os.homedir())
+  const base = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir()
+  return path.resolve(base, expanded)
+}
+
+/**
+ * State directories used by ruyi in the current workspace.
+ */
+export function getRuyiStateDirs(): RuyiStateDirs {
+  const local = getExecutor().kind === 'local'
+  const setting = (key: typeof CONFIG_KEYS.STATE_ROOT | StateDirKey) =>
+    local ? resolveSetting(configuration.get(key, '')) : null
+  const root = setting(CONFIG_KEYS.STATE_ROOT)
+  const pick = (key: StateDirKey, subdir: string, xdgVar: string, fallback: string) =>
+    setting(key)
+    ?? (root ? path.join(root, subdir) : null)
+    ?? (process.env[xdgVar] || path.join(os.homedir(), fallback))
+
+  const dirs = {
+    cacheHome: pick(CONFIG_KEYS.STATE_CACHE_DIR, 'cache', 'XDG_CACHE_HOME', '.cache'),
+    dataHome: pick(CONFIG_KEYS.STATE_DATA_DIR, 'data', 'XDG_DATA_HOME', path.join('.local', 'share')),
+    configHome: pick(CONFIG_KEYS.STATE_CONFIG_DIR, 'config', 'XDG_CONFIG_HOME', '.config'),
+  }
+  const isolated = !!root || STATE_DIR_KEYS.some(key => setting(key) !== null)
+
+  return { root, isolated, ...dirs }
+}
+
+/**
+ * Environment variables pointing ruyi at the workspace state directories.
+ * Empty when the shared per-user state is used.
+ */
+export function ruyiStateEnv(): Record<string, string> {
+  const dirs = getRuyiStateDirs()
+  if (!dirs.isolated) {
+    return {}
+  }
+  return {
+    XDG_CACHE_HOME: dirs.cacheHome,
+    XDG_DATA_HOME: dirs.dataHome,
+    XDG_CONFIG_HOME: dirs.configHome,
+  }
+}
+
+/**
+ * ruyi's own cache directory, e.g. `~/.cache/ruyi`.
+ */
+export function ruyiCacheDir(): string {
+  return path.join(getRuyiStateDirs().cacheHome, 'ruyi')
+}
+
+/**
+ * ruyi's own data directory holding installed packages, e.g. `~/.local/share/ruyi`.
+ */
+export function ruyiDataDir(): string {
+  return path.join(getRuyiStateDirs().dataHome, 'ruyi')
+}
+
+/**
+ * Name of an extension cache file holding data derived from ruyi state, made
+ * unique per isolated state so that workspaces do not overwrite each other.
+ */
+export function stateScopedFileName(fileName: string): string {
+  const dirs = getRuyiStateDirs()
+  if (!dirs.isolated) {
+    return fileName
+  }
+  const hash = createHash('sha1')
+    .update([dirs.cacheHome, dirs.dataHome, dirs.configHome].join('\0'))
+    .digest('hex')
+    .slice(0, 8)
+  const { name, ext } = path.parse(fileName)
+  return `${name}-${hash}${ext}`
+}
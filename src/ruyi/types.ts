@@ -1,5 +1,17 @@
 // SPDX-License-Identifier: Apache-2.0
 
+/** A file a package version is fetched from, as declared in its manifest */
+export interface RuyiDistfileDecl {
+  name: string
+  size: number
+  /** Checksums by algorithm, e.g. sha256 */
+  checksums: Record<string, string>
+  /** Extra download locations; the repo mirrors are tried first */
+  urls?: string[]
+  /** Restrictions such as "fetch" (must be downloaded manually) */
+  restrict?: string[]
+}
+
 /** Version information for a package */
 export interface RuyiVersionInfo {
   semver: string
@@ -8,14 +20,34 @@ export interface RuyiVersionInfo {
   is_installed: boolean
   download_size_host_bytes?: number
   install_size?: number
+  /** Package manifest; only fully populated with `ruyi list --verbose` */
   pm?: {
     metadata?: {
       desc?: string
       slug?: string
+      vendor?: {
+        name?: string
+        eula?: string | null
+      }
+    }
+    distfiles?: RuyiDistfileDecl[]
+    /** Distfiles to install per host, e.g. "x86_64" */
+    binary?: {
+      host: string
+      distfiles: string[]
+    }[]
+    blob?: {
+      distfiles: string[]
     }
     toolchain?: {
+      target?: string
+      flavors?: string[]
       included_sysroot?: string
       quirks?: string[]
+      components?: {
+        name: string
+        version: string
+      }[]
     }
   }
 }
@@ -40,3 +72,41 @@ export interface RuyiRepoListOutput {
   active: boolean
   is_system: boolean
 }
+
+/** Log record emitted on stderr by `ruyi --porcelain <command>` */
+export interface RuyiLogOutput {
+  ty: 'log-v1'
+  /** Unix timestamp of the record */
+  t: number
+  /** Log level: D(ebug), I(nfo), W(arning), E(rror), F(atal) */
+  lvl: string
+  msg: string
+}
+
+/** Output line from `ruyi --porcelain entity list` */
+export interface RuyiEntityOutput {
+  entity_type?: string
+  entity_id?: string
+  display_name?: string | null
+  /** Entity payload, keyed by the entity type */
+  data: Record<string, unknown>
+  /** References to related entities, e.g. "arch:riscv64" */
+  related_refs?: string[]
+  /** References to entities relating to this one */
+  reverse_refs?: string[]
+}
+
+/** Output line from `ruyi --porcelain entity list -t profile-v1` */
+export interface RuyiProfileEntityOutput {
+  entity_id?: string
+  display_name?: string
+  data: {
+    'profile-v1': {
+      id?: string
+      display_name?: string
+      arch?: string
+      needed_toolchain_quirks?: string[]
+      toolchain_common_flags_str?: string
+    }
+  }
+}
@@ -5,7 +5,8 @@
 
 import * as vscode from 'vscode'
 
-import ruyi from '../ruyi'
+import { createQueueReporter } from '../common/helpers'
+import ruyi, { RuyiError, showRuyiError } from '../ruyi'
 
 export default function registerCleanCommand(ctx: vscode.ExtensionContext) {
   ctx.subscriptions.push(
@@ -81,13 +82,19 @@ async function promptForClean(): Promise<void> {
     repo: entries.some(entry => entry.id === 'repo'),
     telemetry: entries.some(entry => entry.id === 'telemetry'),
   }
-  const result = await ruyi.selfClean(selfCleanOptions)
+  const result = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Cleaning RuyiSDK resources...'),
+      cancellable: false,
+    },
+    progress => ruyi.onQueued(createQueueReporter(progress)).selfClean(selfCleanOptions),
+  )
   if (result.code === 0) {
     vscode.window.showInformationMessage(vscode.l10n.t('RuyiSDK resources cleaned successfully.'))
   }
   else {
-    vscode.window.showErrorMessage(
-      vscode.l10n.t('Failed to clean RuyiSDK resources: {0}', result.stderr),
-    )
+    const error = new RuyiError(result)
+    await showRuyiError(vscode.l10n.t('Failed to clean RuyiSDK resources: {0}', error.message), error)
   }
 }
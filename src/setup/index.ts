@@ -5,6 +5,7 @@ import registerCleanCommand from './clean.command'
 import { registerDetectCommand, registerManageCommand } from './manage.command'
 import { manageService } from './manage.service'
 import { registerInstallCommand, registerUpdateCommand } from './setup.command'
+import { StateStatusBarProvider } from './state-statusbar.provider'
 import registerTelemetryCommand from './telemetry.command'
 import { telemetryService } from './telemetry.service'
 
@@ -18,5 +19,5 @@ export default function registerSetupModule(ctx: vscode.ExtensionContext): void
   registerTelemetryCommand(ctx)
 
   manageService.initialize()
-  ctx.subscriptions.push(manageService, telemetryService)
+  ctx.subscriptions.push(manageService, telemetryService, StateStatusBarProvider.getInstance())
 }
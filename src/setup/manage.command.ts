@@ -4,6 +4,8 @@ import * as vscode from 'vscode'
 
 import { configuration } from '../common/configuration'
 import { logger } from '../common/logger'
+import { ruyiCapabilities } from '../ruyi/capabilities'
+import { MIN_SUPPORTED_RUYI_VERSION, setDetectedRuyiVersion } from '../ruyi/compat'
 
 import type { RuyiInstallation } from './manage.service'
 import { detectRuyiInstallation, listAllInstallations, manageService } from './manage.service'
@@ -132,6 +134,8 @@ export function registerDetectCommand(ctx: vscode.ExtensionContext): void {
       return
     }
 
+    const compatibility = setDetectedRuyiVersion(installation.version ?? null)
+
     if (!installation.version) {
       vscode.window.showWarningMessage(
         vscode.l10n.t('Ruyi found at {0} but version check failed. Please check your installation.', installation.path),
@@ -139,6 +143,21 @@ export function registerDetectCommand(ctx: vscode.ExtensionContext): void {
       return
     }
 
+    // A manual detection may follow an install outside the editor; the
+    // automatic one only needs to retry a probe that could not run ruyi
+    void (auto ? ruyiCapabilities.get() : ruyiCapabilities.reprobe())
+
+    if (compatibility.status === 'too-old') {
+      vscode.window.showWarningMessage(vscode.l10n.t(
+        'Ruyi {0} is not supported by this extension. Please upgrade to {1} or newer.',
+        installation.version,
+        MIN_SUPPORTED_RUYI_VERSION,
+      ))
+    }
+    else if (compatibility.status === 'newer-than-tested') {
+      logger.warn(`Ruyi ${compatibility.version} is newer than the versions this extension was tested with`)
+    }
+
     if (!auto || !configuration.quietRuyiPath) {
       const message = vscode.l10n.t('Ruyi detected: {0} ({1})', installation.version, installation.path)
       if (auto) {
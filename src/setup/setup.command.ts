@@ -5,6 +5,7 @@ import * as vscode from 'vscode'
 import * as semver from 'semver'
 
 import { logger } from '../common/logger'
+import { ruyiCapabilities } from '../ruyi/capabilities'
 
 import { detectRuyiInstallation, fetchGitHubReleases, listAllInstallations } from './manage.service'
 import {
@@ -54,6 +55,8 @@ async function handleSuccessAndPromptReload(
     return
   }
 
+  await ruyiCapabilities.reprobe()
+
   const message = action === 'install'
     ? vscode.l10n.t('Ruyi installed via {0}: {1}', methodName, version)
     : vscode.l10n.t('Ruyi updated via {0}: {1}', methodName, version)
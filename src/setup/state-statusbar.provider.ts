@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { getRuyiStateDirs, onDidChangeRuyiStateDirs } from '../ruyi/state'
+
+/**
+ * Provides the Status Bar Item showing which ruyi state root the workspace
+ * uses. Clicking it opens the `ruyi.state` settings.
+ * Implements Singleton pattern.
+ */
+export class StateStatusBarProvider implements vscode.Disposable {
+  private static _instance: StateStatusBarProvider
+  private statusBarItem: vscode.StatusBarItem
+  private disposables: vscode.Disposable[] = []
+
+  private constructor() {
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99,
+    )
+    this.statusBarItem.command = {
+      command: 'workbench.action.openWorkspaceSettings',
+      title: vscode.l10n.t('Configure Ruyi State'),
+      arguments: ['ruyi.state'],
+    }
+    this.disposables.push(this.statusBarItem)
+    this.disposables.push(onDidChangeRuyiStateDirs(() => this.update()))
+
+    this.update()
+    this.statusBarItem.show()
+  }
+
+  public static getInstance(): StateStatusBarProvider {
+    if (!StateStatusBarProvider._instance) {
+      StateStatusBarProvider._instance = new StateStatusBarProvider()
+    }
+    return StateStatusBarProvider._instance
+  }
+
+  private update(): void {
+    const dirs = getRuyiStateDirs()
+    const name = dirs.root
+      ? path.basename(dirs.root)
+      : dirs.isolated ? vscode.l10n.t('custom') : vscode.l10n.t('shared')
+    this.statusBarItem.text = `$(database) ${name}`
+
+    const tooltip = new vscode.MarkdownString()
+    tooltip.appendMarkdown(`${dirs.isolated
+      ? vscode.l10n.t('Ruyi state isolated for this workspace')
+      : vscode.l10n.t('Ruyi state shared with all workspaces')}\n\n`)
+    // Paths are appended as text so Markdown characters in them stay literal
+    if (dirs.root) {
+      tooltip.appendText(vscode.l10n.t('Root: {0}', dirs.root)).appendMarkdown('  \n')
+    }
+    tooltip.appendText(vscode.l10n.t('Cache: {0}', dirs.cacheHome)).appendMarkdown('  \n')
+    tooltip.appendText(vscode.l10n.t('Data: {0}', dirs.dataHome)).appendMarkdown('  \n')
+    tooltip.appendText(vscode.l10n.t('Config: {0}', dirs.configHome))
+    this.statusBarItem.tooltip = tooltip
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose())
+  }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { StorageTreeProvider } from './storage-tree.provider'
+import registerStorageCommands from './storage.command'
+
+export default function registerStorageModule(ctx: vscode.ExtensionContext) {
+  const treeProvider = new StorageTreeProvider()
+  const treeView = vscode.window.createTreeView('ruyiStorageView', {
+    treeDataProvider: treeProvider,
+    canSelectMany: true,
+  })
+  treeProvider.setTreeView(treeView)
+  ctx.subscriptions.push(treeProvider, treeView)
+
+  registerStorageCommands(ctx, treeProvider)
+}
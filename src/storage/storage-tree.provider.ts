@@ -0,0 +1,244 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { logger } from '../common/logger'
+import { formatSize } from '../packages/package.helper'
+import { onDidChangeRuyiState } from '../ruyi'
+import { onDidChangeRuyiStateDirs } from '../ruyi/state'
+import { VenvService } from '../venv/venv.service'
+
+import {
+  scanStorage,
+  sumSizes,
+  type DirUsage,
+  type InstalledPackageUsage,
+  type InstalledVersionUsage,
+  type StorageReport,
+  type VenvUsage,
+} from './storage.helper'
+
+/** Ruyi subcommands that add or remove files on disk */
+const STORAGE_MUTATING_COMMANDS = new Set(['install', 'uninstall', 'extract', 'update', 'self', 'repo', 'venv'])
+
+type StorageTreeElement
+  = | StorageGroupItem
+    | StorageCategoryItem
+    | StoragePackageItem
+    | StorageVersionItem
+    | StorageCacheItem
+    | StorageVenvItem
+    | StorageDirItem
+
+export class StorageTreeProvider implements vscode.TreeDataProvider<StorageTreeElement>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>()
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+  private report: Promise<StorageReport | null> | null = null
+  private treeView?: vscode.TreeView<StorageTreeElement>
+  private readonly disposables: vscode.Disposable[] = [this._onDidChangeTreeData]
+
+  constructor() {
+    this.disposables.push(
+      onDidChangeRuyiState(({ command }) => {
+        if (STORAGE_MUTATING_COMMANDS.has(command)) {
+          this.refresh()
+        }
+      }),
+      onDidChangeRuyiStateDirs(() => this.refresh()),
+      VenvService.instance.onDidChangeVenv(() => this.refresh()),
+    )
+  }
+
+  setTreeView(treeView: vscode.TreeView<StorageTreeElement>): void {
+    this.treeView = treeView
+  }
+
+  refresh(): void {
+    this.report = null
+    this._onDidChangeTreeData.fire()
+  }
+
+  /**
+   * The last measurement, e.g. to preview what an action frees.
+   */
+  getReport(): Promise<StorageReport | null> {
+    this.report ??= this.load()
+    return this.report
+  }
+
+  private async load(): Promise<StorageReport | null> {
+    try {
+      const report = await vscode.window.withProgress(
+        { location: { viewId: 'ruyiStorageView' } },
+        () => scanStorage(),
+      )
+      if (this.treeView) {
+        const total = sumSizes(report.packages.flatMap(pkg => pkg.versions))
+          + report.distfiles.size
+          + report.progcache.size
+          + sumSizes(report.repos)
+          + sumSizes(report.venvs)
+        this.treeView.description = formatSize(total)
+        this.treeView.message = undefined
+      }
+      return report
+    }
+    catch (error) {
+      logger.error('Failed to measure ruyi storage:', error)
+      if (this.treeView) {
+        this.treeView.description = undefined
+        this.treeView.message = vscode.l10n.t('Failed to measure storage: {0}', error instanceof Error ? error.message : String(error))
+      }
+      return null
+    }
+  }
+
+  getTreeItem(element: StorageTreeElement): vscode.TreeItem {
+    return element
+  }
+
+  async getChildren(element?: StorageTreeElement): Promise<StorageTreeElement[]> {
+    const report = await this.getReport()
+    if (!report) {
+      return []
+    }
+
+    if (!element) {
+      return [
+        new StorageGroupItem('packages', report),
+        new StorageCacheItem('distfiles', report.distfiles),
+        new StorageCacheItem('progcache', report.progcache),
+        new StorageCacheItem('repo', { path: report.repos[0]?.path ?? '', size: sumSizes(report.repos) }),
+        new StorageGroupItem('venvs', report),
+      ]
+    }
+
+    if (element instanceof StorageGroupItem) {
+      if (element.group === 'venvs') {
+        return report.venvs.map(usage => new StorageVenvItem(usage))
+      }
+      const categories = [...new Set(report.packages.map(pkg => pkg.category))].sort()
+      return categories.map(category => new StorageCategoryItem(category, report.packages.filter(pkg => pkg.category === category)))
+    }
+    if (element instanceof StorageCategoryItem) {
+      return [...element.packages]
+        .sort((a, b) => sumSizes(b.versions) - sumSizes(a.versions))
+        .map(pkg => new StoragePackageItem(pkg))
+    }
+    if (element instanceof StoragePackageItem) {
+      return element.pkg.versions.map(usage => new StorageVersionItem(element.pkg, usage))
+    }
+    if (element instanceof StorageCacheItem && element.kind === 'repo') {
+      return report.repos.map(repo => new StorageDirItem(repo.id, repo, 'repo'))
+    }
+    if (element instanceof StorageVenvItem) {
+      return element.usage.sysroots.map(sysroot => new StorageDirItem(vscode.l10n.t('Sysroot'), sysroot, 'file-symlink-directory'))
+    }
+    return []
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose())
+  }
+}
+
+export class StorageGroupItem extends vscode.TreeItem {
+  constructor(public readonly group: 'packages' | 'venvs', report: StorageReport) {
+    super(
+      group === 'packages' ? vscode.l10n.t('Installed Packages') : vscode.l10n.t('Workspace Venvs'),
+      vscode.TreeItemCollapsibleState.Expanded,
+    )
+    if (group === 'packages') {
+      this.description = formatSize(sumSizes(report.packages.flatMap(pkg => pkg.versions)))
+      this.iconPath = new vscode.ThemeIcon('package')
+      this.contextValue = 'ruyiStorage.packages'
+    }
+    else {
+      const stale = report.venvs.filter(usage => usage.missing.length > 0).length
+      this.description = stale > 0
+        ? vscode.l10n.t('{0} · {1} stale', formatSize(sumSizes(report.venvs)), stale)
+        : formatSize(sumSizes(report.venvs))
+      this.iconPath = new vscode.ThemeIcon('server-process')
+      this.contextValue = stale > 0 ? 'ruyiStorage.venvs.stale' : 'ruyiStorage.venvs'
+    }
+  }
+}
+
+export class StorageCategoryItem extends vscode.TreeItem {
+  constructor(public readonly category: string, public readonly packages: InstalledPackageUsage[]) {
+    super(category, vscode.TreeItemCollapsibleState.Collapsed)
+    this.description = formatSize(sumSizes(packages.flatMap(pkg => pkg.versions)))
+    this.iconPath = new vscode.ThemeIcon('folder')
+    this.contextValue = 'ruyiStorage.category'
+  }
+}
+
+export class StoragePackageItem extends vscode.TreeItem {
+  constructor(public readonly pkg: InstalledPackageUsage) {
+    super(pkg.name.split('/').pop() || pkg.name, vscode.TreeItemCollapsibleState.Collapsed)
+    const size = formatSize(sumSizes(pkg.versions))
+    this.description = pkg.versions.length > 1
+      ? vscode.l10n.t('{0} · {1} versions', size, pkg.versions.length)
+      : size
+    this.tooltip = pkg.name
+    this.iconPath = new vscode.ThemeIcon('package')
+    this.contextValue = pkg.versions.length > 1 ? 'ruyiStorage.package.multi' : 'ruyiStorage.package'
+  }
+}
+
+export class StorageVersionItem extends vscode.TreeItem {
+  constructor(public readonly pkg: InstalledPackageUsage, public readonly usage: InstalledVersionUsage) {
+    super(usage.version, vscode.TreeItemCollapsibleState.None)
+    this.description = formatSize(usage.size)
+    this.tooltip = usage.path
+    this.iconPath = new vscode.ThemeIcon('versions')
+    this.contextValue = 'ruyiStorage.version'
+  }
+}
+
+export type StorageCacheKind = 'distfiles' | 'progcache' | 'repo'
+
+export function describeCache(kind: StorageCacheKind): string {
+  switch (kind) {
+    case 'distfiles':
+      return vscode.l10n.t('Distfile Cache')
+    case 'progcache':
+      return vscode.l10n.t('Program Cache')
+    default:
+      return vscode.l10n.t('Package Repos')
+  }
+}
+
+export class StorageCacheItem extends vscode.TreeItem {
+  constructor(public readonly kind: StorageCacheKind, public readonly usage: DirUsage) {
+    super(describeCache(kind), kind === 'repo' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None)
+    this.description = formatSize(usage.size)
+    this.tooltip = kind === 'repo' ? undefined : usage.path
+    this.iconPath = new vscode.ThemeIcon(kind === 'distfiles' ? 'cloud-download' : kind === 'progcache' ? 'gear' : 'repo')
+    this.contextValue = `ruyiStorage.cache.${kind}`
+  }
+}
+
+export class StorageVenvItem extends vscode.TreeItem {
+  constructor(public readonly usage: VenvUsage) {
+    super(usage.venv.name, usage.sysroots.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None)
+    const stale = usage.missing.length > 0
+    this.description = stale
+      ? vscode.l10n.t('{0} · stale', formatSize(usage.size))
+      : formatSize(usage.size)
+    this.tooltip = stale
+      ? `${usage.venv.path}\n${vscode.l10n.t('Uses packages that are no longer installed: {0}', usage.missing.join(', '))}`
+      : usage.venv.path
+    this.iconPath = new vscode.ThemeIcon(stale ? 'warning' : 'server-process')
+    this.contextValue = stale ? 'ruyiStorage.venv.stale' : 'ruyiStorage.venv'
+  }
+}
+
+export class StorageDirItem extends vscode.TreeItem {
+  constructor(label: string, public readonly usage: DirUsage, icon: string) {
+    super(label, vscode.TreeItemCollapsibleState.None)
+    this.description = formatSize(usage.size)
+    this.tooltip = usage.path
+    this.iconPath = new vscode.ThemeIcon(icon)
+    this.contextValue = 'ruyiStorage.dir'
+  }
+}
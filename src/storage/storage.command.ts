@@ -0,0 +1,196 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { createQueueReporter } from '../common/helpers'
+import { findVenvsUsingPackage } from '../packages/package-details.helper'
+import { formatSize } from '../packages/package.helper'
+import ruyi, { RuyiError, showRuyiError, type RuyiResult, type SelfCleanOptions } from '../ruyi'
+import { VenvService } from '../venv/venv.service'
+
+import {
+  describeCache,
+  StorageCacheItem,
+  StoragePackageItem,
+  StorageTreeProvider,
+  StorageVenvItem,
+  StorageVersionItem,
+  type StorageCacheKind,
+} from './storage-tree.provider'
+import { sumSizes, type DirUsage, type VenvUsage } from './storage.helper'
+
+/**
+ * Ask before reclaiming space, showing how much the action frees.
+ */
+async function confirmReclaim(message: string, detail: string[], action: string): Promise<boolean> {
+  const choice = await vscode.window.showWarningMessage(message, { modal: true, detail: detail.join('\n') }, action)
+  return choice === action
+}
+
+async function runReclaim(title: string, freed: number, run: (progress: vscode.Progress<{ message?: string }>) => Promise<RuyiResult>): Promise<void> {
+  const result = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title },
+    progress => run(progress),
+  )
+  if (result.code === 0) {
+    vscode.window.showInformationMessage('✓ ' + vscode.l10n.t('Freed {0}.', formatSize(freed)))
+  }
+  else {
+    const error = new RuyiError(result)
+    void showRuyiError(vscode.l10n.t('Failed to reclaim storage: {0}', error.message), error)
+  }
+}
+
+interface VersionTarget {
+  name: string
+  usage: DirUsage & { version: string }
+}
+
+async function uninstallVersions(targets: VersionTarget[], kept: string[] = []): Promise<void> {
+  const freed = sumSizes(targets.map(target => target.usage))
+  const detail = targets.map(({ name, usage }) => `${name} ${usage.version} (${formatSize(usage.size)})`)
+
+  for (const { name, usage } of targets) {
+    for (const { venv } of await findVenvsUsingPackage(name, [usage.version])) {
+      detail.push(vscode.l10n.t('Warning: {0} {1} is used by the venv {2}', name, usage.version, venv.path))
+    }
+  }
+  if (kept.length > 0) {
+    detail.push('', vscode.l10n.t('Kept because workspace venvs still use them:'), ...kept)
+  }
+
+  const uninstall = vscode.l10n.t('Uninstall')
+  if (!await confirmReclaim(vscode.l10n.t('Uninstall {0} package version(s) and free {1}?', targets.length, formatSize(freed)), detail, uninstall)) {
+    return
+  }
+  const specs = targets.map(({ name, usage }) => `${name}(==${usage.version})`)
+  await runReclaim(vscode.l10n.t('Uninstalling {0} packages...', targets.length), freed, progress =>
+    ruyi.timeout(120_000).initiator('storage').onQueued(createQueueReporter(progress)).uninstall(specs))
+}
+
+async function removeOldVersions(item: StoragePackageItem): Promise<void> {
+  const { pkg } = item
+  const older = pkg.versions.slice(1)
+  const usages = await findVenvsUsingPackage(pkg.name, older.map(usage => usage.version))
+
+  const targets: VersionTarget[] = []
+  const kept: string[] = []
+  for (const usage of older) {
+    const venvs = usages.filter(u => u.versions.includes(usage.version)).map(u => u.venv.path)
+    if (venvs.length > 0) {
+      kept.push(vscode.l10n.t('{0} {1} (used by {2})', pkg.name, usage.version, venvs.join(', ')))
+    }
+    else {
+      targets.push({ name: pkg.name, usage })
+    }
+  }
+
+  if (targets.length === 0) {
+    vscode.window.showInformationMessage(vscode.l10n.t('All old versions of {0} are still used by workspace venvs.', pkg.name))
+    return
+  }
+  await uninstallVersions(targets, kept)
+}
+
+function cleanOptions(kind: StorageCacheKind): SelfCleanOptions {
+  switch (kind) {
+    case 'distfiles':
+      return { distfiles: true }
+    case 'progcache':
+      return { progcache: true }
+    default:
+      return { repo: true }
+  }
+}
+
+async function cleanCache(item: StorageCacheItem): Promise<void> {
+  const detail = item.kind === 'repo'
+    ? [vscode.l10n.t('Packages cannot be listed or installed until the package index is updated again.')]
+    : item.kind === 'distfiles'
+      ? [vscode.l10n.t('Installed packages are kept. Reinstalling them will download their distfiles again.')]
+      : []
+  const clean = vscode.l10n.t('Clean')
+  if (!await confirmReclaim(vscode.l10n.t('Clean the {0} and free {1}?', describeCache(item.kind), formatSize(item.usage.size)), detail, clean)) {
+    return
+  }
+  await runReclaim(vscode.l10n.t('Cleaning RuyiSDK resources...'), item.usage.size, progress =>
+    ruyi.onQueued(createQueueReporter(progress)).selfClean(cleanOptions(item.kind)))
+}
+
+async function deleteVenvs(usages: VenvUsage[]): Promise<void> {
+  const freed = sumSizes(usages)
+  const detail = usages.map(usage => usage.missing.length > 0
+    ? vscode.l10n.t('{0} ({1}, missing {2})', usage.venv.path, formatSize(usage.size), usage.missing.join(', '))
+    : `${usage.venv.path} (${formatSize(usage.size)})`)
+
+  const remove = vscode.l10n.t('Delete')
+  if (!await confirmReclaim(vscode.l10n.t('Delete {0} venv(s) and free {1}? This action cannot be undone.', usages.length, formatSize(freed)), detail, remove)) {
+    return
+  }
+
+  try {
+    for (const usage of usages) {
+      await VenvService.instance.removeVenv(usage.path)
+    }
+    vscode.window.showInformationMessage('✓ ' + vscode.l10n.t('Freed {0}.', formatSize(freed)))
+  }
+  catch (error) {
+    vscode.window.showErrorMessage(vscode.l10n.t('Failed to reclaim storage: {0}', error instanceof Error ? error.message : String(error)))
+  }
+}
+
+function usagePath(item: unknown): string | undefined {
+  if (item instanceof vscode.TreeItem && 'usage' in item) {
+    return (item.usage as DirUsage).path || undefined
+  }
+  return undefined
+}
+
+export default function registerStorageCommands(ctx: vscode.ExtensionContext, provider: StorageTreeProvider) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.storage.refresh', () => provider.refresh()),
+
+    vscode.commands.registerCommand('ruyi.storage.uninstallVersion', async (item: StorageVersionItem, selection?: unknown) => {
+      if (!(item instanceof StorageVersionItem)) {
+        return
+      }
+      const items = Array.isArray(selection) && selection.includes(item)
+        ? selection.filter((selected): selected is StorageVersionItem => selected instanceof StorageVersionItem)
+        : [item]
+      await uninstallVersions(items.map(selected => ({ name: selected.pkg.name, usage: selected.usage })))
+    }),
+
+    vscode.commands.registerCommand('ruyi.storage.removeOldVersions', async (item: StoragePackageItem) => {
+      if (item instanceof StoragePackageItem) {
+        await removeOldVersions(item)
+      }
+    }),
+
+    vscode.commands.registerCommand('ruyi.storage.cleanCache', async (item: StorageCacheItem) => {
+      if (item instanceof StorageCacheItem) {
+        await cleanCache(item)
+      }
+    }),
+
+    vscode.commands.registerCommand('ruyi.storage.deleteVenv', async (item: StorageVenvItem) => {
+      if (item instanceof StorageVenvItem) {
+        await deleteVenvs([item.usage])
+      }
+    }),
+
+    vscode.commands.registerCommand('ruyi.storage.deleteStaleVenvs', async () => {
+      const stale = (await provider.getReport())?.venvs.filter(usage => usage.missing.length > 0) ?? []
+      if (stale.length === 0) {
+        vscode.window.showInformationMessage(vscode.l10n.t('No stale venvs found.'))
+        return
+      }
+      await deleteVenvs(stale)
+    }),
+
+    vscode.commands.registerCommand('ruyi.storage.reveal', async (item: unknown) => {
+      const target = usagePath(item)
+      if (target) {
+        await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(target))
+      }
+    }),
+  )
+}
@@ -0,0 +1,196 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Storage Module - Storage Helper
+ *
+ * Provides stateless helpers measuring the disk space used by ruyi: installed
+ * packages, the distfile and program caches, the repo checkouts and the
+ * workspace venvs. These functions return data only and do NOT update UI.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+import { logger } from '../common/logger'
+import { distfilesCacheDir, getLocalRepos } from '../packages/offline-bundle.helper'
+import { readVenvConfigs } from '../packages/package-details.helper'
+import { compareVersions, findInstallDir } from '../packages/package.helper'
+import ruyi from '../ruyi'
+import { parsePorcelain } from '../ruyi/schema'
+import { ruyiCacheDir, ruyiDataDir } from '../ruyi/state'
+import type { RuyiListOutput } from '../ruyi/types'
+import type { VenvInfo } from '../venv/types'
+
+export interface DirUsage {
+  path: string
+  /** Total size of the files below the path in bytes */
+  size: number
+}
+
+export interface InstalledVersionUsage extends DirUsage {
+  version: string
+}
+
+export interface InstalledPackageUsage {
+  /** Full package name, "<category>/<name>" */
+  name: string
+  category: string
+  /** Installed versions, newest first */
+  versions: InstalledVersionUsage[]
+}
+
+export interface RepoUsage extends DirUsage {
+  id: string
+}
+
+export interface VenvUsage extends DirUsage {
+  venv: VenvInfo
+  /** Sysroot directories inside the venv */
+  sysroots: DirUsage[]
+  /** Installed packages the venv refers to that no longer exist */
+  missing: string[]
+}
+
+export interface StorageReport {
+  packages: InstalledPackageUsage[]
+  distfiles: DirUsage
+  progcache: DirUsage
+  repos: RepoUsage[]
+  venvs: VenvUsage[]
+}
+
+/**
+ * Total size of the files below a directory, without following symlinks.
+ * @returns 0 if the directory does not exist
+ */
+export async function dirSize(dir: string): Promise<number> {
+  let total = 0
+  let entries: fs.Dirent[]
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true })
+  }
+  catch {
+    return 0
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      total += await dirSize(entryPath)
+    }
+    else {
+      try {
+        total += (await fs.promises.lstat(entryPath)).size
+      }
+      catch {
+        // Removed while scanning
+      }
+    }
+  }
+  return total
+}
+
+export function sumSizes(usages: DirUsage[]): number {
+  return usages.reduce((sum, usage) => sum + usage.size, 0)
+}
+
+async function measure(dir: string): Promise<DirUsage> {
+  return { path: dir, size: await dirSize(dir) }
+}
+
+async function scanInstalledPackages(): Promise<InstalledPackageUsage[]> {
+  const result = await ruyi.timeout(60_000).list({ isInstalled: true })
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || `ruyi list exited with code ${result.code}`)
+  }
+
+  const packages: InstalledPackageUsage[] = []
+  for (const item of parsePorcelain<RuyiListOutput>(result.stdout, 'pkglistoutput-v1')) {
+    const name = `${item.category}/${item.name}`
+    const versions: InstalledVersionUsage[] = []
+    for (const { semver: version } of item.vers.filter(v => v.is_installed)) {
+      const installDir = await findInstallDir(name, version)
+      if (installDir) {
+        versions.push({ version, ...await measure(installDir) })
+      }
+    }
+    if (versions.length > 0) {
+      versions.sort((a, b) => compareVersions(b.version, a.version))
+      packages.push({ name, category: item.category, versions })
+    }
+  }
+  return packages.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Install directories a venv configuration refers to that no longer exist,
+ * i.e. packages uninstalled after the venv was created.
+ */
+async function findMissingInstalls(content: string): Promise<string[]> {
+  const dataDir = ruyiDataDir()
+  const roots = new Set<string>()
+  for (const [, value] of content.matchAll(/["']([^"'\n]+)["']/g)) {
+    if (!path.isAbsolute(value)) {
+      continue
+    }
+    // binaries/<host>/<name>-<version>/... or blobs/<name>-<version>/...
+    const parts = path.relative(dataDir, value).split(path.sep)
+    const depth = parts[0] === 'binaries' ? 3 : parts[0] === 'blobs' ? 2 : 0
+    if (depth > 0 && parts.length >= depth) {
+      roots.add(path.join(dataDir, ...parts.slice(0, depth)))
+    }
+  }
+
+  const missing: string[] = []
+  for (const root of roots) {
+    try {
+      await fs.promises.access(root)
+    }
+    catch {
+      missing.push(path.basename(root))
+    }
+  }
+  return missing
+}
+
+async function scanVenvs(): Promise<VenvUsage[]> {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+  if (!workspaceRoot) {
+    return []
+  }
+
+  const usages: VenvUsage[] = []
+  for (const { venv, content } of await readVenvConfigs()) {
+    const venvDir = path.join(workspaceRoot, venv.path)
+    const entries = await fs.promises.readdir(venvDir, { withFileTypes: true }).catch(() => [])
+    const sysroots = await Promise.all(entries
+      .filter(entry => entry.isDirectory() && (entry.name === 'sysroot' || entry.name.startsWith('sysroot.')))
+      .map(entry => measure(path.join(venvDir, entry.name))))
+    usages.push({ venv, ...await measure(venvDir), sysroots, missing: await findMissingInstalls(content) })
+  }
+  return usages
+}
+
+/**
+ * Measure everything ruyi keeps on disk for the current workspace.
+ */
+export async function scanStorage(): Promise<StorageReport> {
+  const cacheDir = ruyiCacheDir()
+  const packages = await scanInstalledPackages()
+
+  let repos: RepoUsage[] = []
+  try {
+    repos = await Promise.all((await getLocalRepos()).map(async repo => ({ id: repo.id, ...await measure(repo.path) })))
+  }
+  catch (error) {
+    logger.warn('Failed to measure the package repos:', error)
+  }
+
+  return {
+    packages,
+    distfiles: await measure(distfilesCacheDir()),
+    progcache: await measure(path.join(cacheDir, 'progcache')),
+    repos,
+    venvs: await scanVenvs(),
+  }
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { ToolchainInspectorWebviewProvider } from './toolchain-inspector-webview.provider'
+import registerToolchainCommands, { pickToolchain } from './toolchain.command'
+
+export default function registerToolchainModule(ctx: vscode.ExtensionContext) {
+  const inspector = new ToolchainInspectorWebviewProvider(exclude =>
+    pickToolchain(vscode.l10n.t('Select the toolchain to compare {0} with', exclude.label), undefined, exclude))
+  ctx.subscriptions.push(inspector)
+
+  registerToolchainCommands(ctx, inspector)
+}
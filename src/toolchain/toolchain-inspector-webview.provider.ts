@@ -0,0 +1,133 @@
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * RuyiSDK VS Code Extension - Toolchain Module - Inspector Webview Provider
+ *
+ * Shows what a toolchain supports in an editor panel: its default arch and
+ * ABI, ISA extensions, multilib variants, target options, predefined macros
+ * and quirks, optionally with the macro differences to a second toolchain.
+ */
+
+import * as vscode from 'vscode'
+
+import { getInspectorErrorHtml, getInspectorHtml } from './toolchain-inspector.view'
+import { inspectToolchain, type ToolchainReport, type ToolchainSource } from './toolchain.helper'
+
+type InspectorMessage
+  = | { type: 'compare' }
+    | { type: 'clearCompare' }
+    | { type: 'refresh' }
+
+interface InspectorPanel {
+  panel: vscode.WebviewPanel
+  source: ToolchainSource
+  compareWith?: ToolchainSource
+}
+
+export class ToolchainInspectorWebviewProvider implements vscode.Disposable {
+  /** Open panels by toolchain id */
+  private readonly panels = new Map<string, InspectorPanel>()
+  /** Inspections by toolchain id, as running a compiler takes a while */
+  private readonly reports = new Map<string, Promise<ToolchainReport>>()
+
+  /**
+   * @param pickToolchain Asks for the toolchain to compare with
+   */
+  constructor(private readonly pickToolchain: (exclude: ToolchainSource) => Promise<ToolchainSource | undefined>) {}
+
+  /**
+   * Inspect a toolchain, or reveal its inspector if already open.
+   * @param compareWith Toolchain to show the macro differences to
+   */
+  async show(source: ToolchainSource, compareWith?: ToolchainSource): Promise<void> {
+    const existing = this.panels.get(source.id)
+    if (existing) {
+      existing.compareWith = compareWith ?? existing.compareWith
+      existing.panel.reveal()
+      await this.updateContent(source.id)
+      return
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'ruyiToolchainInspector',
+      vscode.l10n.t('Toolchain: {0}', source.label),
+      vscode.ViewColumn.One,
+      { enableScripts: true },
+    )
+    this.panels.set(source.id, { panel, source, compareWith })
+
+    panel.onDidDispose(() => {
+      this.panels.delete(source.id)
+    })
+    panel.webview.onDidReceiveMessage((message: InspectorMessage) => {
+      void this.handleMessage(source.id, message)
+    })
+
+    await this.updateContent(source.id)
+  }
+
+  private async handleMessage(id: string, message: InspectorMessage): Promise<void> {
+    const entry = this.panels.get(id)
+    if (!entry) return
+
+    switch (message.type) {
+      case 'compare': {
+        const other = await this.pickToolchain(entry.source)
+        if (!other) return
+        entry.compareWith = other
+        break
+      }
+      case 'clearCompare':
+        entry.compareWith = undefined
+        break
+      case 'refresh':
+        this.reports.delete(id)
+        if (entry.compareWith) {
+          this.reports.delete(entry.compareWith.id)
+        }
+        break
+      default:
+        return
+    }
+    await this.updateContent(id)
+  }
+
+  private getReport(source: ToolchainSource): Promise<ToolchainReport> {
+    let report = this.reports.get(source.id)
+    if (!report) {
+      report = inspectToolchain(source)
+      // Retry failed inspections next time
+      report.catch(() => this.reports.delete(source.id))
+      this.reports.set(source.id, report)
+    }
+    return report
+  }
+
+  private async updateContent(id: string): Promise<void> {
+    const entry = this.panels.get(id)
+    if (!entry) return
+
+    try {
+      const [report, other] = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: vscode.l10n.t('Inspecting {0}...', entry.source.label) },
+        () => Promise.all([
+          this.getReport(entry.source),
+          entry.compareWith ? this.getReport(entry.compareWith) : undefined,
+        ]),
+      )
+
+      // Panel may have been closed during async operation
+      if (!this.panels.has(id)) return
+      entry.panel.webview.html = getInspectorHtml(entry.panel.webview, report, other)
+    }
+    catch (error) {
+      if (!this.panels.has(id)) return
+      const msg = error instanceof Error ? error.message : String(error)
+      entry.panel.webview.html = getInspectorErrorHtml(msg)
+    }
+  }
+
+  dispose(): void {
+    this.panels.forEach(({ panel }) => panel.dispose())
+  }
+}
@@ -0,0 +1,332 @@
+// SPDX-License-Identifier: Apache-2.0
+
+import { randomUUID } from 'crypto'
+import * as vscode from 'vscode'
+
+import { escapeHtml } from '../news/news-cards.view'
+
+import { diffMacros, type IsaExtension, type ToolchainReport } from './toolchain.helper'
+
+function createFieldHtml(label: string, value: string | undefined): string {
+  return value ? `<div class="field"><span class="field-label">${label}</span><code>${escapeHtml(value)}</code></div>` : ''
+}
+
+function createSectionHtml(title: string, body: string, open = true): string {
+  return `<details class="section"${open ? ' open' : ''}>
+    <summary>${title}</summary>
+    ${body}
+  </details>`
+}
+
+function createExtensionsHtml(report: ToolchainReport): string {
+  const enabled = new Map(report.enabledExtensions.map(ext => [ext.name, ext.version]))
+  // Compilers that cannot list their extensions still reveal the enabled ones
+  const extensions: IsaExtension[] = report.supportedExtensions.length > 0 ? report.supportedExtensions : report.enabledExtensions
+  if (extensions.length === 0) {
+    return ''
+  }
+
+  const rows = extensions.map(ext => `<tr>
+      <td><code>${escapeHtml(ext.name)}</code></td>
+      <td>${escapeHtml(ext.version)}</td>
+      <td>${enabled.has(ext.name) ? `<span class="badge ok">${vscode.l10n.t('enabled by default')}</span>` : ''}</td>
+    </tr>`).join('')
+  const note = report.supportedExtensions.length === 0
+    ? `<p class="muted">${vscode.l10n.t('This compiler cannot list the extensions it supports; only the extensions enabled by default are shown.')}</p>`
+    : ''
+  return createSectionHtml(
+    vscode.l10n.t('ISA Extensions ({0})', extensions.length),
+    `${note}<table>
+      <thead><tr><th>${vscode.l10n.t('Extension')}</th><th>${vscode.l10n.t('Version')}</th><th></th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`,
+  )
+}
+
+function createMultilibsHtml(report: ToolchainReport): string {
+  if (report.multilibs.length === 0) {
+    return ''
+  }
+  const rows = report.multilibs.map(lib => `<tr>
+      <td><code>${escapeHtml(lib.dir)}</code></td>
+      <td><code>${escapeHtml(lib.flags.join(' ') || vscode.l10n.t('(default)'))}</code></td>
+    </tr>`).join('')
+  return createSectionHtml(
+    vscode.l10n.t('Multilib Variants ({0})', report.multilibs.length),
+    `<table>
+      <thead><tr><th>${vscode.l10n.t('Directory')}</th><th>${vscode.l10n.t('Flags')}</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`,
+  )
+}
+
+function createTargetOptionsHtml(report: ToolchainReport): string {
+  if (report.targetOptions.length === 0) {
+    return ''
+  }
+  const rows = report.targetOptions.map(({ option, values }) => `<tr>
+      <td><code>${escapeHtml(option)}</code></td>
+      <td>${values.map(value => `<code class="chip">${escapeHtml(value)}</code>`).join(' ')}</td>
+    </tr>`).join('')
+  return createSectionHtml(vscode.l10n.t('Target Options'), `<table><tbody>${rows}</tbody></table>`)
+}
+
+function createMacrosHtml(report: ToolchainReport): string {
+  const names = Object.keys(report.macros).sort()
+  if (names.length === 0) {
+    return ''
+  }
+  const rows = names.map(name => `<tr><td><code>${escapeHtml(name)}</code></td><td><code>${escapeHtml(report.macros[name])}</code></td></tr>`).join('')
+  return createSectionHtml(
+    vscode.l10n.t('Predefined Macros ({0})', names.length),
+    `<input class="filter" type="search" placeholder="${vscode.l10n.t('Filter macros')}">
+    <table class="macros"><tbody>${rows}</tbody></table>`,
+    false,
+  )
+}
+
+function createMacroDiffHtml(report: ToolchainReport, other: ToolchainReport): string {
+  const diff = diffMacros(report.macros, other.macros)
+  const rows = [
+    ...diff.changed.map(({ name, value, otherValue }) => `<tr class="changed">
+        <td><code>${escapeHtml(name)}</code></td><td><code>${escapeHtml(value)}</code></td><td><code>${escapeHtml(otherValue)}</code></td>
+      </tr>`),
+    ...diff.removed.map(({ name, value }) => `<tr class="removed">
+        <td><code>${escapeHtml(name)}</code></td><td><code>${escapeHtml(value)}</code></td><td class="muted">${vscode.l10n.t('(undefined)')}</td>
+      </tr>`),
+    ...diff.added.map(({ name, value }) => `<tr class="added">
+        <td><code>${escapeHtml(name)}</code></td><td class="muted">${vscode.l10n.t('(undefined)')}</td><td><code>${escapeHtml(value)}</code></td>
+      </tr>`),
+  ]
+  const body = rows.length > 0
+    ? `<table>
+      <thead><tr><th>${vscode.l10n.t('Macro')}</th><th>${escapeHtml(report.source.label)}</th><th>${escapeHtml(other.source.label)}</th></tr></thead>
+      <tbody>${rows.join('')}</tbody>
+    </table>`
+    : `<p class="muted">${vscode.l10n.t('Both toolchains predefine the same macros.')}</p>`
+  return createSectionHtml(
+    vscode.l10n.t('Macro Differences with {0} ({1})', escapeHtml(other.source.label), rows.length),
+    `<div class="controls"><button class="btn secondary" data-action="clearCompare">${vscode.l10n.t('Stop Comparing')}</button></div>${body}`,
+  )
+}
+
+export function getInspectorHtml(webview: vscode.Webview, report: ToolchainReport, other?: ToolchainReport): string {
+  const nonce = randomUUID()
+  const csp = [
+    `default-src 'none';`,
+    `style-src 'unsafe-inline' ${webview.cspSource};`,
+    `script-src 'nonce-${nonce}';`,
+  ].join(' ')
+  const { source } = report
+
+  const quirks = source.quirks.length > 0
+    ? source.quirks.map(quirk => `<span class="badge">${escapeHtml(quirk)}</span>`).join('')
+    : `<span class="muted">${vscode.l10n.t('none')}</span>`
+  const errors = report.errors.length > 0
+    ? `<div class="errors">${report.errors.map(error => `<div>⚠️ ${escapeHtml(error)}</div>`).join('')}</div>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(source.label)}</title>
+<style>
+  body {
+    font-family: var(--vscode-font-family);
+    background-color: var(--vscode-editor-background);
+    color: var(--vscode-editor-foreground);
+    margin: 0;
+    padding: 16px 24px;
+    max-width: 1000px;
+  }
+  .header {
+    display: flex;
+    justify-content: space-between;
+    align-items: flex-start;
+    gap: 16px;
+    margin-bottom: 16px;
+    padding-bottom: 16px;
+    border-bottom: 1px solid var(--vscode-panel-border);
+  }
+  .title {
+    font-size: 22px;
+    font-weight: 600;
+  }
+  .muted, .subtitle {
+    color: var(--vscode-descriptionForeground);
+  }
+  .subtitle {
+    font-family: var(--vscode-editor-font-family);
+    font-size: 12px;
+    margin-top: 4px;
+    word-break: break-all;
+  }
+  .controls {
+    display: flex;
+    gap: 8px;
+    margin: 8px 0;
+  }
+  .btn {
+    padding: 4px 12px;
+    border: 1px solid var(--vscode-button-border, transparent);
+    background-color: var(--vscode-button-background);
+    color: var(--vscode-button-foreground);
+    border-radius: 2px;
+    cursor: pointer;
+    font-size: 12px;
+  }
+  .btn:hover {
+    background-color: var(--vscode-button-hoverBackground);
+  }
+  .btn.secondary {
+    background-color: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+  }
+  .btn.secondary:hover {
+    background-color: var(--vscode-button-secondaryHoverBackground);
+  }
+  .fields {
+    display: grid;
+    grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
+    gap: 4px 16px;
+    font-size: 12px;
+  }
+  .field-label {
+    color: var(--vscode-descriptionForeground);
+    margin-right: 6px;
+  }
+  .badge {
+    display: inline-block;
+    font-size: 11px;
+    padding: 1px 6px;
+    margin-right: 4px;
+    border-radius: 8px;
+    background-color: var(--vscode-badge-background);
+    color: var(--vscode-badge-foreground);
+  }
+  .badge.ok {
+    background-color: var(--vscode-testing-iconPassed);
+  }
+  .quirks {
+    margin-top: 8px;
+    font-size: 12px;
+  }
+  .errors {
+    margin-top: 12px;
+    font-size: 12px;
+    color: var(--vscode-problemsWarningIcon-foreground);
+  }
+  .section {
+    border: 1px solid var(--vscode-panel-border);
+    border-radius: 6px;
+    padding: 8px 16px;
+    margin-top: 12px;
+  }
+  .section summary {
+    font-size: 14px;
+    font-weight: 600;
+    cursor: pointer;
+  }
+  table {
+    width: 100%;
+    border-collapse: collapse;
+    margin-top: 8px;
+    font-size: 12px;
+  }
+  th, td {
+    text-align: left;
+    vertical-align: top;
+    padding: 4px 8px;
+    border-top: 1px solid var(--vscode-panel-border);
+  }
+  code {
+    font-family: var(--vscode-editor-font-family);
+    word-break: break-all;
+  }
+  .chip {
+    display: inline-block;
+    margin: 0 4px 2px 0;
+  }
+  tr.added td:first-child {
+    border-left: 3px solid var(--vscode-gitDecoration-addedResourceForeground);
+  }
+  tr.removed td:first-child {
+    border-left: 3px solid var(--vscode-gitDecoration-deletedResourceForeground);
+  }
+  tr.changed td:first-child {
+    border-left: 3px solid var(--vscode-gitDecoration-modifiedResourceForeground);
+  }
+  .filter {
+    margin-top: 8px;
+    width: 100%;
+    box-sizing: border-box;
+    padding: 4px 6px;
+    background-color: var(--vscode-input-background);
+    color: var(--vscode-input-foreground);
+    border: 1px solid var(--vscode-input-border, transparent);
+  }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="title">${escapeHtml(source.label)}</div>
+      <div class="subtitle">${escapeHtml(report.compiler)}</div>
+      ${report.version ? `<div class="subtitle">${escapeHtml(report.version)}</div>` : ''}
+    </div>
+    <div class="controls">
+      <button class="btn" data-action="compare">${vscode.l10n.t('Compare with...')}</button>
+      <button class="btn secondary" data-action="refresh">${vscode.l10n.t('Refresh')}</button>
+    </div>
+  </div>
+  <div class="fields">
+    ${createFieldHtml(vscode.l10n.t('Target'), report.target ?? source.target)}
+    ${createFieldHtml(vscode.l10n.t('Default arch'), report.defaultArch)}
+    ${createFieldHtml(vscode.l10n.t('Default ABI'), report.defaultAbi)}
+    ${createFieldHtml(vscode.l10n.t('Thread model'), report.threadModel)}
+    ${createFieldHtml(vscode.l10n.t('Venv'), source.venv)}
+    ${createFieldHtml(vscode.l10n.t('Venv flags'), source.flags.join(' ') || undefined)}
+  </div>
+  <div class="quirks"><span class="field-label">${vscode.l10n.t('Quirks')}</span>${quirks}</div>
+  ${errors}
+  ${other ? createMacroDiffHtml(report, other) : ''}
+  ${createExtensionsHtml(report)}
+  ${createMultilibsHtml(report)}
+  ${createTargetOptionsHtml(report)}
+  ${report.configureArgs.length > 0 ? createSectionHtml(vscode.l10n.t('Configure Options'), `<pre><code>${escapeHtml(report.configureArgs.join('\n'))}</code></pre>`, false) : ''}
+  ${createMacrosHtml(report)}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button[data-action]').forEach(button => {
+      button.addEventListener('click', () => vscode.postMessage({ type: button.dataset.action }));
+    });
+    const filter = document.querySelector('.filter');
+    filter?.addEventListener('input', () => {
+      const text = filter.value.toLowerCase();
+      document.querySelectorAll('.macros tr').forEach(row => {
+        row.style.display = row.textContent.toLowerCase().includes(text) ? '' : 'none';
+      });
+    });
+  </script>
+</body>
+</html>`
+}
+
+export function getInspectorErrorHtml(message: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Error</title>
+</head>
+<body>
+  <div style="padding: 20px; color: var(--vscode-errorForeground);">
+    <h3>${vscode.l10n.t('Failed to inspect the toolchain')}</h3>
+    <p>${escapeHtml(message)}</p>
+  </div>
+</body>
+</html>`
+}
@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { VersionItem } from '../packages/package-tree.provider'
+import { VenvItem, VenvToolchainItem } from '../venv/venv-tree.provider'
+
+import { ToolchainInspectorWebviewProvider } from './toolchain-inspector-webview.provider'
+import { findToolchainSources, type ToolchainSource } from './toolchain.helper'
+
+type ToolchainPick = vscode.QuickPickItem & { source?: ToolchainSource }
+
+async function loadSources(): Promise<ToolchainSource[]> {
+  return vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: vscode.l10n.t('Finding toolchains...') },
+    () => findToolchainSources(),
+  )
+}
+
+/**
+ * Ask for a toolchain, installed ones first, then those of the venvs.
+ */
+export async function pickToolchain(
+  placeHolder: string,
+  sources?: ToolchainSource[],
+  exclude?: ToolchainSource,
+): Promise<ToolchainSource | undefined> {
+  const candidates = (sources ?? await loadSources()).filter(source => source.id !== exclude?.id)
+  if (candidates.length === 0) {
+    vscode.window.showInformationMessage(vscode.l10n.t('No installed toolchains found.'))
+    return undefined
+  }
+
+  const installed = candidates.filter(source => !source.venv)
+  const venvs = candidates.filter(source => source.venv)
+  const toItem = (source: ToolchainSource): ToolchainPick => ({
+    label: source.label,
+    description: source.description,
+    detail: source.flags.length > 0 ? source.flags.join(' ') : undefined,
+    source,
+  })
+  const items: ToolchainPick[] = [
+    ...(installed.length > 0 ? [{ label: vscode.l10n.t('Installed toolchains'), kind: vscode.QuickPickItemKind.Separator }] : []),
+    ...installed.map(toItem),
+    ...(venvs.length > 0 ? [{ label: vscode.l10n.t('Virtual environments'), kind: vscode.QuickPickItemKind.Separator }] : []),
+    ...venvs.map(toItem),
+  ]
+  const picked = await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true })
+  return picked?.source
+}
+
+/**
+ * The toolchain a tree item stands for.
+ */
+async function sourceFromItem(item: unknown): Promise<ToolchainSource | undefined> {
+  if (item instanceof VersionItem) {
+    if (item.pkg.category !== 'toolchain' || !item.versionInfo.isInstalled) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Only installed toolchain packages can be inspected.'))
+      return undefined
+    }
+    const id = `${item.pkg.name}@${item.versionInfo.version}`
+    const source = (await loadSources()).find(candidate => candidate.id === id)
+    if (!source) {
+      vscode.window.showErrorMessage(vscode.l10n.t('The install directory of this package was not found.'))
+    }
+    return source
+  }
+
+  if (item instanceof VenvItem) {
+    const sources = (await loadSources()).filter(source => source.venv === item.venvPath)
+    if (sources.length === 0) {
+      vscode.window.showErrorMessage(vscode.l10n.t('No toolchain is configured in the venv {0}.', item.venvPath))
+      return undefined
+    }
+    return sources.length === 1
+      ? sources[0]
+      : pickToolchain(vscode.l10n.t('Select a toolchain of the venv to inspect'), sources)
+  }
+
+  if (item instanceof VenvToolchainItem) {
+    const source = (await loadSources()).find(candidate =>
+      candidate.venv === item.venvPath && candidate.target === item.toolchain.target)
+    if (!source) {
+      vscode.window.showErrorMessage(vscode.l10n.t('No toolchain is configured in the venv {0}.', item.venvPath))
+    }
+    return source
+  }
+
+  return pickToolchain(vscode.l10n.t('Select a toolchain to inspect'))
+}
+
+/**
+ * Inspecting runs the compilers of workspace venvs, so it needs trust.
+ */
+function checkTrusted(): boolean {
+  if (!vscode.workspace.isTrusted) {
+    vscode.window.showErrorMessage(vscode.l10n.t('Cannot inspect toolchains in an untrusted workspace.'))
+    return false
+  }
+  return true
+}
+
+export default function registerToolchainCommands(ctx: vscode.ExtensionContext, inspector: ToolchainInspectorWebviewProvider) {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.toolchain.inspect', async (item?: unknown) => {
+      if (!checkTrusted()) return
+      const source = await sourceFromItem(item)
+      if (source) {
+        await inspector.show(source)
+      }
+    }),
+
+    vscode.commands.registerCommand('ruyi.toolchain.compare', async () => {
+      if (!checkTrusted()) return
+      const sources = await loadSources()
+      const first = await pickToolchain(vscode.l10n.t('Select the first toolchain to compare'), sources)
+      if (!first) return
+      const second = await pickToolchain(vscode.l10n.t('Select the toolchain to compare {0} with', first.label), sources, first)
+      if (!second) return
+      await inspector.show(first, second)
+    }),
+  )
+}
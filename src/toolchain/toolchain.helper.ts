@@ -0,0 +1,457 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Toolchain Module - Toolchain Helper
+ *
+ * Provides stateless helpers that find the installed toolchains and the
+ * toolchains configured in workspace venvs, and inspect a compiler by
+ * running it:
+ *
+ *   <cc> -v                    version, target and configure defaults
+ *   <cc> -print-multi-lib      multilib variants
+ *   <cc> --target-help         supported -mabi=, -mcmodel=, ... values (GCC)
+ *   <cc> -march=help           supported ISA extensions (GCC 14+), or
+ *   <cc> --print-supported-extensions (Clang)
+ *   <cc> -dM -E -x c <null>    predefined macros
+ *
+ * These functions return data only and do NOT update UI.
+ */
+
+import { execFile } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { promisify } from 'util'
+import * as vscode from 'vscode'
+
+import { toAbortSignal } from '../common/helpers'
+import { logger } from '../common/logger'
+import { parseTomlTables, readVenvConfigs } from '../packages/package-details.helper'
+import { findInstallDir } from '../packages/package.helper'
+import ruyi from '../ruyi'
+import { parsePorcelain } from '../ruyi/schema'
+import { ruyiDataDir } from '../ruyi/state'
+import type { RuyiListOutput } from '../ruyi/types'
+
+const execFileAsync = promisify(execFile)
+
+/** How long a single compiler invocation may take */
+const PROBE_TIMEOUT = 15_000
+
+/**
+ * A toolchain that can be inspected.
+ */
+export interface ToolchainSource {
+  /** Unique key, "<name>@<version>" or "<venv path>#<target>" */
+  id: string
+  label: string
+  description?: string
+  /** Directory containing the compiler driver */
+  bindir: string
+  /** Target tuple, e.g. "riscv64-plct-linux-gnu" */
+  target?: string
+  /** Flags always passed to the compiler, e.g. the -march/-mabi of a venv's profile */
+  flags: string[]
+  /** Quirks declared by the toolchain package */
+  quirks: string[]
+  /** Path of the venv the toolchain is configured in */
+  venv?: string
+}
+
+export interface IsaExtension {
+  name: string
+  /** Versions, e.g. "2.0, 2.1" */
+  version: string
+}
+
+export interface Multilib {
+  /** Directory below the sysroot, "." for the default variant */
+  dir: string
+  flags: string[]
+}
+
+export interface ToolchainReport {
+  source: ToolchainSource
+  compiler: string
+  kind: 'gcc' | 'clang'
+  /** First line of the version output, e.g. "gcc version 13.2.0 (RuyiSDK)" */
+  version?: string
+  target?: string
+  threadModel?: string
+  /** -march used when none is given */
+  defaultArch?: string
+  /** -mabi used when none is given */
+  defaultAbi?: string
+  /** Options from the `Configured with:` line */
+  configureArgs: string[]
+  /** Extensions the compiler knows about, if it can list them */
+  supportedExtensions: IsaExtension[]
+  /** Extensions enabled by default, from the __riscv_<ext> macros */
+  enabledExtensions: IsaExtension[]
+  multilibs: Multilib[]
+  /** Values accepted by -m options, e.g. "-mabi=" → ["ilp32", "lp64d", ...] */
+  targetOptions: { option: string, values: string[] }[]
+  macros: Record<string, string>
+  /** Probes that failed, with their error */
+  errors: string[]
+}
+
+export interface MacroDiff {
+  /** Only defined by the other toolchain */
+  added: { name: string, value: string }[]
+  /** Only defined by this toolchain */
+  removed: { name: string, value: string }[]
+  changed: { name: string, value: string, otherValue: string }[]
+}
+
+/**
+ * Find the installed toolchain packages.
+ */
+export async function findInstalledToolchains(): Promise<ToolchainSource[]> {
+  const result = await ruyi.timeout(60_000).list({ verbose: true, categoryIs: 'toolchain' })
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || `ruyi list exited with code ${result.code}`)
+  }
+
+  const sources: ToolchainSource[] = []
+  for (const item of parsePorcelain<RuyiListOutput>(result.stdout, 'pkglistoutput-v1')) {
+    const name = `${item.category}/${item.name}`
+    for (const version of item.vers.filter(v => v.is_installed)) {
+      const installDir = await findInstallDir(name, version.semver)
+      if (!installDir) {
+        continue
+      }
+      sources.push({
+        id: `${name}@${version.semver}`,
+        label: `${item.name} ${version.semver}`,
+        description: version.pm?.toolchain?.target,
+        bindir: path.join(installDir, 'bin'),
+        target: version.pm?.toolchain?.target,
+        flags: [],
+        quirks: version.pm?.toolchain?.quirks ?? [],
+      })
+    }
+  }
+  return sources
+}
+
+/**
+ * Target options a venv may pass to its compiler, e.g. "-march=rv64gc_zba".
+ * Venv files come from the workspace, so anything else is dropped rather
+ * than handed to a compiler.
+ */
+const VENV_FLAG_RE = /^-m(?:arch|abi|cmodel)=[\w.]+$/
+
+/**
+ * Whether a venv's toolchain directory is below ruyi's installed packages.
+ */
+function isRuyiBindir(bindir: string): boolean {
+  const relative = path.relative(ruyiDataDir(), bindir)
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+/**
+ * Find the toolchains configured in the workspace venvs, from the targets
+ * ruyi caches in `ruyi-cache.v*.toml`. Only toolchains installed by ruyi are
+ * returned, with their known target flags.
+ * @param installed The installed toolchains, to attach their quirks
+ */
+export async function findVenvToolchains(installed: ToolchainSource[] = []): Promise<ToolchainSource[]> {
+  const sources: ToolchainSource[] = []
+  for (const { venv, content } of await readVenvConfigs()) {
+    for (const [table, values] of parseTomlTables(content)) {
+      const target = /^cached_v\d+\.targets\.(.+)$/.exec(table)?.[1]
+      if (!target || !values.toolchain_bindir) {
+        continue
+      }
+      const bindir = values.toolchain_bindir
+      if (!isRuyiBindir(bindir)) {
+        logger.warn(`Ignoring toolchain ${bindir} of venv ${venv.path}: not installed by ruyi`)
+        continue
+      }
+      const flags = (values.toolchain_flags ?? '').split(/\s+/).filter(Boolean)
+      const unknownFlags = flags.filter(flag => !VENV_FLAG_RE.test(flag))
+      if (unknownFlags.length > 0) {
+        logger.warn(`Ignoring flags of venv ${venv.path}: ${unknownFlags.join(' ')}`)
+      }
+      const pkg = installed.find(source => path.normalize(source.bindir) === path.normalize(bindir))
+      sources.push({
+        id: `${venv.path}#${target}`,
+        label: `${venv.name}: ${target}`,
+        description: pkg?.label ?? venv.path,
+        bindir,
+        target,
+        flags: flags.filter(flag => VENV_FLAG_RE.test(flag)),
+        quirks: pkg?.quirks ?? [],
+        venv: venv.path,
+      })
+    }
+  }
+  return sources
+}
+
+/**
+ * Find every toolchain that can be inspected, installed ones first.
+ */
+export async function findToolchainSources(): Promise<ToolchainSource[]> {
+  let installed: ToolchainSource[] = []
+  try {
+    installed = await findInstalledToolchains()
+  }
+  catch (error) {
+    logger.warn('Failed to list the installed toolchains:', error)
+  }
+  return [...installed, ...await findVenvToolchains(installed)]
+}
+
+/**
+ * Find the compiler driver of a toolchain: `<target>-gcc`, any other
+ * `*-gcc`, then `clang`.
+ * @returns null if the directory contains no known driver
+ */
+export async function findCompiler(source: ToolchainSource): Promise<string | null> {
+  let files: string[]
+  try {
+    files = await fs.promises.readdir(source.bindir)
+  }
+  catch {
+    return null
+  }
+
+  const candidates = [
+    source.target ? `${source.target}-gcc` : undefined,
+    // Prefer "<arch>-<vendor>-<os>-gcc" over wrappers such as "c89-gcc"
+    files.filter(file => /^[^-]+(-[^-]+){2,}-gcc$/.test(file)).sort()[0],
+    files.filter(file => file.endsWith('-gcc')).sort()[0],
+    'clang',
+    'gcc',
+  ]
+  const found = candidates.find(candidate => candidate && files.includes(candidate))
+  return found ? path.join(source.bindir, found) : null
+}
+
+interface ProbeResult {
+  ok: boolean
+  output: string
+}
+
+async function probe(compiler: string, args: string[], token?: vscode.CancellationToken): Promise<ProbeResult> {
+  try {
+    const { stdout, stderr } = await execFileAsync(compiler, args, {
+      timeout: PROBE_TIMEOUT,
+      maxBuffer: 16 * 1024 * 1024,
+      signal: token ? toAbortSignal(token) : undefined,
+    })
+    return { ok: true, output: stdout + stderr }
+  }
+  catch (error) {
+    const { stdout = '', stderr = '', message } = error as { stdout?: string, stderr?: string, message: string }
+    return { ok: false, output: stdout + stderr || message }
+  }
+}
+
+/**
+ * Parse `<cc> -v` output.
+ */
+export function parseVerbose(output: string): Pick<ToolchainReport, 'version' | 'target' | 'threadModel' | 'configureArgs'> {
+  const line = (prefix: string) => output.split('\n').find(l => l.startsWith(prefix))?.slice(prefix.length).trim()
+  const configured = line('Configured with:')
+  return {
+    version: output.split('\n').find(l => /\b(gcc|clang) version\b/.test(l))?.trim(),
+    target: line('Target:'),
+    threadModel: line('Thread model:'),
+    configureArgs: configured?.split(/\s+/).filter(arg => arg.startsWith('--')) ?? [],
+  }
+}
+
+/**
+ * Parse `<cc> -print-multi-lib` output, e.g.
+ * "rv64imafdc/lp64d;@march=rv64imafdc@mabi=lp64d".
+ */
+export function parseMultilibs(output: string): Multilib[] {
+  return output.split('\n')
+    .map(line => line.trim())
+    .filter(line => line.includes(';'))
+    .map((line) => {
+      const [dir, spec] = line.split(';')
+      return { dir, flags: spec.split('@').filter(Boolean).map(flag => `-${flag}`) }
+    })
+}
+
+/**
+ * Parse the blocks of `<cc> --target-help` listing the values of an
+ * option, such as "Supported ABIs (for use with the -mabi= option):".
+ */
+export function parseTargetOptions(output: string): { option: string, values: string[] }[] {
+  const options: { option: string, values: string[] }[] = []
+  let current: { option: string, values: string[] } | undefined
+  for (const line of output.split('\n')) {
+    const header = /(-m[\w-]+=)[^:]*:\s*$/.exec(line)
+    if (header && !line.trimStart().startsWith(header[1])) {
+      current = { option: header[1], values: [] }
+      options.push(current)
+    }
+    else if (current && /^\s+\S/.test(line)) {
+      current.values.push(...line.trim().split(/\s+/))
+    }
+    else {
+      current = undefined
+    }
+  }
+  return options.filter(option => option.values.length > 0)
+}
+
+/**
+ * Parse the extension list of `-march=help` or
+ * `--print-supported-extensions`.
+ */
+export function parseSupportedExtensions(output: string): IsaExtension[] {
+  const extensions = new Map<string, string>()
+  for (const line of output.split('\n')) {
+    const match = /^\s+([a-z][a-z0-9]*)\s+(\d+\.\d+(?:\s*,\s*\d+\.\d+)*)/.exec(line)
+    if (match && !extensions.has(match[1])) {
+      extensions.set(match[1], match[2].replace(/\s+/g, ' '))
+    }
+  }
+  return [...extensions].map(([name, version]) => ({ name, version }))
+}
+
+/**
+ * Parse `-dM -E` output into macro values by name.
+ */
+export function parseMacros(output: string): Record<string, string> {
+  const macros: Record<string, string> = {}
+  for (const line of output.split('\n')) {
+    const match = /^#define\s+(\S+)(?:\s+(.*))?$/.exec(line)
+    if (match) {
+      macros[match[1]] = match[2] ?? ''
+    }
+  }
+  return macros
+}
+
+/** Canonical order of the single-letter RISC-V extensions in -march */
+const SINGLE_LETTER_ORDER = 'imafdqlcbkjtpvh'
+
+/**
+ * The RISC-V extensions enabled by the predefined macros, which encode
+ * their version as major * 1000000 + minor * 1000, e.g. __riscv_m 2000000.
+ */
+export function enabledExtensions(macros: Record<string, string>): IsaExtension[] {
+  const extensions: IsaExtension[] = []
+  for (const [name, value] of Object.entries(macros)) {
+    const ext = /^__riscv_([a-z][a-z0-9]*)$/.exec(name)?.[1]
+    if (ext && /^\d{7,}$/.test(value)) {
+      const code = Number(value)
+      extensions.push({ name: ext, version: `${Math.floor(code / 1000000)}.${Math.floor(code / 1000) % 1000}` })
+    }
+  }
+  const rank = (ext: string) => ext.length === 1 ? SINGLE_LETTER_ORDER.indexOf(ext) : SINGLE_LETTER_ORDER.length
+  return extensions.sort((a, b) => rank(a.name) - rank(b.name) || a.name.localeCompare(b.name))
+}
+
+/**
+ * The -march string matching the enabled extensions, e.g. "rv64imafdc_zicsr".
+ */
+function archFromMacros(macros: Record<string, string>, extensions: IsaExtension[]): string | undefined {
+  const xlen = macros.__riscv_xlen
+  if (!xlen || extensions.length === 0) {
+    return undefined
+  }
+  const single = extensions.filter(ext => ext.name.length === 1).map(ext => ext.name).join('')
+  const multi = extensions.filter(ext => ext.name.length > 1).map(ext => `_${ext.name}`).join('')
+  return `rv${xlen}${single}${multi}`
+}
+
+/**
+ * The -mabi matching the predefined macros, e.g. "lp64d".
+ */
+function abiFromMacros(macros: Record<string, string>): string | undefined {
+  const xlen = macros.__riscv_xlen
+  if (!xlen) {
+    return undefined
+  }
+  const base = xlen === '64' ? 'lp64' : 'ilp32'
+  const suffix = '__riscv_float_abi_double' in macros ? 'd' : '__riscv_float_abi_single' in macros ? 'f' : ''
+  return base + ('__riscv_abi_rve' in macros ? 'e' : suffix)
+}
+
+function flagValue(flags: string[], option: string): string | undefined {
+  // The last occurrence wins, as with the compiler
+  return [...flags].reverse().find(flag => flag.startsWith(option))?.slice(option.length)
+}
+
+/**
+ * Run the compiler of a toolchain and collect what it supports.
+ * @throws Error if the toolchain has no known compiler driver
+ */
+export async function inspectToolchain(source: ToolchainSource, token?: vscode.CancellationToken): Promise<ToolchainReport> {
+  const compiler = await findCompiler(source)
+  if (!compiler) {
+    throw new Error(vscode.l10n.t('No compiler found in {0}.', source.bindir))
+  }
+  const kind = path.basename(compiler).includes('clang') ? 'clang' : 'gcc'
+  const flags = kind === 'clang' && source.target && !source.flags.some(flag => flag.startsWith('--target='))
+    ? [`--target=${source.target}`, ...source.flags]
+    : source.flags
+  const errors: string[] = []
+  const run = async (args: string[], required: boolean) => {
+    const result = await probe(compiler, [...flags, ...args], token)
+    if (!result.ok && required) {
+      errors.push(`${path.basename(compiler)} ${args.join(' ')}: ${result.output.trim().split('\n').pop()}`)
+    }
+    return result
+  }
+
+  const verbose = parseVerbose((await run(['-v'], true)).output)
+  const multilibs = parseMultilibs((await run(['-print-multi-lib'], true)).output)
+  const targetOptions = kind === 'gcc' ? parseTargetOptions((await run(['--target-help'], true)).output) : []
+  // Only recent compilers can list their extensions
+  const supportedExtensions = parseSupportedExtensions((await run(
+    kind === 'gcc' ? ['-march=help'] : ['--print-supported-extensions'],
+    false,
+  )).output)
+  const macroResult = await run(['-dM', '-E', '-x', 'c', os.devNull], true)
+  const macros = macroResult.ok ? parseMacros(macroResult.output) : {}
+  const enabled = enabledExtensions(macros)
+
+  const configured = (option: string) => verbose.configureArgs.find(arg => arg.startsWith(option))?.slice(option.length)
+  return {
+    source,
+    compiler,
+    kind,
+    ...verbose,
+    defaultArch: flagValue(source.flags, '-march=') ?? configured('--with-arch=') ?? archFromMacros(macros, enabled),
+    defaultAbi: flagValue(source.flags, '-mabi=') ?? configured('--with-abi=') ?? abiFromMacros(macros),
+    supportedExtensions,
+    enabledExtensions: enabled,
+    multilibs,
+    targetOptions,
+    macros,
+    errors,
+  }
+}
+
+/**
+ * Compare the predefined macros of two toolchains.
+ */
+export function diffMacros(macros: Record<string, string>, other: Record<string, string>): MacroDiff {
+  const diff: MacroDiff = { added: [], removed: [], changed: [] }
+  for (const [name, value] of Object.entries(macros)) {
+    if (!(name in other)) {
+      diff.removed.push({ name, value })
+    }
+    else if (other[name] !== value) {
+      diff.changed.push({ name, value, otherValue: other[name] })
+    }
+  }
+  for (const [name, value] of Object.entries(other)) {
+    if (!(name in macros)) {
+      diff.added.push({ name, value })
+    }
+  }
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name)
+  diff.added.sort(byName)
+  diff.removed.sort(byName)
+  diff.changed.sort(byName)
+  return diff
+}
@@ -3,8 +3,9 @@ import * as path from 'path'
 import * as vscode from 'vscode'
 
 import { getWorkspaceFolderPath } from '../common/helpers'
+import { RuyiError, showRuyiError } from '../ruyi'
+import { ruyiCapabilities } from '../ruyi/capabilities'
 
-import { ruyiVersionIsAbove } from './venv.helper'
 import type { VenvService } from './venv.service'
 
 type ToolchainPick = vscode.QuickPickItem & {
@@ -79,7 +80,7 @@ async function ensureDependencyInstalled(
   const installableName = buildInstallablePackageName(dependencyType, item.rawName)
   const success = await vscode.commands.executeCommand(
     'ruyi.packages.install',
-    [installableName, item.latest ? undefined : item.version],
+    [installableName, item.latest ? undefined : item.version, 'venv-wizard'],
   )
   if (!success) {
     vscode.window.showErrorMessage(vscode.l10n.t(
@@ -94,8 +95,9 @@ async function ensureDependencyInstalled(
 
 /**
  * Executes the create venv command.
+ * @param presetProfile Profile id or display name to use instead of asking
  */
-export async function createVenvCommand(service: VenvService): Promise<void> {
+export async function createVenvCommand(service: VenvService, presetProfile?: string): Promise<void> {
   // 1. Check workspace
   if (!vscode.workspace.workspaceFolders?.length) {
     const action = await vscode.window.showWarningMessage(
@@ -117,10 +119,13 @@ export async function createVenvCommand(service: VenvService): Promise<void> {
       : undefined,
   }))
 
-  const pickedProfile = await vscode.window.showQuickPick(profileItems, {
-    placeHolder: vscode.l10n.t('Select a profile for the new venv'),
-    matchOnDescription: true,
-  })
+  const preset = allProfiles.find(p => p.id === presetProfile || p.displayName === presetProfile)
+  const pickedProfile = preset
+    ? { label: preset.displayName }
+    : await vscode.window.showQuickPick(profileItems, {
+        placeHolder: vscode.l10n.t('Select a profile for the new venv'),
+        matchOnDescription: true,
+      })
   if (!pickedProfile) {
     return
   }
@@ -300,12 +305,12 @@ export async function createVenvCommand(service: VenvService): Promise<void> {
     {
       location: vscode.ProgressLocation.Notification,
       title: vscode.l10n.t('Creating venv'),
-      cancellable: false,
+      cancellable: true,
     },
-    async (progress) => {
+    async (progress, token) => {
       progress.report({ message: vscode.l10n.t('Initializing...') })
       try {
-        await service.createVenv({
+        const completed = await service.createVenv({
           profile,
           path: venvPath,
           toolchains: toolchainSpecs,
@@ -316,13 +321,21 @@ export async function createVenvCommand(service: VenvService): Promise<void> {
           symlinkSysrootFromDir,
           projectSysrootFromRootfs,
           extraCommandsFrom: extraCommands.length > 0 ? extraCommands : undefined,
-        }, progress)
+        }, progress, token)
+
+        if (!completed) {
+          vscode.window.showInformationMessage(vscode.l10n.t('Venv creation cancelled.'))
+          return
+        }
 
         vscode.window.showInformationMessage(vscode.l10n.t('Venv created successfully.'))
         created = true
       }
       catch (error) {
-        if (error instanceof Error) {
+        if (error instanceof RuyiError) {
+          void showRuyiError(vscode.l10n.t('Failed to create venv: {0}', error.message), error)
+        }
+        else if (error instanceof Error) {
           vscode.window.showErrorMessage(vscode.l10n.t('Failed to create venv: {0}', error.message))
         }
         else {
@@ -373,7 +386,7 @@ async function selectSysroot(service: VenvService): Promise<SelectedSysroot | un
     { id: 'copy-dir', label: vscode.l10n.t('Copy from Directory') },
     { id: 'symlink-dir', label: vscode.l10n.t('Symlink from Directory') },
   ]
-  if (await ruyiVersionIsAbove('0.49.0')) {
+  if (await ruyiCapabilities.has('hasProjectSysroot')) {
     availableWays.push({ id: 'project-dir', label: vscode.l10n.t('Project from Directory') })
   }
 
@@ -491,6 +504,7 @@ async function selectSysrootDir(): Promise<string> {
  */
 export default function registerCreateCommand(ctx: vscode.ExtensionContext, service: VenvService): void {
   ctx.subscriptions.push(
-    vscode.commands.registerCommand('ruyi.venv.create', () => createVenvCommand(service)),
+    vscode.commands.registerCommand('ruyi.venv.create', (profile?: unknown) =>
+      createVenvCommand(service, typeof profile === 'string' ? profile : undefined)),
   )
 }
@@ -13,6 +13,7 @@ import registerCleanCommand from './clean.command'
 import registerCreateCommand from './create.command'
 import registerDeactivateCommand from './deactivate.command'
 import registerRefreshCommand from './refresh.command'
+import registerVenvContentsCommands from './venv-contents.command'
 import { VenvStatusBarProvider } from './venv-statusbar.provider'
 import { VenvTreeProvider } from './venv-tree.provider'
 import { VenvService } from './venv.service'
@@ -39,6 +40,7 @@ export default function registerVenvModule(ctx: vscode.ExtensionContext): void {
   registerActivateCommand(ctx, venvService)
   registerDeactivateCommand(ctx, venvService)
   registerRefreshCommand(ctx, treeProvider)
+  registerVenvContentsCommands(ctx)
 }
 
 // Export commands
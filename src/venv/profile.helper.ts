@@ -9,6 +9,9 @@
 import { logger } from '../common/logger'
 import ruyi from '../ruyi'
 import type { RuyiResult } from '../ruyi'
+import { ruyiCapabilities } from '../ruyi/capabilities'
+import { parsePorcelain } from '../ruyi/schema'
+import type { RuyiProfileEntityOutput } from '../ruyi/types'
 
 import type { RuyiProfile } from './types'
 
@@ -23,25 +26,20 @@ function parseProfilesOutput(result: RuyiResult): RuyiProfile[] {
   }
 
   const profiles: RuyiProfile[] = []
-  const lines = result.stdout.split(/\r?\n/).filter(line => line.trim())
 
-  for (const line of lines) {
-    try {
-      const entity = JSON.parse(line)
-      const data = entity.data?.['profile-v1']
-      if (!data) continue
+  for (const entity of parsePorcelain<RuyiProfileEntityOutput>(result.stdout, 'profile-v1')) {
+    const data = entity.data['profile-v1']
+    const id = data.id ?? entity.entity_id
+    const displayName = data.display_name ?? entity.display_name
+    if (!id || !displayName) continue
 
-      profiles.push({
-        id: data.id ?? entity.entity_id,
-        displayName: data.display_name ?? entity.display_name,
-        arch: data.arch ?? 'unknown',
-        neededToolchainQuirks: data.needed_toolchain_quirks ?? [],
-        toolchainCommonFlagsStr: data.toolchain_common_flags_str ?? '',
-      })
-    }
-    catch (err) {
-      logger.warn(`Failed to parse profile line: ${line}`, err)
-    }
+    profiles.push({
+      id,
+      displayName,
+      arch: data.arch ?? 'unknown',
+      neededToolchainQuirks: data.needed_toolchain_quirks ?? [],
+      toolchainCommonFlagsStr: data.toolchain_common_flags_str ?? '',
+    })
   }
 
   // Sort by display name for consistent ordering
@@ -70,6 +68,9 @@ export function profileTexts(profile: RuyiProfile): [string, string | undefined]
  */
 export async function getProfilesFromRuyi(): Promise<RuyiProfile[]> {
   try {
+    if (!await ruyiCapabilities.has('hasProfileEntities')) {
+      throw new Error('the installed ruyi does not provide profile-v1 entities')
+    }
     const result = await ruyi.listProfiles()
     return parseProfilesOutput(result)
   }
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: Apache-2.0
+import * as vscode from 'vscode'
+
+import { VenvPartItem } from './venv-tree.provider'
+
+/**
+ * Registers the commands acting on the parts of a venv in the venv tree.
+ * @param ctx - The extension context
+ */
+export default function registerVenvContentsCommands(ctx: vscode.ExtensionContext): void {
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand('ruyi.venv.openPart', async (item: VenvPartItem) => {
+      if (item instanceof VenvPartItem && item.fsPath) {
+        await vscode.window.showTextDocument(vscode.Uri.file(item.fsPath))
+      }
+    }),
+
+    vscode.commands.registerCommand('ruyi.venv.revealPart', async (item: VenvPartItem) => {
+      if (item instanceof VenvPartItem && item.fsPath) {
+        await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(item.fsPath))
+      }
+    }),
+
+    vscode.commands.registerCommand('ruyi.venv.showPartPackage', async (item: VenvPartItem) => {
+      if (item instanceof VenvPartItem && item.pkg) {
+        await vscode.commands.executeCommand('ruyi.packages.showPackage', item.pkg.name)
+      }
+    }),
+  )
+}
@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: Apache-2.0
+/**
+ * RuyiSDK VS Code Extension - Venv Module - Contents Helper
+ *
+ * Provides stateless helper functions to describe what a venv provides, from
+ * its `ruyi-*.toml` files and the commands in its `bin/` directory.
+ * These functions return data only and do NOT update global state or UI.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { logger } from '../common/logger'
+import { parseTomlTables } from '../packages/package-details.helper'
+import { packageOfPath } from '../packages/package.helper'
+
+/** Scripts ruyi puts into every venv's `bin/` */
+const VENV_SCRIPTS = new Set(['ruyi-activate', 'ruyi-deactivate', 'ruyi-qemu'])
+
+/**
+ * Installed package a venv part comes from, by its short name.
+ */
+export interface VenvPackageRef {
+  name: string
+  version: string
+}
+
+export interface VenvToolchain {
+  /** Target triple, e.g. "riscv64-plct-linux-gnu" */
+  target: string
+  bindir: string
+  flags: string[]
+  package?: VenvPackageRef
+}
+
+export interface VenvEmulator {
+  binary: string
+  package?: VenvPackageRef
+}
+
+export interface VenvCommand {
+  name: string
+  /** File the command runs, or its entry in the venv's `bin/` if unknown */
+  dest: string
+}
+
+export type VenvBuildFileKind = 'cmake' | 'meson'
+
+export interface VenvBuildFile {
+  kind: VenvBuildFileKind
+  file: string
+  /** Target of the file if the venv has one per target */
+  target?: string
+}
+
+export interface VenvContents {
+  profile?: string
+  sysroot?: string
+  toolchains: VenvToolchain[]
+  emulator?: VenvEmulator
+  /** Commands other than the toolchains' and ruyi's own scripts */
+  extraCommands: VenvCommand[]
+  buildFiles: VenvBuildFile[]
+}
+
+/**
+ * Classify a generated build system file, e.g. "toolchain.cmake" or
+ * "meson-cross.riscv64-plct-linux-gnu.ini".
+ */
+function parseBuildFile(venvDir: string, file: string): VenvBuildFile | null {
+  const match = /^(?:toolchain(?:\.(.+))?\.cmake|meson-cross(?:\.(.+))?\.ini)$/.exec(file)
+  if (!match) {
+    return null
+  }
+  return {
+    kind: file.endsWith('.cmake') ? 'cmake' : 'meson',
+    file: path.join(venvDir, file),
+    target: match[1] ?? match[2],
+  }
+}
+
+/**
+ * Describe what a venv provides.
+ * @param venvDir Absolute path of the venv
+ */
+export async function readVenvContents(venvDir: string): Promise<VenvContents> {
+  let files: string[] = []
+  try {
+    files = await fs.promises.readdir(venvDir)
+  }
+  catch (error) {
+    logger.warn(`Failed to read venv ${venvDir}:`, error)
+  }
+
+  let content = ''
+  for (const file of files.filter(file => file.startsWith('ruyi-') && file.endsWith('.toml'))) {
+    content += await fs.promises.readFile(path.join(venvDir, file), 'utf8').catch(() => '') + '\n'
+  }
+
+  const contents: VenvContents = { toolchains: [], extraCommands: [], buildFiles: [] }
+  const dests = new Map<string, string>()
+  const toolchainCommands = new Set<string>()
+  for (const [table, values] of parseTomlTables(content)) {
+    if (table === 'config') {
+      contents.profile = values.profile
+      contents.sysroot = values.sysroot
+    }
+    else if (/^cached_v\d+$/.test(table) && values.qemu_bin) {
+      const pkg = packageOfPath(values.qemu_bin)
+      contents.emulator = { binary: values.qemu_bin, package: pkg ?? undefined }
+    }
+
+    const target = /^cached_v\d+\.targets\.(.+)$/.exec(table)?.[1]
+    if (target && values.toolchain_bindir) {
+      const pkg = packageOfPath(values.toolchain_bindir)
+      contents.toolchains.push({
+        target,
+        bindir: values.toolchain_bindir,
+        flags: (values.toolchain_flags ?? '').split(/\s+/).filter(Boolean),
+        package: pkg ?? undefined,
+      })
+    }
+
+    const command = /^cached_v\d+\.cmd_metadata_map\.(.+)$/.exec(table)?.[1]
+    if (command && values.dest) {
+      dests.set(command, values.dest)
+    }
+    if (command && values.target_tuple) {
+      toolchainCommands.add(command)
+    }
+  }
+
+  // Older venvs have no sysroot entry but a "sysroot" directory
+  if (!contents.sysroot && files.includes('sysroot')) {
+    contents.sysroot = path.join(venvDir, 'sysroot')
+  }
+
+  const commands = await fs.promises.readdir(path.join(venvDir, 'bin')).catch(() => [] as string[])
+  const prefixes = contents.toolchains.map(toolchain => `${toolchain.target}-`)
+  contents.extraCommands = commands
+    // Toolchain commands such as "clang" lack the target prefix but not the target metadata
+    .filter(name => !VENV_SCRIPTS.has(name) && !toolchainCommands.has(name)
+      && !prefixes.some(prefix => name.startsWith(prefix)))
+    .sort()
+    .map(name => ({ name, dest: dests.get(name) ?? path.join(venvDir, 'bin', name) }))
+
+  contents.buildFiles = files
+    .map(file => parseBuildFile(venvDir, file))
+    .filter((file): file is VenvBuildFile => file !== null)
+    .sort((a, b) => a.kind.localeCompare(b.kind) || a.file.localeCompare(b.file))
+
+  return contents
+}
@@ -3,15 +3,18 @@ import * as path from 'path'
 import * as vscode from 'vscode'
 
 import { getWorkspaceFolderPath } from '../common/helpers'
+import { formatSize } from '../packages/package.helper'
+import { dirSize } from '../storage/storage.helper'
 
 import type { VenvInfo } from './types'
+import { readVenvContents, type VenvBuildFile, type VenvCommand, type VenvPackageRef, type VenvToolchain } from './venv-contents.helper'
 import { VenvService } from './venv.service'
 
-type VenvTreeElement = VenvItem
+type VenvTreeElement = VenvItem | VenvPartItem
 
 export class VenvTreeProvider implements vscode.TreeDataProvider<VenvTreeElement> {
   private static _instance: VenvTreeProvider
-  private _onDidChangeTreeData = new vscode.EventEmitter<void>()
+  private _onDidChangeTreeData = new vscode.EventEmitter<VenvTreeElement | void>()
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event
 
   private constructor(private service: VenvService) {
@@ -34,6 +37,12 @@ export class VenvTreeProvider implements vscode.TreeDataProvider<VenvTreeElement
   }
 
   async getChildren(element?: VenvTreeElement): Promise<VenvTreeElement[]> {
+    if (element instanceof VenvItem) {
+      return this.getVenvParts(element)
+    }
+    if (element instanceof VenvCommandsItem) {
+      return element.commands.map(command => new VenvCommandItem(command))
+    }
     if (element) {
       return []
     }
@@ -44,6 +53,40 @@ export class VenvTreeProvider implements vscode.TreeDataProvider<VenvTreeElement
     return venvs.map(venv => new VenvItem(venv, this.isCurrentVenv(venv, current)))
   }
 
+  private async getVenvParts(item: VenvItem): Promise<VenvPartItem[]> {
+    let venvDir = item.venvPath
+    try {
+      venvDir = path.resolve(getWorkspaceFolderPath(), item.venvPath)
+    }
+    catch {
+      // No workspace, keep the path as is
+    }
+
+    const contents = await readVenvContents(venvDir)
+    const parts: VenvPartItem[] = []
+    if (contents.profile) {
+      parts.push(new VenvProfileItem(contents.profile, path.join(venvDir, 'ruyi-venv.toml')))
+    }
+    parts.push(...contents.toolchains.map(toolchain => new VenvToolchainItem(item.venvPath, toolchain)))
+    if (contents.emulator) {
+      parts.push(new VenvEmulatorItem(contents.emulator.binary, contents.emulator.package))
+    }
+    if (contents.sysroot) {
+      const sysroot = new VenvSysrootItem(contents.sysroot)
+      parts.push(sysroot)
+      // Sizing a sysroot takes a while, so show it once known
+      void dirSize(contents.sysroot).then((size) => {
+        sysroot.setSize(size)
+        this._onDidChangeTreeData.fire(sysroot)
+      })
+    }
+    if (contents.extraCommands.length > 0) {
+      parts.push(new VenvCommandsItem(contents.extraCommands))
+    }
+    parts.push(...contents.buildFiles.map(file => new VenvBuildFileItem(file)))
+    return parts
+  }
+
   private isCurrentVenv(venv: VenvInfo, current: string | null | undefined): boolean {
     if (!current) {
       return false
@@ -70,7 +113,7 @@ export class VenvItem extends vscode.TreeItem {
   public readonly venvPath: string
 
   constructor(venv: VenvInfo, isCurrent: boolean) {
-    super(venv.name, vscode.TreeItemCollapsibleState.None)
+    super(venv.name, vscode.TreeItemCollapsibleState.Collapsed)
     this.venvPath = venv.path
     this.description = venv.path
     this.tooltip = `${venv.path}${isCurrent ? ' (Active)' : ''}`
@@ -81,3 +124,104 @@ export class VenvItem extends vscode.TreeItem {
     this.resourceUri = vscode.Uri.file(venv.path)
   }
 }
+
+/**
+ * Something a venv provides, with the file or directory it is in.
+ */
+export abstract class VenvPartItem extends vscode.TreeItem {
+  /**
+   * @param fsPath File or directory the part is in, e.g. to reveal it
+   * @param pkg Installed package the part comes from
+   */
+  constructor(
+    label: string,
+    public readonly fsPath: string | undefined,
+    public readonly pkg: VenvPackageRef | undefined,
+    kind: string,
+    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
+  ) {
+    super(label, collapsibleState)
+    this.contextValue = `ruyiVenvPart.${kind}${pkg ? '.package' : ''}`
+  }
+}
+
+function describePackage(pkg: VenvPackageRef | undefined): string | undefined {
+  return pkg ? `${pkg.name} ${pkg.version}` : undefined
+}
+
+export class VenvProfileItem extends VenvPartItem {
+  constructor(profile: string, configFile: string) {
+    super(vscode.l10n.t('Profile'), configFile, undefined, 'profile')
+    this.description = profile
+    this.tooltip = configFile
+    this.iconPath = new vscode.ThemeIcon('circuit-board')
+    this.command = { command: 'vscode.open', title: vscode.l10n.t('Open File'), arguments: [vscode.Uri.file(configFile)] }
+  }
+}
+
+export class VenvToolchainItem extends VenvPartItem {
+  constructor(public readonly venvPath: string, public readonly toolchain: VenvToolchain) {
+    super(toolchain.target, toolchain.bindir, toolchain.package, 'toolchain')
+    this.description = describePackage(toolchain.package)
+    this.iconPath = new vscode.ThemeIcon('tools')
+
+    const tooltip = new vscode.MarkdownString()
+    // The directory comes from the workspace's venv files
+    tooltip.appendText(vscode.l10n.t('Binaries: {0}', toolchain.bindir)).appendMarkdown('  \n')
+    if (toolchain.flags.length > 0) {
+      tooltip.appendCodeblock(toolchain.flags.join(' '), 'shell')
+    }
+    this.tooltip = tooltip
+  }
+}
+
+export class VenvEmulatorItem extends VenvPartItem {
+  constructor(binary: string, pkg: VenvPackageRef | undefined) {
+    super(vscode.l10n.t('Emulator'), binary, pkg, 'emulator')
+    this.description = describePackage(pkg) ?? path.basename(binary)
+    this.tooltip = binary
+    this.iconPath = new vscode.ThemeIcon('vm')
+  }
+}
+
+export class VenvSysrootItem extends VenvPartItem {
+  constructor(sysroot: string) {
+    super(vscode.l10n.t('Sysroot'), sysroot, undefined, 'sysroot')
+    this.description = sysroot
+    this.tooltip = sysroot
+    this.iconPath = new vscode.ThemeIcon('root-folder')
+  }
+
+  setSize(size: number): void {
+    this.description = `${formatSize(size)} · ${this.fsPath}`
+  }
+}
+
+export class VenvCommandsItem extends VenvPartItem {
+  constructor(public readonly commands: VenvCommand[]) {
+    super(vscode.l10n.t('Extra Commands'), undefined, undefined, 'commands', vscode.TreeItemCollapsibleState.Collapsed)
+    this.description = vscode.l10n.t('{0} command(s)', commands.length)
+    this.iconPath = new vscode.ThemeIcon('terminal')
+  }
+}
+
+export class VenvCommandItem extends VenvPartItem {
+  constructor(command: VenvCommand) {
+    super(command.name, command.dest, undefined, 'command')
+    this.description = command.dest
+    this.tooltip = command.dest
+    this.iconPath = new vscode.ThemeIcon('symbol-event')
+  }
+}
+
+export class VenvBuildFileItem extends VenvPartItem {
+  constructor(file: VenvBuildFile) {
+    super(path.basename(file.file), file.file, undefined, 'buildFile')
+    this.description = file.kind === 'cmake'
+      ? vscode.l10n.t('CMake toolchain file')
+      : vscode.l10n.t('Meson cross file')
+    this.tooltip = file.file
+    this.resourceUri = vscode.Uri.file(file.file)
+    this.command = { command: 'vscode.open', title: vscode.l10n.t('Open File'), arguments: [this.resourceUri] }
+  }
+}
@@ -1,8 +1,8 @@
 // SPDX-License-Identifier: Apache-2.0
 
-import { parseNDJSON } from '../common/helpers'
 import { logger } from '../common/logger'
 import ruyi from '../ruyi'
+import { parsePorcelain } from '../ruyi/schema'
 import type { RuyiListOutput } from '../ruyi/types'
 
 import type { PkgInfo, Toolchain } from './types'
@@ -45,7 +45,7 @@ export function resolveVenvPathArg(arg: unknown): string | undefined {
  */
 export function parseToolchains(output: string): Toolchain[] {
   const result: Toolchain[] = []
-  const objects = parseNDJSON<RuyiListOutput>(output)
+  const objects = parsePorcelain<RuyiListOutput>(output, 'pkglistoutput-v1')
 
   for (const obj of objects) {
     const name = obj.name || ''
@@ -89,25 +89,6 @@ export async function getToolchainsFromRuyi(): Promise<Toolchain[]> {
   throw new Error(`Failed to get toolchains: ${result.stderr}`)
 }
 
-export async function ruyiVersionIsAbove(expected: string): Promise<boolean> {
-  const result = await ruyi.version()
-  if (!result) {
-    return false
-  }
-
-  const actual = result.split('-')[0].split('+')[0]
-  const [actualMajor, actualMinor, actualPatch] = actual.split('.').map(Number)
-  const [expectedMajor, expectedMinor, expectedPatch] = expected.split('.').map(Number)
-
-  if (actualMajor > expectedMajor) return true
-  if (actualMajor < expectedMajor) return false
-
-  if (actualMinor > expectedMinor) return true
-  if (actualMinor < expectedMinor) return false
-
-  return actualPatch >= expectedPatch
-}
-
 /**
  * Parses the raw stdout from `ruyi list --porcelain` command to extract package information.
  * Filters and transforms the NDJSON output into a structured array of PkgInfo objects.
@@ -118,8 +99,8 @@ export async function ruyiVersionIsAbove(expected: string): Promise<boolean> {
 export function parsePkgs(output: string): PkgInfo[] {
   const result: PkgInfo[] = []
 
-  // Use parseNDJSON helper to parse newline-delimited JSON
-  const objects = parseNDJSON<RuyiListOutput>(output)
+  // Parse and validate the newline-delimited JSON records
+  const objects = parsePorcelain<RuyiListOutput>(output, 'pkglistoutput-v1')
 
   for (const obj of objects) {
     const name = obj.name || ''
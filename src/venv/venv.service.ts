@@ -10,9 +10,10 @@ import * as fs from 'fs'
 import * as path from 'path'
 import * as vscode from 'vscode'
 
-import { getWorkspaceFolderPath, createProgressTracker } from '../common/helpers'
+import { getExecutor } from '../common/executor'
+import { getWorkspaceFolderPath, createProgressTracker, createQueueReporter } from '../common/helpers'
 import { logger } from '../common/logger'
-import ruyi from '../ruyi'
+import ruyi, { RuyiError } from '../ruyi'
 
 import { scanWorkspaceForVenvs } from './detection.helper'
 import { getEmulatorsFromRuyi } from './emulator.helper'
@@ -124,12 +125,12 @@ export class VenvService implements vscode.Disposable {
    * @param venvPath The absolute path to the venv.
    */
   public activateVenv(venvPath: string): void {
+    const executor = getExecutor()
     if (!this.ruyiTerminal) {
-      this.ruyiTerminal = vscode.window.createTerminal({
-        name: 'Ruyi Venv Terminal',
-        shellPath: '/bin/bash', // Enforce bash as per requirements/standard
-        cwd: vscode.workspace.workspaceFolders?.[0]?.uri,
-      })
+      // Bash on the target selected by the workspace executor
+      this.ruyiTerminal = vscode.window.createTerminal(
+        executor.terminalOptions('Ruyi Venv Terminal', vscode.workspace.workspaceFolders?.[0]?.uri.fsPath),
+      )
       this.ruyiTerminal.show()
     }
 
@@ -138,7 +139,7 @@ export class VenvService implements vscode.Disposable {
     }
 
     this.setCurrentVenv(venvPath)
-    this.ruyiTerminal.sendText(`source "${venvPath}/bin/ruyi-activate"`)
+    this.ruyiTerminal.sendText(`source "${executor.toTargetPath(venvPath)}/bin/ruyi-activate"`)
   }
 
   /**
@@ -153,20 +154,37 @@ export class VenvService implements vscode.Disposable {
 
   /**
    * Creates a new virtual environment.
+   * When the optional token is cancelled the ruyi process tree is killed and
+   * a venv directory created by this call is removed again.
+   * @returns true on success, false if creation was cancelled.
    */
-  public async createVenv(params: VenvCreateParams, progressReporter?: vscode.Progress<{ message?: string, increment?: number }>): Promise<boolean> {
+  public async createVenv(
+    params: VenvCreateParams,
+    progressReporter?: vscode.Progress<{ message?: string, increment?: number }>,
+    token?: vscode.CancellationToken,
+  ): Promise<boolean> {
     const { profile, path: venvPath, toolchains, emulator, withSysroot, copySysrootFromPkg, copySysrootFromDir, symlinkSysrootFromDir, extraCommandsFrom, projectSysrootFromRootfs } = params
 
     try {
+      const workspaceRoot = getWorkspaceFolderPath()
+      const absVenvPath = path.resolve(workspaceRoot, venvPath)
+      const existedBefore = fs.existsSync(absVenvPath)
+
       let getLastPercent: (() => number) | undefined
       let ruyiInvoker = ruyi
         .timeout(5 * 60 * 1000) // 5 minutes timeout
-        .cwd(getWorkspaceFolderPath())
+        .cwd(workspaceRoot)
+
+      if (token) {
+        ruyiInvoker = ruyiInvoker.token(token)
+      }
 
       if (progressReporter) {
-        const [onProgress, getProgress] = createProgressTracker(progressReporter)
+        const [onEvent, getProgress] = createProgressTracker(progressReporter)
         getLastPercent = getProgress
-        ruyiInvoker = ruyiInvoker.onProgress(onProgress)
+        ruyiInvoker = ruyiInvoker
+          .onQueued(createQueueReporter(progressReporter, vscode.l10n.t('Initializing...')))
+          .onEvent(onEvent)
       }
 
       const ruyiResult = await ruyiInvoker.venv(profile, venvPath, {
@@ -180,6 +198,14 @@ export class VenvService implements vscode.Disposable {
         extraCommandsFrom,
       })
 
+      if (ruyiResult.cancelled) {
+        if (!existedBefore) {
+          await fs.promises.rm(absVenvPath, { recursive: true, force: true })
+          logger.info(`Removed partially created venv at ${absVenvPath}`)
+        }
+        return false
+      }
+
       if (progressReporter && getLastPercent) {
         const finalIncrement = Math.max(0, 100 - getLastPercent())
         if (finalIncrement > 0) {
@@ -191,7 +217,7 @@ export class VenvService implements vscode.Disposable {
       }
 
       if (ruyiResult.code !== 0) {
-        throw new Error(ruyiResult.stderr || 'Unknown error during venv creation')
+        throw new RuyiError(ruyiResult)
       }
 
       return true